@@ -0,0 +1,114 @@
+/**
+ * adobe.ts
+ * @fileoverview Adobe (APP14) segment decoding
+ * @description Decodes the Adobe APP14 segment (DCTEncodeVersion, flags, color transform) and
+ * works out the color model decoders will use, which depends on the transform byte and the
+ * component count of the frame that follows
+ */
+
+import { JpegLayout, JpegSegment, parseFrameHeader } from './jpegStructure';
+
+/** Size of the Adobe payload: "Adobe" + version, flags0, flags1 (16-bit each) + transform. */
+const ADOBE_PAYLOAD_SIZE = 12;
+
+// ============================================================================================
+/**
+ * A decoded Adobe APP14 segment
+ * @param {number} version - The DCTEncodeVersion (usually 100 or 101)
+ * @param {number} flags0 - The first flags word (0x8000 = encoded with blend)
+ * @param {number} flags1 - The second flags word
+ * @param {number} transform - The color transform code (0 = none, 1 = YCbCr, 2 = YCCK)
+ * @param {number} versionOffset - Offset of the 16-bit version
+ * @param {number} flags0Offset - Offset of the 16-bit flags0 word
+ * @param {number} flags1Offset - Offset of the 16-bit flags1 word
+ * @param {number} transformOffset - Offset of the transform byte
+ */
+export interface AdobeSegment {
+    version: number;
+    flags0: number;
+    flags1: number;
+    transform: number;
+    versionOffset: number;
+    flags0Offset: number;
+    flags1Offset: number;
+    transformOffset: number;
+}
+
+// ============================================================================================
+/**
+ * Decode an Adobe APP14 segment
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The segment to decode
+ * @returns {AdobeSegment | null} The decoded segment, or null if it is not a complete Adobe segment
+ */
+export function parseAdobe(bytes: Uint8Array, segment: JpegSegment): AdobeSegment | null {
+    if (segment.marker !== 0xee) return null;
+    const p = segment.payload.start;
+    if (segment.payload.end - p < ADOBE_PAYLOAD_SIZE) return null;
+    if (String.fromCharCode(...bytes.subarray(p, p + 5)) !== 'Adobe') return null;
+
+    return {
+        version: (bytes[p + 5] << 8) | bytes[p + 6],
+        flags0: (bytes[p + 7] << 8) | bytes[p + 8],
+        flags1: (bytes[p + 9] << 8) | bytes[p + 10],
+        transform: bytes[p + 11],
+        versionOffset: p + 5,
+        flags0Offset: p + 7,
+        flags1Offset: p + 9,
+        transformOffset: p + 11
+    };
+}
+
+// ============================================================================================
+/**
+ * Describe the color transform code on its own
+ * @param {number} transform - The transform byte
+ * @returns {string} The meaning
+ */
+export function describeColorTransform(transform: number): string {
+    switch (transform) {
+        case 0: return 'none (RGB or CMYK)';
+        case 1: return 'YCbCr';
+        case 2: return 'YCCK';
+        default: return 'unknown';
+    }
+}
+
+// ============================================================================================
+/**
+ * Work out the color model decoders use for a frame, following the Adobe convention
+ * (libjpeg and browsers agree on it): with an APP14 segment the transform byte decides;
+ * without one, three components are YCbCr and four are CMYK.
+ * @param {AdobeSegment | null} adobe - The Adobe segment of the image, if any
+ * @param {number} componentCount - The number of components declared by the frame
+ * @returns {string} The color model (e.g. 'YCbCr', 'RGB', 'CMYK', 'YCCK')
+ */
+export function describeColorModel(adobe: AdobeSegment | null, componentCount: number): string {
+    if (componentCount === 1) return 'Grayscale';
+    if (componentCount === 3) {
+        if (!adobe) return 'YCbCr';
+        return adobe.transform === 0 ? 'RGB' : 'YCbCr';
+    }
+    if (componentCount === 4) {
+        if (!adobe) return 'CMYK';
+        return adobe.transform === 2 ? 'YCCK' : 'CMYK';
+    }
+    return `${componentCount} components`;
+}
+
+// ============================================================================================
+/**
+ * Work out the color model an Adobe segment selects, using the first frame header after it
+ * (so each image of a multi-image file is paired with its own frame)
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @param {JpegSegment} segment - The APP14 segment
+ * @returns {string | null} The color model, or null if the segment is not Adobe or no frame follows it
+ */
+export function describeAdobeColorModel(bytes: Uint8Array, layout: JpegLayout, segment: JpegSegment): string | null {
+    const adobe = parseAdobe(bytes, segment);
+    if (!adobe) return null;
+    const frameSegment = layout.segments.find((candidate) => candidate.start > segment.start && candidate.name.startsWith('SOF'));
+    const frame = frameSegment ? parseFrameHeader(bytes, frameSegment) : null;
+    return frame ? describeColorModel(adobe, frame.componentCount) : null;
+}
@@ -0,0 +1,141 @@
+/**
+ * analysisClient.ts
+ * @fileoverview Off-main-thread structure analysis and preview decoding
+ * @description Runs format analysis and preview decoding in a dedicated Web Worker
+ * (analysisWorker.ts) so large files do not freeze the page. Each request sends the worker its own
+ * copy of the bytes as a transfer; results come back with their buffers transferred too. Where
+ * workers are unavailable the same tasks run inline, so callers never need a second code path.
+ */
+
+import { ByteLayout, DecodedImage, findAnalyzer } from './formatRegistry';
+
+/** A task for the analysis worker. */
+export type AnalysisTask =
+    | { type: 'analyze'; bytes: Uint8Array }
+    | { type: 'decode'; bytes: Uint8Array };
+
+/** The result of an analysis task (matching its type), or the error it failed with. */
+export type AnalysisResult =
+    | { type: 'analyze'; layout: ByteLayout | null }
+    | { type: 'decode'; decoded: DecodedImage | null }
+    | { type: 'error'; message: string };
+
+/** A message between the client and the worker; the id pairs a result with its task. */
+export type AnalysisMessage<T> = T & { id: number };
+
+// ============================================================================================
+/**
+ * The analysis client interface
+ * @param {boolean} usesWorker - True when tasks run in a worker, false when they run inline
+ * @param {function(Uint8Array): Promise<ByteLayout | null>} analyze - Analyze bytes with the analyzer their magic bytes select
+ * @param {function(Uint8Array): Promise<DecodedImage | null>} decodePreview - Decode bytes for the preview with their analyzer's decoder
+ */
+export interface AnalysisClient {
+    readonly usesWorker: boolean;
+    analyze(bytes: Uint8Array): Promise<ByteLayout | null>;
+    decodePreview(bytes: Uint8Array): Promise<DecodedImage | null>;
+}
+
+// ============================================================================================
+/**
+ * Create the analysis client, starting the worker if the browser allows it
+ * @returns {AnalysisClient} The created client
+ */
+export function createAnalysisClient(): AnalysisClient {
+    let worker: Worker | null = null;
+    try {
+        worker = new Worker(new URL('./analysisWorker.js', import.meta.url), { type: 'module' });
+    } catch (err) {
+        console.warn('[ImageHexEditor] Analysis worker unavailable; analyzing on the main thread', err);
+    }
+
+    let nextId = 0;
+    const pending = new Map<number, { task: AnalysisTask; resolve: (result: AnalysisResult) => void }>();
+
+    // ============================================================================================
+    /**
+     * Stop using the worker and finish every pending task inline
+     * @param {unknown} err - The reason the worker failed
+     */
+    function abandonWorker(err: unknown): void {
+        console.error('[ImageHexEditor] Analysis worker failed; analyzing on the main thread', err);
+        worker?.terminate();
+        worker = null;
+        for (const { task, resolve } of pending.values()) {
+            resolve(runAnalysisTask(task).result);
+        }
+        pending.clear();
+    }
+
+    if (worker) {
+        worker.addEventListener('message', (ev: MessageEvent<AnalysisMessage<AnalysisResult>>) => {
+            const entry = pending.get(ev.data.id);
+            if (!entry) return;
+            pending.delete(ev.data.id);
+            entry.resolve(ev.data);
+        });
+        worker.addEventListener('error', (ev) => abandonWorker(ev.message));
+    }
+
+    // ============================================================================================
+    /**
+     * Run a task in the worker (or inline without one)
+     * @param {AnalysisTask} task - The task (the worker is sent a copy of its bytes)
+     * @returns {Promise<AnalysisResult>} The result
+     */
+    function run(task: AnalysisTask): Promise<AnalysisResult> {
+        if (!worker) return Promise.resolve(runAnalysisTask(task).result);
+
+        const id = nextId++;
+        const bytes = task.bytes.slice();
+        return new Promise((resolve) => {
+            pending.set(id, { task, resolve });
+            worker!.postMessage({ ...task, bytes, id }, [bytes.buffer]);
+        });
+    }
+
+    return {
+        get usesWorker() {
+            return worker !== null;
+        },
+
+        async analyze(bytes: Uint8Array): Promise<ByteLayout | null> {
+            const result = await run({ type: 'analyze', bytes });
+            if (result.type === 'error') throw new Error(result.message);
+            return result.type === 'analyze' ? result.layout : null;
+        },
+
+        async decodePreview(bytes: Uint8Array): Promise<DecodedImage | null> {
+            const result = await run({ type: 'decode', bytes });
+            if (result.type === 'error') throw new Error(result.message);
+            return result.type === 'decode' ? result.decoded : null;
+        }
+    };
+}
+
+// ============================================================================================
+/**
+ * Run an analysis task. The worker calls this for every message; the client calls it directly
+ * when no worker is available.
+ * @param {AnalysisTask} task - The task to run
+ * @returns {{ result: AnalysisResult; transfer: Transferable[] }} The result and the buffers to transfer with it
+ */
+export function runAnalysisTask(task: AnalysisTask): { result: AnalysisResult; transfer: Transferable[] } {
+    try {
+        if (task.type === 'analyze') {
+            const layout = findAnalyzer(task.bytes)?.analyze(task.bytes) ?? null;
+            // The worker's copy of the bytes goes back too, since layouts such as the TIFF reader
+            // keep a reference to them (transferring is free, cloning would copy the file).
+            const transfer: Transferable[] = [task.bytes.buffer];
+            if (layout && layout.regions.buffer !== task.bytes.buffer) transfer.push(layout.regions.buffer);
+            return { result: { type: 'analyze', layout }, transfer };
+        }
+
+        const analyzer = findAnalyzer(task.bytes);
+        const layout = analyzer?.decodePreview ? analyzer.analyze(task.bytes) : null;
+        const decoded = layout ? analyzer!.decodePreview!(task.bytes, layout) : null;
+        return { result: { type: 'decode', decoded }, transfer: decoded ? [decoded.rgba.buffer] : [] };
+    } catch (err) {
+        return { result: { type: 'error', message: err instanceof Error ? err.message : String(err) }, transfer: [] };
+    }
+}
@@ -0,0 +1,13 @@
+/**
+ * analysisWorker.ts
+ * @fileoverview Web Worker entry for structure analysis and preview decoding
+ * @description Bundled on its own (dist/js/analysisWorker.js) and started by the analysis client.
+ * Runs each task it receives and posts the result back under the task's id.
+ */
+
+import { AnalysisMessage, AnalysisTask, runAnalysisTask } from './analysisClient';
+
+self.addEventListener('message', (ev: MessageEvent<AnalysisMessage<AnalysisTask>>) => {
+    const { result, transfer } = runAnalysisTask(ev.data);
+    (self as unknown as Worker).postMessage({ ...result, id: ev.data.id }, transfer);
+});
@@ -0,0 +1,476 @@
+/**
+ * bmpStructure.ts
+ * @fileoverview BMP byte classification and pixel coordinate mapping
+ * @description Parses the BMP file header and every DIB header version (core, OS/2, info, V2–V5),
+ * the color masks, the palette and the pixel array with its row padding, and maps bytes of the
+ * pixel array to pixel coordinates and back
+ */
+
+import { ByteLayout, ByteRange, createRegionCodes, FormatAnalyzer } from './formatRegistry';
+
+/** Size of the BITMAPFILEHEADER ("BM", file size, reserved, pixel offset). */
+const BMP_FILE_HEADER_SIZE = 14;
+
+/** Size of the BITMAPCOREHEADER, the smallest DIB header. */
+const BMP_CORE_HEADER_SIZE = 12;
+
+/** Size of the BITMAPINFOHEADER, the first header with 32-bit dimensions and a compression field. */
+const BMP_INFO_HEADER_SIZE = 40;
+
+/** Offset of the color masks inside V2+ headers, from the start of the file. */
+const BMP_MASKS_OFFSET = BMP_FILE_HEADER_SIZE + BMP_INFO_HEADER_SIZE;
+
+/** Compression codes that store uncompressed pixels with explicit color masks. */
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+const HEADER_NAMES: Record<number, string> = {
+    12: 'BITMAPCOREHEADER',
+    16: 'OS22XBITMAPHEADER',
+    40: 'BITMAPINFOHEADER',
+    52: 'BITMAPV2INFOHEADER',
+    56: 'BITMAPV3INFOHEADER',
+    64: 'OS22XBITMAPHEADER',
+    108: 'BITMAPV4HEADER',
+    124: 'BITMAPV5HEADER'
+};
+
+const COMPRESSION_NAMES: Record<number, string> = {
+    0: 'none',
+    1: 'RLE8',
+    2: 'RLE4',
+    3: 'bitfields',
+    4: 'JPEG',
+    5: 'PNG',
+    6: 'alpha bitfields'
+};
+
+// ============================================================================================
+/**
+ * The color masks of a bitfields (or 16/32-bit) BMP
+ * @param {number} red - The red mask
+ * @param {number} green - The green mask
+ * @param {number} blue - The blue mask
+ * @param {number} alpha - The alpha mask (0 when there is none)
+ */
+export interface BmpMasks {
+    red: number;
+    green: number;
+    blue: number;
+    alpha: number;
+}
+
+// ============================================================================================
+/**
+ * The decoded file and DIB headers of a BMP
+ * @param {number} fileSize - The file size declared by the file header
+ * @param {number} pixelOffset - The offset of the pixel array declared by the file header
+ * @param {number} headerSize - The size of the DIB header
+ * @param {string} headerName - The name of the DIB header version (e.g. 'BITMAPV5HEADER')
+ * @param {number} width - The width in pixels
+ * @param {number} height - The height in pixels (always positive)
+ * @param {boolean} topDown - True when rows are stored top to bottom (negative height)
+ * @param {number} bitCount - Bits per pixel (1, 4, 8, 16, 24 or 32)
+ * @param {number} compression - The compression code (0 for core headers)
+ * @param {number} colorsUsed - The declared palette size (0 means the default for the bit count)
+ * @param {BmpMasks | null} masks - The color masks in effect, or null for palette and 24-bit images
+ */
+export interface BmpHeader {
+    fileSize: number;
+    pixelOffset: number;
+    headerSize: number;
+    headerName: string;
+    width: number;
+    height: number;
+    topDown: boolean;
+    bitCount: number;
+    compression: number;
+    colorsUsed: number;
+    masks: BmpMasks | null;
+}
+
+// ============================================================================================
+/**
+ * The layout of a BMP: the decoded headers and where the palette and pixel rows lie
+ * @param {BmpHeader} dib - The decoded headers
+ * @param {ByteRange | null} palette - The palette present in the file, if any
+ * @param {number} paletteEntrySize - Bytes per palette entry (3 for core headers, 4 otherwise)
+ * @param {ByteRange} pixels - The pixel array present in the file
+ * @param {number} rowStride - Bytes per stored row, including padding to a 4-byte boundary
+ * @param {number} rowBytes - Bytes per row that hold pixels
+ */
+export interface BmpLayout extends ByteLayout {
+    dib: BmpHeader;
+    palette: ByteRange | null;
+    paletteEntrySize: number;
+    pixels: ByteRange;
+    rowStride: number;
+    rowBytes: number;
+}
+
+// ============================================================================================
+/**
+ * The pixel (or pixels, for 1- and 4-bit images) a byte of the pixel array stores
+ * @param {number} x - The column of the first pixel in the byte
+ * @param {number} y - The row, counted from the top of the image
+ * @param {number} count - How many pixels share the byte (1 unless bits per pixel is below 8)
+ * @param {string} channel - The channel(s) in the byte (e.g. 'G', 'index'), or 'padding'
+ */
+export interface BmpPixel {
+    x: number;
+    y: number;
+    count: number;
+    channel: string;
+}
+
+/** The regions of a BMP, in legend order. */
+const BMP_LEGEND = [
+    { id: 'bmp-file-header', label: 'File Header' },
+    { id: 'bmp-dib-header',  label: 'DIB Header' },
+    { id: 'bmp-masks',       label: 'Color Masks' },
+    { id: 'bmp-palette',     label: 'Palette' },
+    { id: 'bmp-pixels',      label: 'Pixel Array', bulkData: true },
+    { id: 'bmp-padding',     label: 'Row Padding' }
+] as const;
+
+/** The codes stored in a BMP layout's `regions` array. */
+const BMP_CODES = createRegionCodes(BMP_LEGEND);
+
+/** The BMP analyzer; row padding is colored but not offered as a Jump target. */
+export const BMP_ANALYZER: FormatAnalyzer<BmpLayout> = {
+    id: 'bmp',
+    name: 'BMP',
+    mimeType: 'image/bmp',
+    detect: isBmp,
+    analyze: analyzeBmp,
+    describeDimensions: (bytes, layout) => describeBmpDimensions(layout),
+    describeByte: (bytes, layout, offset) => describeBmpByte(layout, offset),
+    offsetAtPixel: findBmpPixelOffset,
+    legend: BMP_LEGEND,
+    jumpTargets: [
+        'bmp-file-header',
+        'bmp-dib-header',
+        'bmp-masks',
+        'bmp-palette',
+        'bmp-pixels'
+    ]
+};
+
+// ============================================================================================
+/**
+ * Check whether bytes open with a BMP file header and a DIB header
+ * @param {Uint8Array} bytes - The bytes to check
+ * @returns {boolean} True if the file starts with "BM" and a plausible DIB header size
+ */
+export function isBmp(bytes: Uint8Array): boolean {
+    if (bytes.length < BMP_FILE_HEADER_SIZE + 4) return false;
+    if (bytes[0] !== 0x42 || bytes[1] !== 0x4d) return false;
+    return readUint32(bytes, BMP_FILE_HEADER_SIZE) >= BMP_CORE_HEADER_SIZE;
+}
+
+// ============================================================================================
+/**
+ * Check whether a layout came from the BMP analyzer
+ * @param {ByteLayout | null} layout - The layout to check
+ * @returns {boolean} True if the layout is a BMP layout
+ */
+export function isBmpLayout(layout: ByteLayout | null): layout is BmpLayout {
+    return !!layout && 'dib' in layout;
+}
+
+// ============================================================================================
+/**
+ * Analyze a BMP: classify the file header, DIB header, color masks, palette and pixel array,
+ * marking the padding at the end of each row separately. Compressed pixel arrays (RLE, JPEG,
+ * PNG) have no fixed rows, so they are marked as pixels throughout. Bytes between the palette
+ * and the pixel array, and after the pixel array (such as a V5 ICC profile), are "other".
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @returns {BmpLayout | null} The layout, or null if the file is not a BMP
+ */
+export function analyzeBmp(bytes: Uint8Array): BmpLayout | null {
+    if (!isBmp(bytes)) return null;
+
+    const len = bytes.length;
+    const regions = new Uint8Array(len);
+    regions.fill(BMP_CODES.other);
+    regions.fill(BMP_CODES['bmp-file-header'], 0, BMP_FILE_HEADER_SIZE);
+
+    const dib = parseDibHeader(bytes);
+    const headerEnd = Math.min(BMP_FILE_HEADER_SIZE + dib.headerSize, len);
+    regions.fill(BMP_CODES['bmp-dib-header'], BMP_FILE_HEADER_SIZE, headerEnd);
+
+    // V2+ headers carry the masks inside the header; an info header with bitfields compression
+    // is followed by them.
+    let cursor = headerEnd;
+    if (dib.headerSize >= 52 && !isOs2Header(dib.headerSize)) {
+        const maskEnd = BMP_MASKS_OFFSET + (dib.headerSize >= 56 ? 16 : 12);
+        regions.fill(BMP_CODES['bmp-masks'], BMP_MASKS_OFFSET, Math.min(maskEnd, len));
+    } else if (dib.headerSize === BMP_INFO_HEADER_SIZE && (dib.compression === BI_BITFIELDS || dib.compression === BI_ALPHABITFIELDS)) {
+        const maskEnd = cursor + (dib.compression === BI_ALPHABITFIELDS ? 16 : 12);
+        regions.fill(BMP_CODES['bmp-masks'], cursor, Math.min(maskEnd, len));
+        cursor = maskEnd;
+    }
+
+    // The palette runs from the end of the header (and masks) up to the pixel array at most.
+    const paletteEntrySize = dib.headerSize === BMP_CORE_HEADER_SIZE ? 3 : 4;
+    const paletteCount = dib.colorsUsed || (dib.bitCount <= 8 ? 1 << dib.bitCount : 0);
+    let palette: ByteRange | null = null;
+    if (paletteCount > 0 && cursor < len) {
+        const limit = dib.pixelOffset > cursor ? dib.pixelOffset : len;
+        const end = Math.min(cursor + paletteCount * paletteEntrySize, limit, len);
+        regions.fill(BMP_CODES['bmp-palette'], cursor, end);
+        palette = { start: cursor, end };
+    }
+
+    const rowBytes = Math.ceil((dib.width * dib.bitCount) / 8);
+    const rowStride = Math.floor((dib.width * dib.bitCount + 31) / 32) * 4;
+    const pixelStart = Math.min(dib.pixelOffset, len);
+    let pixelEnd: number;
+    if (hasFixedRows(dib)) {
+        pixelEnd = Math.min(pixelStart + rowStride * dib.height, len);
+        for (let row = pixelStart; row < pixelEnd; row += rowStride) {
+            regions.fill(BMP_CODES['bmp-pixels'], row, Math.min(row + rowBytes, pixelEnd));
+            regions.fill(BMP_CODES['bmp-padding'], Math.min(row + rowBytes, pixelEnd), Math.min(row + rowStride, pixelEnd));
+        }
+    } else {
+        const imageSize = BMP_FILE_HEADER_SIZE + 20 + 4 <= len && dib.headerSize >= BMP_INFO_HEADER_SIZE ? readUint32(bytes, BMP_FILE_HEADER_SIZE + 20) : 0;
+        pixelEnd = imageSize > 0 ? Math.min(pixelStart + imageSize, len) : len;
+        regions.fill(BMP_CODES['bmp-pixels'], pixelStart, pixelEnd);
+    }
+
+    return {
+        length: len,
+        regions,
+        dib,
+        palette,
+        paletteEntrySize,
+        pixels: { start: pixelStart, end: pixelEnd },
+        rowStride,
+        rowBytes
+    };
+}
+
+// ============================================================================================
+/**
+ * Describe the compression code of a BMP
+ * @param {number} compression - The compression code
+ * @returns {string} The name (e.g. 'none', 'RLE8')
+ */
+export function describeBmpCompression(compression: number): string {
+    return COMPRESSION_NAMES[compression] ?? `unknown (${compression})`;
+}
+
+// ============================================================================================
+/**
+ * Describe the image size and bit depth declared by the DIB header
+ * @param {BmpLayout} layout - The layout of the BMP
+ * @returns {string} The dimensions (e.g. "640 × 480 · 24-bit")
+ */
+export function describeBmpDimensions(layout: BmpLayout): string {
+    const dib = layout.dib;
+    return `${dib.width} × ${dib.height} · ${dib.bitCount}-bit`;
+}
+
+// ============================================================================================
+/**
+ * Describe what a byte of a BMP holds: a header, a palette entry or a pixel channel
+ * @param {BmpLayout} layout - The layout of the BMP
+ * @param {number} offset - The offset of the byte
+ * @returns {string | null} The description (e.g. "Pixel (12, 3) · G"), or null for unclassified bytes
+ */
+export function describeBmpByte(layout: BmpLayout, offset: number): string | null {
+    const pixel = findBmpPixelAt(layout, offset);
+    if (pixel) {
+        if (pixel.channel === 'padding') return `Row ${pixel.y} padding`;
+        const x = pixel.count > 1 ? `${pixel.x}–${pixel.x + pixel.count - 1}` : `${pixel.x}`;
+        return `${pixel.count > 1 ? 'Pixels' : 'Pixel'} (${x}, ${pixel.y}) · ${pixel.channel}`;
+    }
+    switch (layout.regions[offset]) {
+        case BMP_CODES['bmp-file-header']: return 'File header';
+        case BMP_CODES['bmp-dib-header']: return layout.dib.headerName;
+        case BMP_CODES['bmp-masks']: return 'Color masks';
+        case BMP_CODES['bmp-palette']: return `Palette entry ${Math.floor((offset - layout.palette!.start) / layout.paletteEntrySize)}`;
+        case BMP_CODES['bmp-pixels']: return `Pixel data (${describeBmpCompression(layout.dib.compression)})`;
+        default: return null;
+    }
+}
+
+// ============================================================================================
+/**
+ * Find the pixel a byte of the pixel array stores
+ * @param {BmpLayout} layout - The layout of the BMP
+ * @param {number} offset - The offset of the byte
+ * @returns {BmpPixel | null} The pixel, or null if the byte is outside the pixel array or the pixels are compressed
+ */
+export function findBmpPixelAt(layout: BmpLayout, offset: number): BmpPixel | null {
+    const { dib, pixels, rowStride, rowBytes } = layout;
+    if (!hasFixedRows(dib) || offset < pixels.start || offset >= pixels.end) return null;
+
+    const row = Math.floor((offset - pixels.start) / rowStride);
+    const column = (offset - pixels.start) % rowStride;
+    const y = dib.topDown ? row : dib.height - 1 - row;
+    if (column >= rowBytes) return { x: dib.width, y, count: 0, channel: 'padding' };
+
+    if (dib.bitCount < 8) {
+        const perByte = 8 / dib.bitCount;
+        const x = column * perByte;
+        return { x, y, count: Math.min(perByte, dib.width - x), channel: 'index' };
+    }
+
+    const bytesPerPixel = dib.bitCount / 8;
+    const x = Math.floor(column / bytesPerPixel);
+    return { x, y, count: 1, channel: describeChannelByte(dib, column % bytesPerPixel) };
+}
+
+// ============================================================================================
+/**
+ * Find the first byte of a pixel in the pixel array
+ * @param {BmpLayout} layout - The layout of the BMP
+ * @param {number} x - The column
+ * @param {number} y - The row, counted from the top of the image
+ * @returns {number | null} The offset, or null if the pixel is outside the image or the file, or the pixels are compressed
+ */
+export function findBmpPixelOffset(layout: BmpLayout, x: number, y: number): number | null {
+    const { dib, pixels, rowStride } = layout;
+    if (!hasFixedRows(dib) || x < 0 || y < 0 || x >= dib.width || y >= dib.height) return null;
+    const row = dib.topDown ? y : dib.height - 1 - y;
+    const offset = pixels.start + row * rowStride + Math.floor((x * dib.bitCount) / 8);
+    return offset < pixels.end ? offset : null;
+}
+
+// ============================================================================================
+/**
+ * Decode the DIB header, reading only the fields the header version has and the file holds
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @returns {BmpHeader} The decoded headers
+ */
+function parseDibHeader(bytes: Uint8Array): BmpHeader {
+    const len = bytes.length;
+    const p = BMP_FILE_HEADER_SIZE;
+    const headerSize = readUint32(bytes, p);
+    const header: BmpHeader = {
+        fileSize: readUint32(bytes, 2),
+        pixelOffset: readUint32(bytes, 10),
+        headerSize,
+        headerName: HEADER_NAMES[headerSize] ?? `${headerSize}-byte header`,
+        width: 0,
+        height: 0,
+        topDown: false,
+        bitCount: 0,
+        compression: 0,
+        colorsUsed: 0,
+        masks: null
+    };
+
+    if (headerSize === BMP_CORE_HEADER_SIZE) {
+        if (p + BMP_CORE_HEADER_SIZE > len) return header;
+        header.width = readUint16(bytes, p + 4);
+        header.height = readUint16(bytes, p + 6);
+        header.bitCount = readUint16(bytes, p + 10);
+        return header;
+    }
+
+    if (p + 16 > len) return header;
+    const height = readInt32(bytes, p + 8);
+    header.width = Math.abs(readInt32(bytes, p + 4));
+    header.height = Math.abs(height);
+    header.topDown = height < 0;
+    header.bitCount = readUint16(bytes, p + 14);
+    if (headerSize >= 20 && p + 20 <= len) header.compression = readUint32(bytes, p + 16);
+    if (headerSize >= 36 && p + 36 <= len) header.colorsUsed = readUint32(bytes, p + 32);
+
+    // OS/2 headers reuse compression 3 for Huffman 1D; only Windows headers mean bitfields.
+    const os2 = isOs2Header(headerSize);
+    if ((header.compression === BI_BITFIELDS && !os2) || header.compression === BI_ALPHABITFIELDS) {
+        const hasAlpha = header.compression === BI_ALPHABITFIELDS || headerSize >= 56;
+        if (BMP_MASKS_OFFSET + (hasAlpha ? 16 : 12) <= len) {
+            header.masks = {
+                red: readUint32(bytes, BMP_MASKS_OFFSET),
+                green: readUint32(bytes, BMP_MASKS_OFFSET + 4),
+                blue: readUint32(bytes, BMP_MASKS_OFFSET + 8),
+                alpha: hasAlpha ? readUint32(bytes, BMP_MASKS_OFFSET + 12) : 0
+            };
+        }
+    } else if (header.compression === 0 && header.bitCount === 16) {
+        header.masks = { red: 0x7c00, green: 0x03e0, blue: 0x001f, alpha: 0 };
+    } else if (header.compression === 0 && header.bitCount === 32) {
+        header.masks = { red: 0x00ff0000, green: 0x0000ff00, blue: 0x000000ff, alpha: 0xff000000 };
+    }
+    return header;
+}
+
+// ============================================================================================
+/**
+ * Check whether a DIB header size belongs to an OS/2 2.x header (16 to 64 bytes, other than the Windows sizes)
+ * @param {number} headerSize - The DIB header size
+ * @returns {boolean} True for OS/2 headers
+ */
+function isOs2Header(headerSize: number): boolean {
+    return headerSize >= 16 && headerSize <= 64 && headerSize !== 40 && headerSize !== 52 && headerSize !== 56;
+}
+
+// ============================================================================================
+/**
+ * Check whether the pixel array is stored as plain padded rows
+ * @param {BmpHeader} dib - The decoded headers
+ * @returns {boolean} True for uncompressed and bitfields images with a supported bit count
+ */
+function hasFixedRows(dib: BmpHeader): boolean {
+    if (dib.width === 0 || dib.height === 0) return false;
+    if (![1, 2, 4, 8, 16, 24, 32].includes(dib.bitCount)) return false;
+    if (dib.compression === 0) return true;
+    return (dib.compression === BI_BITFIELDS && !isOs2Header(dib.headerSize)) || dib.compression === BI_ALPHABITFIELDS;
+}
+
+// ============================================================================================
+/**
+ * Name the channel(s) stored in one byte of a pixel
+ * @param {BmpHeader} dib - The decoded headers
+ * @param {number} index - The index of the byte within the pixel (little-endian)
+ * @returns {string} The channel names (e.g. 'G', 'G/B'), 'index' for palette images, or 'unused'
+ */
+function describeChannelByte(dib: BmpHeader, index: number): string {
+    if (dib.bitCount === 8) return 'index';
+    if (!dib.masks) return ['B', 'G', 'R'][index] ?? 'unused';
+
+    const byteMask = 0xff << (index * 8);
+    const names: string[] = [];
+    if (dib.masks.red & byteMask) names.push('R');
+    if (dib.masks.green & byteMask) names.push('G');
+    if (dib.masks.blue & byteMask) names.push('B');
+    if (dib.masks.alpha & byteMask) names.push('A');
+    return names.length > 0 ? names.join('/') : 'unused';
+}
+
+// ============================================================================================
+/**
+ * Read a little-endian 16-bit unsigned integer
+ * @param {Uint8Array} bytes - The bytes to read from
+ * @param {number} offset - The offset of the first byte
+ * @returns {number} The value
+ */
+function readUint16(bytes: Uint8Array, offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+// ============================================================================================
+/**
+ * Read a little-endian 32-bit unsigned integer
+ * @param {Uint8Array} bytes - The bytes to read from
+ * @param {number} offset - The offset of the first byte
+ * @returns {number} The value
+ */
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return readInt32(bytes, offset) >>> 0;
+}
+
+// ============================================================================================
+/**
+ * Read a little-endian 32-bit signed integer
+ * @param {Uint8Array} bytes - The bytes to read from
+ * @param {number} offset - The offset of the first byte
+ * @returns {number} The value
+ */
+function readInt32(bytes: Uint8Array, offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24);
+}
@@ -4,16 +4,31 @@
  * @description Manages file bytes, history stack, and editor cursor position
  */
 
-import { analyzeJpeg, JpegLayout } from './jpegStructure';
+import { ByteLayout, EditOptions, findAnalyzer, FormatAnalyzer, LayoutEdit } from './formatRegistry';
 
 export interface EditorState {
     bytes: Uint8Array | null;
     fileName: string | null;
     fileSize: number;
-    layout: JpegLayout | null;
+    layout: ByteLayout | null;
+    /** The analyzer that recognized the current bytes, or null if no registered format matched. */
+    analyzer: FormatAnalyzer | null;
     activeOffset: number;
     history: Uint8Array[];
     historyIndex: number;
+    /**
+     * Handed to the analyzer's afterEdit hook; recomputeChecksums makes edits to a PNG rewrite the
+     * CRCs of the chunks they touch before committing.
+     */
+    editOptions: EditOptions;
+    /**
+     * Loads, undo and redo of files at least this large leave the layout null and analysisPending
+     * set, for the caller to analyze off the main thread and store with applyLayout. Edits always
+     * update the layout in place. Infinity (the default) analyzes everything inline.
+     */
+    deferAnalysisBytes: number;
+    /** True while the layout of the current bytes is being computed elsewhere (see deferAnalysisBytes). */
+    analysisPending: boolean;
 }
 
 // ============================================================================================
@@ -27,9 +42,13 @@ export function createEmptyState(): EditorState {
         fileName: null,
         fileSize: 0,
         layout: null,
+        analyzer: null,
         activeOffset: 0,
         history: [],
-        historyIndex: -1
+        historyIndex: -1,
+        editOptions: { recomputeChecksums: false },
+        deferAnalysisBytes: Infinity,
+        analysisPending: false
     };
 }
 
@@ -47,6 +66,21 @@ export function loadNewFile(state: EditorState, buffer: ArrayBuffer, fileName: s
     state.activeOffset = 0;
 }
 
+// ============================================================================================
+/**
+ * Store a layout computed off the main thread
+ * @param {EditorState} state - The state to update
+ * @param {Uint8Array} bytes - The bytes the layout was computed for
+ * @param {ByteLayout | null} layout - The layout
+ * @returns {boolean} True if the bytes are still current and the layout was stored, false if it is stale
+ */
+export function applyLayout(state: EditorState, bytes: Uint8Array, layout: ByteLayout | null): boolean {
+    if (!state.analysisPending || state.bytes !== bytes) return false;
+    state.layout = layout;
+    state.analysisPending = false;
+    return true;
+}
+
 // ============================================================================================
 /**
  * Apply a byte-by-byte edit to the state
@@ -58,7 +92,10 @@ export function applyEdit(state: EditorState, mutator: (draft: Uint8Array) => vo
     if (!state.bytes) return;
     const draft = new Uint8Array(state.bytes);
     mutator(draft);
-    pushSnapshot(state, draft, state.fileName);
+    const changed = findChangedRange(state.bytes, draft) ?? { start: 0, end: 0 };
+    const edit = { start: changed.start, end: changed.end, length: changed.end - changed.start };
+    const fixed = changed.end > changed.start ? fixEditedBytes(state, state.bytes, draft, edit) : { bytes: draft, edit };
+    pushSnapshot(state, fixed.bytes, state.fileName, fixed.edit);
 }
 
 // ============================================================================================
@@ -77,10 +114,35 @@ export function applyInsert(state: EditorState, offset: number, insert: Uint8Arr
     next.set(src.subarray(0, safeOffset), 0);
     next.set(insert, safeOffset);
     next.set(src.subarray(safeOffset), safeOffset + insert.length);
-    pushSnapshot(state, next, state.fileName);
+    const edit = { start: safeOffset, end: safeOffset, length: insert.length };
+    const fixed = fixEditedBytes(state, src, next, edit);
+    pushSnapshot(state, fixed.bytes, state.fileName, fixed.edit);
     state.activeOffset = safeOffset;
 }
 
+// ============================================================================================
+/**
+ * Replace a byte range with new data of any length
+ * @param {EditorState} state - The state to apply the replacement to
+ * @param {number} start - The first offset to replace
+ * @param {number} end - The offset one past the last byte to replace
+ * @param {Uint8Array} replacement - The data to put in place of the range
+ * @returns {void} The replaced state
+ */
+export function applyReplace(state: EditorState, start: number, end: number, replacement: Uint8Array): void {
+    if (!state.bytes) return;
+    const src = state.bytes;
+    const safeStart = Math.max(0, Math.min(start, src.length));
+    const safeEnd = Math.max(safeStart, Math.min(end, src.length));
+    const next = new Uint8Array(src.length - (safeEnd - safeStart) + replacement.length);
+    next.set(src.subarray(0, safeStart), 0);
+    next.set(replacement, safeStart);
+    next.set(src.subarray(safeEnd), safeStart + replacement.length);
+    const edit = { start: safeStart, end: safeEnd, length: replacement.length };
+    const fixed = fixEditedBytes(state, src, next, edit);
+    pushSnapshot(state, fixed.bytes, state.fileName, fixed.edit);
+}
+
 // ============================================================================================
 /**
  * Check if the state can be undone
@@ -145,28 +207,54 @@ export function setActiveOffset(state: EditorState, offset: number): void {
 
 // ============================================================================================
 /**
- * Push a snapshot of the state to the history
+ * Let the analyzer fix the fields an edit invalidated (see FormatAnalyzer.afterEdit).
+ * The hook gets the current layout; an edit made while an analysis is pending analyzes the
+ * unedited bytes inline, as reanalyzeBytes does for the edited ones.
+ * @param {EditorState} state - The state being edited (its bytes are still the unedited ones)
+ * @param {Uint8Array} before - The bytes before the edit
+ * @param {Uint8Array} bytes - The bytes after the edit, fixed in place where the length allows
+ * @param {LayoutEdit} edit - The edited range
+ * @returns {{ bytes: Uint8Array; edit: LayoutEdit }} The fixed bytes and the range they differ in; a fix
+ * that changed the length as well counts everything from the edit on as edited
+ */
+function fixEditedBytes(state: EditorState, before: Uint8Array, bytes: Uint8Array, edit: LayoutEdit): { bytes: Uint8Array; edit: LayoutEdit } {
+    const analyzer = state.analyzer;
+    const layout = !analyzer?.afterEdit ? null : state.analysisPending ? analyzer.analyze(before) : state.layout;
+    const fixed = layout ? analyzer!.afterEdit!(layout, before, bytes, edit, state.editOptions) : null;
+    if (!fixed || fixed.length === bytes.length) return { bytes: fixed || bytes, edit };
+    return { bytes: fixed, edit: { start: edit.start, end: before.length, length: fixed.length - edit.start } };
+}
+
+// ============================================================================================
+/**
+ * Push a snapshot of the state to the history. Snapshots are never mutated (every edit works on
+ * a copy), so the history and state.bytes share them.
  * @param {EditorState} state - The state to push the snapshot to
- * @param {Uint8Array} bytes - The bytes to push
+ * @param {Uint8Array} bytes - The bytes to push (owned by the state from now on)
  * @param {string | null} fileName - The name of the file
+ * @param {LayoutEdit | null} edit - The range the bytes differ from the current bytes in, or null for a new file
  * @returns {void} The pushed state
  */
-function pushSnapshot(state: EditorState, bytes: Uint8Array, fileName: string | null): void {
-    const snapshot = new Uint8Array(bytes);
-    state.bytes = snapshot;
+function pushSnapshot(state: EditorState, bytes: Uint8Array, fileName: string | null, edit: LayoutEdit | null = null): void {
+    const before = state.bytes;
+    state.bytes = bytes;
     state.fileName = fileName;
-    state.fileSize = snapshot.length;
-    state.layout = analyzeJpeg(snapshot);
+    state.fileSize = bytes.length;
+    if (before && edit) {
+        reanalyzeBytes(state, before, bytes, edit);
+    } else {
+        analyzeBytes(state, bytes);
+    }
 
     if (state.historyIndex >= 0 && state.historyIndex < state.history.length - 1) {
         state.history = state.history.slice(0, state.historyIndex + 1);
     }
 
-    state.history.push(new Uint8Array(snapshot));
+    state.history.push(bytes);
     state.historyIndex = state.history.length - 1;
 
-    if (state.activeOffset >= snapshot.length) {
-        state.activeOffset = snapshot.length > 0 ? snapshot.length - 1 : 0;
+    if (state.activeOffset >= bytes.length) {
+        state.activeOffset = bytes.length > 0 ? bytes.length - 1 : 0;
     }
 }
 
@@ -178,10 +266,59 @@ function pushSnapshot(state: EditorState, bytes: Uint8Array, fileName: string |
  */
 function restoreFromHistory(state: EditorState): void {
     const current = state.history[state.historyIndex];
-    state.bytes = new Uint8Array(current);
+    state.bytes = current;
     state.fileSize = current.length;
-    state.layout = analyzeJpeg(state.bytes);
+    analyzeBytes(state, current);
     if (state.activeOffset >= state.fileSize) {
         state.activeOffset = state.fileSize > 0 ? state.fileSize - 1 : 0;
     }
 }
+
+// ============================================================================================
+/**
+ * Find the range of bytes that differ between two buffers of the same length
+ * @param {Uint8Array} before - The bytes before the edit
+ * @param {Uint8Array} after - The bytes after the edit
+ * @returns {{ start: number; end: number } | null} The changed range, or null if nothing changed
+ */
+function findChangedRange(before: Uint8Array, after: Uint8Array): { start: number; end: number } | null {
+    let start = 0;
+    while (start < after.length && before[start] === after[start]) start++;
+    if (start === after.length) return null;
+    let end = after.length;
+    while (end > start && before[end - 1] === after[end - 1]) end--;
+    return { start, end };
+}
+
+// ============================================================================================
+/**
+ * Pick the analyzer for the bytes by their magic bytes and store it with the layout it produces,
+ * or leave the layout pending when the bytes are large enough to be analyzed elsewhere
+ * @param {EditorState} state - The state to update
+ * @param {Uint8Array} bytes - The bytes to analyze
+ * @param {boolean} allowDefer - False to always analyze inline (edits, including one made while an analysis is pending)
+ */
+function analyzeBytes(state: EditorState, bytes: Uint8Array, allowDefer: boolean = true): void {
+    state.analyzer = findAnalyzer(bytes);
+    state.analysisPending = allowDefer && !!state.analyzer && bytes.length >= state.deferAnalysisBytes;
+    state.layout = state.analyzer && !state.analysisPending ? state.analyzer.analyze(bytes) : null;
+}
+
+// ============================================================================================
+/**
+ * Update the layout after an edit, letting the analyzer reuse what the edit cannot have changed.
+ * Falls back to a full analysis when the edit changes the detected format or the analyzer has no
+ * incremental path.
+ * @param {EditorState} state - The state to update
+ * @param {Uint8Array} before - The bytes before the edit
+ * @param {Uint8Array} bytes - The bytes after the edit
+ * @param {LayoutEdit} edit - The edited range
+ */
+function reanalyzeBytes(state: EditorState, before: Uint8Array, bytes: Uint8Array, edit: LayoutEdit): void {
+    const analyzer = findAnalyzer(bytes);
+    if (!analyzer || analyzer !== state.analyzer || !analyzer.reanalyze || !state.layout) {
+        analyzeBytes(state, bytes, false);
+        return;
+    }
+    state.layout = analyzer.reanalyze(state.layout, before, bytes, edit);
+}
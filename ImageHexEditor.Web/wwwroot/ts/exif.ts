@@ -0,0 +1,368 @@
+/**
+ * exif.ts
+ * @fileoverview EXIF (APP1) metadata parser
+ * @description Locates the TIFF structure inside an "Exif\0\0" APP1 segment and walks
+ * IFD0, the EXIF sub-IFD, the GPS IFD, the interoperability IFD and IFD1 (thumbnail), and
+ * locates, strips or replaces the IFD1 JPEG thumbnail
+ */
+
+import { JpegSegment } from './jpegStructure';
+import { encodeIfdValue, findIfdEntry, formatIfdValue, Ifd, IfdEntry, ifdNumber, readIfd, readIfdChain, readTiffHeader, TIFF_TAG_NAMES, TiffReader } from './tiffIfd';
+
+// ============================================================================================
+/**
+ * The decoded EXIF structure of an APP1 segment
+ * @param {TiffReader} reader - The TIFF reader (byte order and base offset)
+ * @param {Ifd[]} ifds - The directories found, in display order (IFD0, Exif, GPS, Interop, IFD1)
+ */
+export interface ExifData {
+    reader: TiffReader;
+    ifds: Ifd[];
+}
+
+// ============================================================================================
+/**
+ * The JPEG thumbnail referenced by IFD1
+ * @param {number} start - Offset of the first thumbnail byte in the file
+ * @param {number} end - Offset one past the last thumbnail byte present in the segment
+ * @param {number} declaredLength - The length declared by JPEGInterchangeFormatLength
+ * @param {IfdEntry} offsetEntry - The JPEGInterchangeFormat (0x0201) entry
+ * @param {IfdEntry} lengthEntry - The JPEGInterchangeFormatLength (0x0202) entry
+ * @param {boolean} truncated - True when the segment ends before the declared length does
+ * @param {boolean} atSegmentEnd - True when nothing but the thumbnail follows its start in the segment
+ */
+export interface ExifThumbnail {
+    start: number;
+    end: number;
+    declaredLength: number;
+    offsetEntry: IfdEntry;
+    lengthEntry: IfdEntry;
+    truncated: boolean;
+    atSegmentEnd: boolean;
+}
+
+const EXIF_TAG_NAMES: Record<number, string> = {
+    0x829a: 'ExposureTime',
+    0x829d: 'FNumber',
+    0x8822: 'ExposureProgram',
+    0x8827: 'ISOSpeedRatings',
+    0x8830: 'SensitivityType',
+    0x9000: 'ExifVersion',
+    0x9003: 'DateTimeOriginal',
+    0x9004: 'DateTimeDigitized',
+    0x9010: 'OffsetTime',
+    0x9011: 'OffsetTimeOriginal',
+    0x9012: 'OffsetTimeDigitized',
+    0x9101: 'ComponentsConfiguration',
+    0x9102: 'CompressedBitsPerPixel',
+    0x9201: 'ShutterSpeedValue',
+    0x9202: 'ApertureValue',
+    0x9203: 'BrightnessValue',
+    0x9204: 'ExposureBiasValue',
+    0x9205: 'MaxApertureValue',
+    0x9206: 'SubjectDistance',
+    0x9207: 'MeteringMode',
+    0x9208: 'LightSource',
+    0x9209: 'Flash',
+    0x920a: 'FocalLength',
+    0x9214: 'SubjectArea',
+    0x927c: 'MakerNote',
+    0x9286: 'UserComment',
+    0x9290: 'SubSecTime',
+    0x9291: 'SubSecTimeOriginal',
+    0x9292: 'SubSecTimeDigitized',
+    0xa000: 'FlashpixVersion',
+    0xa001: 'ColorSpace',
+    0xa002: 'PixelXDimension',
+    0xa003: 'PixelYDimension',
+    0xa004: 'RelatedSoundFile',
+    0xa005: 'InteroperabilityIFDPointer',
+    0xa20e: 'FocalPlaneXResolution',
+    0xa20f: 'FocalPlaneYResolution',
+    0xa210: 'FocalPlaneResolutionUnit',
+    0xa215: 'ExposureIndex',
+    0xa217: 'SensingMethod',
+    0xa300: 'FileSource',
+    0xa301: 'SceneType',
+    0xa302: 'CFAPattern',
+    0xa401: 'CustomRendered',
+    0xa402: 'ExposureMode',
+    0xa403: 'WhiteBalance',
+    0xa404: 'DigitalZoomRatio',
+    0xa405: 'FocalLengthIn35mmFilm',
+    0xa406: 'SceneCaptureType',
+    0xa407: 'GainControl',
+    0xa408: 'Contrast',
+    0xa409: 'Saturation',
+    0xa40a: 'Sharpness',
+    0xa40c: 'SubjectDistanceRange',
+    0xa420: 'ImageUniqueID',
+    0xa430: 'CameraOwnerName',
+    0xa431: 'BodySerialNumber',
+    0xa432: 'LensSpecification',
+    0xa433: 'LensMake',
+    0xa434: 'LensModel',
+    0xa435: 'LensSerialNumber'
+};
+
+const GPS_TAG_NAMES: Record<number, string> = {
+    0x0000: 'GPSVersionID',
+    0x0001: 'GPSLatitudeRef',
+    0x0002: 'GPSLatitude',
+    0x0003: 'GPSLongitudeRef',
+    0x0004: 'GPSLongitude',
+    0x0005: 'GPSAltitudeRef',
+    0x0006: 'GPSAltitude',
+    0x0007: 'GPSTimeStamp',
+    0x0008: 'GPSSatellites',
+    0x0009: 'GPSStatus',
+    0x000a: 'GPSMeasureMode',
+    0x000b: 'GPSDOP',
+    0x000c: 'GPSSpeedRef',
+    0x000d: 'GPSSpeed',
+    0x000e: 'GPSTrackRef',
+    0x000f: 'GPSTrack',
+    0x0010: 'GPSImgDirectionRef',
+    0x0011: 'GPSImgDirection',
+    0x0012: 'GPSMapDatum',
+    0x0013: 'GPSDestLatitudeRef',
+    0x0014: 'GPSDestLatitude',
+    0x0015: 'GPSDestLongitudeRef',
+    0x0016: 'GPSDestLongitude',
+    0x0017: 'GPSDestBearingRef',
+    0x0018: 'GPSDestBearing',
+    0x0019: 'GPSDestDistanceRef',
+    0x001a: 'GPSDestDistance',
+    0x001b: 'GPSProcessingMethod',
+    0x001c: 'GPSAreaInformation',
+    0x001d: 'GPSDateStamp',
+    0x001e: 'GPSDifferential',
+    0x001f: 'GPSHPositioningError'
+};
+
+const INTEROP_TAG_NAMES: Record<number, string> = {
+    0x0001: 'InteroperabilityIndex',
+    0x0002: 'InteroperabilityVersion'
+};
+
+const ORIENTATIONS: Record<number, string> = {
+    1: 'normal',
+    2: 'mirrored horizontally',
+    3: 'rotated 180°',
+    4: 'mirrored vertically',
+    5: 'mirrored, rotated 90° CCW',
+    6: 'rotated 90° CW',
+    7: 'mirrored, rotated 90° CW',
+    8: 'rotated 90° CCW'
+};
+
+const RESOLUTION_UNITS: Record<number, string> = {
+    1: 'none',
+    2: 'inches',
+    3: 'centimeters'
+};
+
+/** Size of the "Exif\0\0" identifier that precedes the TIFF header. */
+const EXIF_HEADER_SIZE = 6;
+
+// ============================================================================================
+/**
+ * Check whether a segment is an EXIF APP1 segment
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The segment to check
+ * @returns {boolean} True if the payload starts with "Exif\0\0"
+ */
+export function isExifSegment(bytes: Uint8Array, segment: JpegSegment): boolean {
+    if (segment.marker !== 0xe1) return false;
+    const p = segment.payload.start;
+    if (segment.payload.end - p < EXIF_HEADER_SIZE) return false;
+    return bytes[p] === 0x45 && bytes[p + 1] === 0x78 && bytes[p + 2] === 0x69 && bytes[p + 3] === 0x66 &&
+        bytes[p + 4] === 0x00 && bytes[p + 5] === 0x00;
+}
+
+// ============================================================================================
+/**
+ * Parse the EXIF structure of an APP1 segment
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The APP1 segment
+ * @returns {ExifData | null} The EXIF data, or null if the segment is not valid EXIF
+ */
+export function parseExif(bytes: Uint8Array, segment: JpegSegment): ExifData | null {
+    if (!isExifSegment(bytes, segment)) return null;
+
+    const reader = readTiffHeader(bytes, segment.payload.start + EXIF_HEADER_SIZE, segment.payload.end);
+    if (!reader) return null;
+
+    // IFD0 → IFD1 is the main chain; the other directories hang off IFD0 / Exif pointers.
+    const chain = readIfdChain(reader, reader.firstIfdOffset, (index) => `IFD${index}`).slice(0, 2);
+    const ifd0 = chain[0] ?? null;
+    const ifds: Ifd[] = [];
+    if (ifd0) ifds.push(ifd0);
+
+    const exifPointer = ifdNumber(findIfdEntry(ifd0, 0x8769));
+    const exifIfd = exifPointer ? readIfd(reader, exifPointer, 'Exif') : null;
+    if (exifIfd) ifds.push(exifIfd);
+
+    const gpsPointer = ifdNumber(findIfdEntry(ifd0, 0x8825));
+    const gpsIfd = gpsPointer ? readIfd(reader, gpsPointer, 'GPS') : null;
+    if (gpsIfd) ifds.push(gpsIfd);
+
+    const interopPointer = ifdNumber(findIfdEntry(exifIfd, 0xa005));
+    const interopIfd = interopPointer ? readIfd(reader, interopPointer, 'Interop') : null;
+    if (interopIfd) ifds.push(interopIfd);
+
+    if (chain[1]) ifds.push(chain[1]);
+
+    return { reader, ifds };
+}
+
+// ============================================================================================
+/**
+ * Get the name of a tag within a directory
+ * @param {string} ifdName - The directory name (e.g. 'IFD0', 'Exif', 'GPS')
+ * @param {number} tag - The tag number
+ * @returns {string} The tag name, or its hex number when unknown
+ */
+export function exifTagName(ifdName: string, tag: number): string {
+    const table = ifdName === 'GPS' ? GPS_TAG_NAMES
+        : ifdName === 'Interop' ? INTEROP_TAG_NAMES
+        : ifdName === 'Exif' ? EXIF_TAG_NAMES
+        : TIFF_TAG_NAMES;
+    return table[tag] ?? `Tag 0x${tag.toString(16).padStart(4, '0').toUpperCase()}`;
+}
+
+// ============================================================================================
+/**
+ * Explain a value for the handful of tags whose numbers are codes (e.g. Orientation)
+ * @param {string} ifdName - The directory name
+ * @param {IfdEntry} entry - The entry
+ * @returns {string | null} The meaning, or null if the tag has no known codes
+ */
+export function explainExifValue(ifdName: string, entry: IfdEntry): string | null {
+    if (ifdName === 'GPS' || ifdName === 'Interop' || typeof entry.value === 'string') return null;
+    const code = entry.value[0];
+    if (ifdName !== 'Exif' && entry.tag === 0x0112) return ORIENTATIONS[code] ?? null;
+    if (ifdName !== 'Exif' && entry.tag === 0x0128) return RESOLUTION_UNITS[code] ?? null;
+    if (ifdName === 'Exif' && entry.tag === 0xa001) return code === 1 ? 'sRGB' : code === 0xffff ? 'uncalibrated' : null;
+    return null;
+}
+
+// ============================================================================================
+/**
+ * Format an entry value for display, followed by its meaning when known
+ * @param {string} ifdName - The directory name
+ * @param {IfdEntry} entry - The entry
+ * @returns {string} The formatted value (e.g. "6 (rotated 90° CW)")
+ */
+export function describeExifValue(ifdName: string, entry: IfdEntry): string {
+    const formatted = formatIfdValue(entry);
+    const meaning = explainExifValue(ifdName, entry);
+    return meaning ? `${formatted} (${meaning})` : formatted;
+}
+
+// ============================================================================================
+/**
+ * Locate the IFD1 JPEG thumbnail through its JPEGInterchangeFormat / Length tags
+ * @param {ExifData} exif - The parsed EXIF data
+ * @returns {ExifThumbnail | null} The thumbnail, or null if IFD1 has none or it starts outside the segment
+ */
+export function findExifThumbnail(exif: ExifData): ExifThumbnail | null {
+    const ifd1 = exif.ifds.find((ifd) => ifd.name === 'IFD1');
+    const offsetEntry = findIfdEntry(ifd1, 0x0201);
+    const lengthEntry = findIfdEntry(ifd1, 0x0202);
+    const offset = ifdNumber(offsetEntry);
+    const declaredLength = ifdNumber(lengthEntry);
+    if (!offsetEntry || !lengthEntry || offset === null || declaredLength === null || declaredLength === 0) return null;
+
+    const { base, end: segmentEnd } = exif.reader;
+    const start = base + offset;
+    if (offset === 0 || start >= segmentEnd) return null;
+
+    const end = Math.min(start + declaredLength, segmentEnd);
+    return {
+        start,
+        end,
+        declaredLength,
+        offsetEntry,
+        lengthEntry,
+        truncated: start + declaredLength > segmentEnd,
+        atSegmentEnd: end === segmentEnd
+    };
+}
+
+// ============================================================================================
+/**
+ * Build a copy of an EXIF APP1 segment without its IFD1 thumbnail. IFD1 is unlinked from
+ * IFD0 and its thumbnail pointers are zeroed; when the thumbnail is the tail of the segment,
+ * its bytes are cut and the length field is rewritten.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The APP1 segment
+ * @returns {Uint8Array | null} The new segment bytes, or null if the segment has no thumbnail
+ */
+export function stripExifThumbnail(bytes: Uint8Array, segment: JpegSegment): Uint8Array | null {
+    const exif = parseExif(bytes, segment);
+    const thumbnail = exif ? findExifThumbnail(exif) : null;
+    if (!exif || !thumbnail) return null;
+
+    const patches: Array<[number, Uint8Array]> = [];
+    const ifd0 = exif.ifds.find((ifd) => ifd.name === 'IFD0');
+    if (ifd0) patches.push([ifd0.nextPointerOffset, new Uint8Array(4)]);
+    for (const entry of [thumbnail.offsetEntry, thumbnail.lengthEntry]) {
+        const zero = encodeIfdValue(exif.reader, entry, '0');
+        if (zero) patches.push([entry.valueOffset, zero]);
+    }
+
+    const cutStart = thumbnail.atSegmentEnd ? thumbnail.start : segment.end;
+    return rebuildSegment(bytes, segment, cutStart, new Uint8Array(0), patches);
+}
+
+// ============================================================================================
+/**
+ * Build a copy of an EXIF APP1 segment whose IFD1 thumbnail is replaced by new JPEG data,
+ * updating JPEGInterchangeFormatLength and the segment length field. Only a thumbnail at the
+ * tail of the segment can be replaced, since growing it in place would move data that other
+ * IFD offsets point at.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The APP1 segment
+ * @param {Uint8Array} jpeg - The new thumbnail
+ * @returns {Uint8Array | null} The new segment bytes, or null if the thumbnail cannot be replaced
+ */
+export function replaceExifThumbnail(bytes: Uint8Array, segment: JpegSegment, jpeg: Uint8Array): Uint8Array | null {
+    const exif = parseExif(bytes, segment);
+    const thumbnail = exif ? findExifThumbnail(exif) : null;
+    if (!exif || !thumbnail || !thumbnail.atSegmentEnd) return null;
+
+    const length = encodeIfdValue(exif.reader, thumbnail.lengthEntry, String(jpeg.length));
+    if (!length) return null;
+    return rebuildSegment(bytes, segment, thumbnail.start, jpeg, [[thumbnail.lengthEntry.valueOffset, length]]);
+}
+
+// ============================================================================================
+/**
+ * Copy a segment, overwriting some bytes and replacing everything from an offset to the
+ * segment end, then rewrite the length field to match
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The segment to copy
+ * @param {number} cutStart - File offset from which the segment's tail is replaced
+ * @param {Uint8Array} tail - The new tail
+ * @param {Array<[number, Uint8Array]>} patches - File offsets (before cutStart) and the bytes to write there
+ * @returns {Uint8Array | null} The new segment bytes, or null if they exceed the 64 KB segment limit
+ */
+function rebuildSegment(bytes: Uint8Array, segment: JpegSegment, cutStart: number, tail: Uint8Array, patches: Array<[number, Uint8Array]>): Uint8Array | null {
+    const head = bytes.slice(segment.start, cutStart);
+    for (const [offset, values] of patches) {
+        if (offset >= segment.start && offset + values.length <= cutStart) {
+            head.set(values, offset - segment.start);
+        }
+    }
+
+    const out = new Uint8Array(head.length + tail.length);
+    out.set(head, 0);
+    out.set(tail, head.length);
+
+    const length = out.length - 2;
+    if (length > 0xffff) return null;
+    out[2] = (length >> 8) & 0xff;
+    out[3] = length & 0xff;
+    return out;
+}
@@ -0,0 +1,314 @@
+/**
+ * formatRegistry.ts
+ * @fileoverview Format analyzer interface and registry
+ * @description Each supported image format describes itself with a FormatAnalyzer (detection by
+ * magic bytes, analysis, region legend, Jump menu targets and preview MIME type). The editor core
+ * only talks to the analyzer the registry picks, so a new format is one module plus one entry here.
+ * Region codes are assigned from each analyzer's legend, so formats never share a code table.
+ */
+
+import { BMP_ANALYZER } from './bmpStructure';
+import { GIF_ANALYZER } from './gifStructure';
+import { JPEG_ANALYZER } from './jpegStructure';
+import { PNG_ANALYZER } from './pngStructure';
+import { TIFF_ANALYZER } from './tiffStructure';
+import { WEBP_ANALYZER } from './webpStructure';
+
+/**
+ * A region id (also the suffix of its ix-byte-- / ix-jump-label-- classes). Besides the ids in an
+ * analyzer's legend, 'unknown' marks bytes no analyzer has classified and 'other' bytes outside
+ * the structure an analyzer understands.
+ */
+export type ByteRegion = string;
+
+// ============================================================================================
+/**
+ * A region an analyzer classifies bytes into
+ * @param {ByteRegion} id - The region id
+ * @param {string} label - The name shown in the Jump menu
+ * @param {boolean} [bulkData] - Compressed or pixel data; its ASCII column is not dimmed, so it stands out from the metadata
+ */
+export interface RegionDef<T extends ByteRegion = ByteRegion> {
+    id: T;
+    label: string;
+    bulkData?: boolean;
+}
+
+// ============================================================================================
+/**
+ * A half-open byte range [start, end) within the file
+ * @param {number} start - The first byte of the range
+ * @param {number} end - One past the last byte of the range
+ */
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+// ============================================================================================
+/**
+ * The layout every analyzer produces
+ * @param {number} length - The total number of bytes in the file
+ * @param {Uint8Array} regions - The per-byte region codes (see createRegionCodes)
+ */
+export interface ByteLayout {
+    length: number;
+    regions: Uint8Array;
+}
+
+// ============================================================================================
+/**
+ * Where each region of a layout begins, for jump lookups by binary search
+ * @param {Map<ByteRegion, number[]>} runStarts - The sorted offsets at which a run of each region starts
+ */
+export interface RegionIndex {
+    runStarts: Map<ByteRegion, number[]>;
+}
+
+// ============================================================================================
+/**
+ * A byte range replaced by an edit
+ * @param {number} start - The first edited offset
+ * @param {number} end - One past the last replaced byte, in the bytes before the edit
+ * @param {number} length - The number of bytes that took the range's place
+ */
+export interface LayoutEdit {
+    start: number;
+    end: number;
+    length: number;
+}
+
+// ============================================================================================
+/**
+ * The editor settings handed to an analyzer's afterEdit hook
+ * @param {boolean} recomputeChecksums - Rewrite the checksums that cover edited bytes (PNG chunk CRCs)
+ */
+export interface EditOptions {
+    recomputeChecksums: boolean;
+}
+
+// ============================================================================================
+/**
+ * A structural problem found by an analyzer's validation pass
+ * @param {number} offset - The offset of the offending bytes
+ * @param {'error' | 'warning'} severity - 'error' for problems that break decoding, 'warning' for ones most decoders tolerate
+ * @param {string} message - What is wrong
+ */
+export interface Diagnostic {
+    offset: number;
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+// ============================================================================================
+/**
+ * The bytes a repair changes: a range and the bytes that take its place
+ * @param {number} start - The first replaced offset
+ * @param {number} end - One past the last replaced byte (start for a pure insert)
+ * @param {Uint8Array} replacement - The bytes that take the range's place
+ * @param {string} summary - What the change does, for the status line
+ */
+export interface RepairEdit {
+    start: number;
+    end: number;
+    replacement: Uint8Array;
+    summary: string;
+}
+
+// ============================================================================================
+/**
+ * A repair command for damaged files, applied as a single undoable edit
+ * @param {string} id - A short identifier (e.g. 'append-eoi')
+ * @param {string} label - The button text
+ * @param {string} description - What the repair does, for the button tooltip
+ * @param {function(Uint8Array, L): RepairEdit | null} plan - Works out the edit, or null when the repair does not apply
+ */
+export interface FormatRepair<L extends ByteLayout = ByteLayout> {
+    id: string;
+    label: string;
+    description: string;
+    plan(bytes: Uint8Array, layout: L): RepairEdit | null;
+}
+
+// ============================================================================================
+/**
+ * The structural unit a format is built from (JPEG segments, PNG chunks, GIF blocks)
+ * @param {string} name - What a unit is called (e.g. 'segment', 'chunk')
+ * @param {function(L, number): ByteRange | null} find - Finds the unit that owns a byte, or null between units
+ */
+export interface FormatUnit<L extends ByteLayout = ByteLayout> {
+    name: string;
+    find(layout: L, offset: number): ByteRange | null;
+}
+
+// ============================================================================================
+/**
+ * Decoded pixels ready for a canvas
+ * @param {number} width - The width in pixels
+ * @param {number} height - The height in pixels
+ * @param {Uint8ClampedArray} rgba - The pixels, four bytes per pixel
+ * @param {number} [errors] - The number of damaged spots the decoder worked around, if it counts them
+ */
+export interface DecodedImage {
+    width: number;
+    height: number;
+    rgba: Uint8ClampedArray;
+    errors?: number;
+}
+
+// ============================================================================================
+/**
+ * A format analyzer. Layouts only ever reach the analyzer that produced them, so its hooks take
+ * its own layout type.
+ * @param {string} id - A short identifier (e.g. 'jpeg', 'png')
+ * @param {string} name - The display name (e.g. 'JPEG')
+ * @param {string} mimeType - The MIME type used for preview and download blobs
+ * @param {function(Uint8Array): boolean} detect - Checks the magic bytes of a file
+ * @param {function(Uint8Array): L | null} analyze - Classifies the bytes of a detected file
+ * @param {function(L, Uint8Array, Uint8Array, LayoutEdit): L | null} [reanalyze] - Updates the
+ * layout after an edit without re-reading the whole file (analyze runs again when absent)
+ * @param {function(Uint8Array, L): Diagnostic[]} [validate] - Lists the structural problems of an analyzed file
+ * @param {FormatRepair<L>[]} [repairs] - Repair commands offered alongside the validation problems
+ * @param {function(Uint8Array, L, ByteRange | null): string | null} [describeDimensions] - Describes the declared
+ * image size for the meta panel; the range is the embedded image being previewed, or null for the whole file
+ * @param {function(Uint8Array, L, number): string | null} [describeByte] - Names the structure a byte belongs to,
+ * for the caret status line
+ * @param {function(Uint8Array, L): DecodedImage | null} [decodePreview] - Decodes the preview in the analysis
+ * worker instead of leaving it to the browser; null hands the bytes to the browser after all
+ * @param {function(L, number, number): number | null} [offsetAtPixel] - Maps a preview pixel to the offset of
+ * its bytes, so clicking the preview moves the caret
+ * @param {function(L, Uint8Array, Uint8Array, LayoutEdit, EditOptions): Uint8Array | void} [afterEdit] - Fixes,
+ * in place, the fields an edit invalidated (checksums, container sizes) before the edited bytes are
+ * committed; the layout is that of the bytes before the edit, so the hook need not parse the file
+ * again. A fix that must change the length too (a RIFF padding byte) returns the new bytes
+ * @param {FormatUnit<L>} [unit] - The unit Find & Replace can be limited to; runs of one region are used without it
+ * @param {RegionDef[]} legend - Every region the analyzer produces; the region codes are assigned from it
+ * @param {ByteRegion[]} jumpTargets - The regions offered in the Jump menu, in menu order
+ */
+export interface FormatAnalyzer<L extends ByteLayout = ByteLayout> {
+    id: string;
+    name: string;
+    mimeType: string;
+    detect(bytes: Uint8Array): boolean;
+    analyze(bytes: Uint8Array): L | null;
+    reanalyze?(previous: L, before: Uint8Array, bytes: Uint8Array, edit: LayoutEdit): L | null;
+    validate?(bytes: Uint8Array, layout: L): Diagnostic[];
+    repairs?: FormatRepair<L>[];
+    describeDimensions?(bytes: Uint8Array, layout: L, image: ByteRange | null): string | null;
+    describeByte?(bytes: Uint8Array, layout: L, offset: number): string | null;
+    decodePreview?(bytes: Uint8Array, layout: L): DecodedImage | null;
+    offsetAtPixel?(layout: L, x: number, y: number): number | null;
+    afterEdit?(layout: L, before: Uint8Array, bytes: Uint8Array, edit: LayoutEdit, options: EditOptions): Uint8Array | void;
+    unit?: FormatUnit<L>;
+    legend: readonly RegionDef[];
+    jumpTargets: ByteRegion[];
+}
+
+/** Region indexes by layout (see getRegionIndex). */
+const regionIndexCache = new WeakMap<ByteLayout, RegionIndex>();
+
+/** Registered analyzers, tried in order; the first whose magic bytes match wins. */
+const ANALYZERS: FormatAnalyzer[] = [
+    JPEG_ANALYZER,
+    PNG_ANALYZER,
+    GIF_ANALYZER,
+    BMP_ANALYZER,
+    WEBP_ANALYZER,
+    TIFF_ANALYZER
+];
+
+// ============================================================================================
+/**
+ * Pick the analyzer for a file by its magic bytes
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @returns {FormatAnalyzer | null} The analyzer, or null if no registered format matches
+ */
+export function findAnalyzer(bytes: Uint8Array): FormatAnalyzer | null {
+    return ANALYZERS.find((analyzer) => analyzer.detect(bytes)) ?? null;
+}
+
+// ============================================================================================
+/**
+ * Get the Jump menu rows of an analyzer, labelled from its legend
+ * @param {FormatAnalyzer | null} analyzer - The analyzer of the loaded file
+ * @returns {RegionDef[]} The rows in menu order (empty when no file is loaded)
+ */
+export function getJumpTargets(analyzer: FormatAnalyzer | null): RegionDef[] {
+    if (!analyzer) return [];
+    return analyzer.jumpTargets.map((id) => analyzer.legend.find((def) => def.id === id) ?? { id, label: id });
+}
+
+// ============================================================================================
+/**
+ * Assign the region codes of a legend: 0 is 'unknown', 1 is 'other' and the legend's entries
+ * follow in order. Analyzers call this while their module loads, which can be before this one
+ * has finished loading (it imports them), so it reads no module state.
+ * @param {readonly RegionDef[]} legend - The analyzer's legend
+ * @returns {Record<string, number>} The code of each region id, plus 'unknown' and 'other'
+ */
+export function createRegionCodes<T extends ByteRegion>(legend: readonly RegionDef<T>[]): Record<T | 'unknown' | 'other', number> {
+    const codes = { unknown: 0, other: 1 } as Record<T | 'unknown' | 'other', number>;
+    legend.forEach((def, i) => {
+        codes[def.id] = i + 2;
+    });
+    return codes;
+}
+
+// ============================================================================================
+/**
+ * Classify a byte according to a layout
+ * @param {FormatAnalyzer | null} analyzer - The analyzer that produced the layout
+ * @param {ByteLayout | null} layout - The layout
+ * @param {number} offset - The offset of the byte
+ * @returns {ByteRegion} The region of the byte
+ */
+export function classifyByte(analyzer: FormatAnalyzer | null, layout: ByteLayout | null, offset: number): ByteRegion {
+    if (!analyzer || !layout || offset < 0 || offset >= layout.length) return 'unknown';
+    return codeToRegion(analyzer, layout.regions[offset]);
+}
+
+// ============================================================================================
+/**
+ * Get the region index of a layout, building it on first use. Layouts are never mutated once
+ * built, so the index is cached per layout and shared by every lookup until the next edit.
+ * @param {FormatAnalyzer} analyzer - The analyzer that produced the layout
+ * @param {ByteLayout} layout - The layout to index
+ * @returns {RegionIndex} The index
+ */
+export function getRegionIndex(analyzer: FormatAnalyzer, layout: ByteLayout): RegionIndex {
+    const cached = regionIndexCache.get(layout);
+    if (cached) return cached;
+
+    const runStarts = new Map<ByteRegion, number[]>();
+    const { regions, length } = layout;
+    let prev = -1;
+    for (let i = 0; i < length; i++) {
+        const code = regions[i];
+        if (code === prev) continue;
+        prev = code;
+
+        const region = codeToRegion(analyzer, code);
+        const starts = runStarts.get(region);
+        if (starts) {
+            starts.push(i);
+        } else {
+            runStarts.set(region, [i]);
+        }
+    }
+
+    const index = { runStarts };
+    regionIndexCache.set(layout, index);
+    return index;
+}
+
+// ============================================================================================
+/**
+ * Convert a region code to a region id (the inverse of createRegionCodes)
+ * @param {FormatAnalyzer} analyzer - The analyzer whose legend assigned the code
+ * @param {number} code - The code to convert
+ * @returns {ByteRegion} The region id
+ */
+function codeToRegion(analyzer: FormatAnalyzer, code: number): ByteRegion {
+    if (code === 1) return 'other';
+    return analyzer.legend[code - 2]?.id ?? 'unknown';
+}
@@ -0,0 +1,306 @@
+/**
+ * gifStructure.ts
+ * @fileoverview GIF byte classification and block structure analysis
+ * @description Walks a GIF87a/89a file (header, logical screen descriptor, color tables,
+ * extensions, image descriptors and LZW data sub-blocks) and classifies each byte into the
+ * regions of its legend
+ */
+
+import { ByteLayout, ByteRange, createRegionCodes, FormatAnalyzer } from './formatRegistry';
+
+/** Size of the "GIF87a" / "GIF89a" header. */
+const GIF_HEADER_SIZE = 6;
+
+/** Size of the logical screen descriptor. */
+const GIF_LSD_SIZE = 7;
+
+/** Size of an image descriptor, including the 0x2C separator. */
+const GIF_IMAGE_DESCRIPTOR_SIZE = 10;
+
+// ============================================================================================
+/**
+ * A top-level block of a GIF
+ * @param {'header' | 'screen' | 'color-table' | 'extension' | 'image' | 'trailer'} kind - The block kind
+ * @param {string} name - A readable name (e.g. 'Graphic Control Extension', 'Frame 2')
+ * @param {number} start - Offset of the first byte of the block
+ * @param {number} end - One past the last byte of the block, clipped to the file
+ * @param {number} frame - For images, extensions and local color tables: the 1-based frame they belong to (0 otherwise)
+ * @param {ByteRange | null} data - For images: the LZW minimum code size and data sub-blocks
+ * @param {boolean} truncated - True when the file ends inside the block
+ */
+export interface GifBlock {
+    kind: 'header' | 'screen' | 'color-table' | 'extension' | 'image' | 'trailer';
+    name: string;
+    start: number;
+    end: number;
+    frame: number;
+    data: ByteRange | null;
+    truncated: boolean;
+}
+
+// ============================================================================================
+/**
+ * The layout of a GIF: the header fields and the blocks
+ * @param {string} version - '87a' or '89a'
+ * @param {number} width - The logical screen width
+ * @param {number} height - The logical screen height
+ * @param {number} frameCount - The number of image descriptors
+ * @param {GifBlock[]} blocks - The top-level blocks in file order
+ */
+export interface GifLayout extends ByteLayout {
+    version: string;
+    width: number;
+    height: number;
+    frameCount: number;
+    blocks: GifBlock[];
+}
+
+const EXTENSION_NAMES: Record<number, string> = {
+    0x01: 'Plain Text Extension',
+    0xf9: 'Graphic Control Extension',
+    0xfe: 'Comment Extension',
+    0xff: 'Application Extension'
+};
+
+/** The regions of a GIF, in legend order. */
+const GIF_LEGEND = [
+    { id: 'gif-header',           label: 'GIF Header' },
+    { id: 'gif-screen',           label: 'Logical Screen' },
+    { id: 'gif-color-table',      label: 'Color Table' },
+    { id: 'gif-gce',              label: 'Graphic Control' },
+    { id: 'gif-extension',        label: 'Extension' },
+    { id: 'gif-image-descriptor', label: 'Image Descriptor' },
+    { id: 'gif-lzw-size',         label: 'LZW Minimum Code Size' },
+    { id: 'gif-block-size',       label: 'Sub-block Size' },
+    { id: 'gif-image-data',       label: 'Image Data (LZW)', bulkData: true },
+    { id: 'gif-trailer',          label: 'Trailer' }
+] as const;
+
+/** The codes stored in a GIF layout's `regions` array. */
+const GIF_CODES = createRegionCodes(GIF_LEGEND);
+
+/** The GIF analyzer; sub-block size bytes are colored but not offered as Jump targets. */
+export const GIF_ANALYZER: FormatAnalyzer<GifLayout> = {
+    id: 'gif',
+    name: 'GIF',
+    mimeType: 'image/gif',
+    detect: isGif,
+    analyze: analyzeGif,
+    describeDimensions: (bytes, layout) => describeGifDimensions(layout),
+    describeByte: (bytes, layout, offset) => describeGifByte(layout, offset),
+    unit: { name: 'block', find: findGifBlockAt },
+    legend: GIF_LEGEND,
+    jumpTargets: [
+        'gif-header',
+        'gif-screen',
+        'gif-color-table',
+        'gif-gce',
+        'gif-extension',
+        'gif-image-descriptor',
+        'gif-image-data',
+        'gif-trailer'
+    ]
+};
+
+// ============================================================================================
+/**
+ * Check whether bytes open with a GIF header
+ * @param {Uint8Array} bytes - The bytes to check
+ * @returns {boolean} True if the file starts with "GIF87a" or "GIF89a"
+ */
+export function isGif(bytes: Uint8Array): boolean {
+    if (bytes.length < GIF_HEADER_SIZE) return false;
+    const signature = String.fromCharCode(...bytes.subarray(0, GIF_HEADER_SIZE));
+    return signature === 'GIF87a' || signature === 'GIF89a';
+}
+
+// ============================================================================================
+/**
+ * Check whether a layout came from the GIF analyzer
+ * @param {ByteLayout | null} layout - The layout to check
+ * @returns {boolean} True if the layout is a GIF layout
+ */
+export function isGifLayout(layout: ByteLayout | null): layout is GifLayout {
+    return !!layout && 'blocks' in layout;
+}
+
+// ============================================================================================
+/**
+ * Analyze a GIF. Graphic control extensions get their own region because their delay and
+ * transparency fields are the usual targets; the size byte of every LZW data sub-block is
+ * marked separately so edits can avoid breaking the block chain. Walking stops at the trailer or
+ * at an unrecognized block introducer; bytes after that are "other".
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @returns {GifLayout | null} The layout, or null if the file is not a GIF
+ */
+export function analyzeGif(bytes: Uint8Array): GifLayout | null {
+    if (!isGif(bytes)) return null;
+
+    const len = bytes.length;
+    const regions = new Uint8Array(len);
+    const blocks: GifBlock[] = [];
+    const version = String.fromCharCode(bytes[3], bytes[4], bytes[5]);
+
+    const pushBlock = (kind: GifBlock['kind'], name: string, start: number, end: number, frame: number, data: ByteRange | null = null) => {
+        blocks.push({ kind, name, start, end: Math.min(end, len), frame, data, truncated: end > len });
+    };
+
+    regions.fill(GIF_CODES['gif-header'], 0, GIF_HEADER_SIZE);
+    pushBlock('header', `GIF${version} header`, 0, GIF_HEADER_SIZE, 0);
+
+    let pos = GIF_HEADER_SIZE;
+    let width = 0;
+    let height = 0;
+    let frameCount = 0;
+
+    if (pos + GIF_LSD_SIZE <= len) {
+        width = bytes[pos] | (bytes[pos + 1] << 8);
+        height = bytes[pos + 2] | (bytes[pos + 3] << 8);
+        const packed = bytes[pos + 4];
+        regions.fill(GIF_CODES['gif-screen'], pos, pos + GIF_LSD_SIZE);
+        pushBlock('screen', 'Logical Screen Descriptor', pos, pos + GIF_LSD_SIZE, 0);
+        pos += GIF_LSD_SIZE;
+
+        if (packed & 0x80) {
+            const size = 3 * (1 << ((packed & 0x07) + 1));
+            regions.fill(GIF_CODES['gif-color-table'], pos, Math.min(pos + size, len));
+            pushBlock('color-table', 'Global Color Table', pos, pos + size, 0);
+            pos += size;
+        }
+
+        // The frame that the next extensions and image descriptor belong to.
+        let frame = 1;
+        while (pos < len) {
+            const introducer = bytes[pos];
+
+            if (introducer === 0x3b) {
+                regions[pos] = GIF_CODES['gif-trailer'];
+                pushBlock('trailer', 'Trailer', pos, pos + 1, 0);
+                pos++;
+                break;
+            }
+
+            if (introducer === 0x21) {
+                const label = bytes[pos + 1];
+                const name = EXTENSION_NAMES[label] ?? `Extension 0x${label.toString(16).padStart(2, '0').toUpperCase()}`;
+                const code = label === 0xf9 ? GIF_CODES['gif-gce'] : GIF_CODES['gif-extension'];
+                regions.fill(code, pos, Math.min(pos + 2, len));
+                const end = markSubBlocks(bytes, regions, pos + 2, code, code);
+                pushBlock('extension', name, pos, end, frame);
+                pos = end;
+                continue;
+            }
+
+            if (introducer === 0x2c) {
+                const descriptorEnd = pos + GIF_IMAGE_DESCRIPTOR_SIZE;
+                regions.fill(GIF_CODES['gif-image-descriptor'], pos, Math.min(descriptorEnd, len));
+                const packed = descriptorEnd <= len ? bytes[pos + 9] : 0;
+                let cursor = descriptorEnd;
+
+                // The frame is listed before its local color table; its end is filled in below.
+                const image = blocks.length;
+                pushBlock('image', `Frame ${frame}`, pos, pos, frame);
+
+                if (packed & 0x80) {
+                    const size = 3 * (1 << ((packed & 0x07) + 1));
+                    regions.fill(GIF_CODES['gif-color-table'], Math.min(cursor, len), Math.min(cursor + size, len));
+                    pushBlock('color-table', `Local Color Table (frame ${frame})`, cursor, cursor + size, frame);
+                    cursor += size;
+                }
+
+                // LZW minimum code size, then the data sub-blocks.
+                const dataStart = cursor;
+                if (cursor < len) regions[cursor] = GIF_CODES['gif-lzw-size'];
+                const end = cursor < len ? markSubBlocks(bytes, regions, cursor + 1, GIF_CODES['gif-image-data'], GIF_CODES['gif-block-size']) : cursor;
+                blocks[image].end = Math.min(end, len);
+                blocks[image].truncated = end > len;
+                blocks[image].data = { start: Math.min(dataStart, len), end: Math.min(end, len) };
+
+                frameCount = frame;
+                frame++;
+                pos = end;
+                continue;
+            }
+
+            break;
+        }
+    }
+
+    if (pos < len) regions.fill(GIF_CODES.other, pos, len);
+
+    return {
+        length: len,
+        regions,
+        version,
+        width,
+        height,
+        frameCount,
+        blocks
+    };
+}
+
+// ============================================================================================
+/**
+ * Find the innermost block that owns a byte (a local color table rather than its frame)
+ * @param {GifLayout} layout - The layout of the GIF
+ * @param {number} offset - The offset of the byte
+ * @returns {GifBlock | null} The owning block, or null for trailing bytes
+ */
+export function findGifBlockAt(layout: GifLayout, offset: number): GifBlock | null {
+    let match: GifBlock | null = null;
+    for (const block of layout.blocks) {
+        if (block.start > offset) break;
+        // A local color table follows the frame that contains it, so the last match is the innermost.
+        if (offset < block.end) match = block;
+    }
+    return match;
+}
+
+// ============================================================================================
+/**
+ * Describe the logical screen size and the number of frames
+ * @param {GifLayout} layout - The layout of the GIF
+ * @returns {string} The dimensions (e.g. "320 × 240 · 12 frames")
+ */
+export function describeGifDimensions(layout: GifLayout): string {
+    const frames = layout.frameCount;
+    return `${layout.width} × ${layout.height}${frames > 1 ? ` · ${frames} frames` : ''}`;
+}
+
+// ============================================================================================
+/**
+ * Name the block a byte belongs to, with the frame an extension applies to
+ * @param {GifLayout} layout - The layout of the GIF
+ * @param {number} offset - The offset of the byte
+ * @returns {string | null} The description (e.g. "Graphic control extension (frame 2)"), or null for trailing bytes
+ */
+export function describeGifByte(layout: GifLayout, offset: number): string | null {
+    const block = findGifBlockAt(layout, offset);
+    if (!block) return null;
+    return `${block.name}${block.kind === 'extension' && block.frame > 0 ? ` (frame ${block.frame})` : ''}`;
+}
+
+// ============================================================================================
+/**
+ * Mark a chain of data sub-blocks (size byte + data, ending with a zero size byte)
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {Uint8Array} regions - The region table to fill
+ * @param {number} start - Offset of the first size byte
+ * @param {number} code - The region code for the data bytes
+ * @param {number} sizeCode - The region code for the size bytes and terminator
+ * @returns {number} The offset one past the block terminator (may exceed the file length if truncated)
+ */
+function markSubBlocks(bytes: Uint8Array, regions: Uint8Array, start: number, code: number, sizeCode: number): number {
+    const len = bytes.length;
+    let pos = start;
+    while (pos < len) {
+        const size = bytes[pos];
+        regions[pos] = sizeCode;
+        pos++;
+        if (size === 0) return pos;
+        regions.fill(code, pos, Math.min(pos + size, len));
+        pos += size;
+    }
+    // The file ended before the terminator.
+    return pos + 1;
+}
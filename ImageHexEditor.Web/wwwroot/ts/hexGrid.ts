@@ -6,7 +6,8 @@
  * ASCII column display. Supports keyboard navigation, click selection, and scroll synchronization.
  */
 
-import { ByteRegion, byteToAscii, byteToHex, classifyByte, JpegLayout, offsetToHex } from './jpegStructure';
+import { ByteLayout, classifyByte, FormatAnalyzer } from './formatRegistry';
+import { byteToAscii, byteToHex, offsetToHex } from './jpegStructure';
 
 // ============================================================================================
 /**
@@ -24,12 +25,12 @@ export interface HexGridOptions {
 // ============================================================================================
 /**
  * The hex grid interface
- * @param {function(Uint8Array | null, JpegLayout | null, number): void} setData - Set the data for the grid
+ * @param {function(Uint8Array | null, FormatAnalyzer | null, ByteLayout | null, number): void} setData - Set the data for the grid
  * @param {function(number, boolean): void} setActiveOffset - Set the active offset for the grid
  * @param {function(): number} getActiveOffset - Get the active offset for the grid
  */
 export interface HexGrid {
-    setData(bytes: Uint8Array | null, layout: JpegLayout | null, activeOffset: number): void;
+    setData(bytes: Uint8Array | null, analyzer: FormatAnalyzer | null, layout: ByteLayout | null, activeOffset: number): void;
     setActiveOffset(offset: number, centerIntoView?: boolean): void;
     getActiveOffset(): number;
 }
@@ -46,7 +47,8 @@ export function createHexGrid(root: HTMLElement, opts: HexGridOptions): HexGrid
     root.tabIndex = 0;
 
     let bytes: Uint8Array | null = null;
-    let layout: JpegLayout | null = null;
+    let analyzer: FormatAnalyzer | null = null;
+    let layout: ByteLayout | null = null;
     let activeOffset = 0;
     let pendingNibble: number | null = null;
     let renderLength = 0; // how many bytes we actually draw (full file)
@@ -71,32 +73,6 @@ export function createHexGrid(root: HTMLElement, opts: HexGridOptions): HexGrid
         if (activeOffset >= renderLength) activeOffset = renderLength - 1;
     }
 
-    // ============================================================================================
-    /**
-     * Map a ByteRegion to its corresponding CSS class name for styling.
-     * Used to visually distinguish different JPEG structural sections (SOI, DQT, SOS, etc).
-     * @param {ByteRegion} region - The byte region classification
-     * @returns {string} CSS class name for the region, or empty string if unrecognized
-     */
-    function regionClass(region: ByteRegion): string {
-        switch (region) {
-            case 'soi': return 'ix-byte--soi';
-            case 'app': return 'ix-byte--app';
-            case 'dqt': return 'ix-byte--dqt';
-            case 'sof': return 'ix-byte--sof';
-            case 'sof-width': return 'ix-byte--sof-width';
-            case 'dht': return 'ix-byte--dht';
-            case 'dri': return 'ix-byte--dri';
-            case 'sos-header': return 'ix-byte--sos';
-            case 'scan': return 'ix-byte--scan';
-            case 'rst': return 'ix-byte--rst';
-            case 'com': return 'ix-byte--com';
-            case 'eoi': return 'ix-byte--eoi';
-            case 'other': return 'ix-byte--other';
-            default: return '';
-        }
-    }
-
     // ============================================================================================
     /**
      * Clamp a row index to the valid visible window range.
@@ -154,11 +130,10 @@ export function createHexGrid(root: HTMLElement, opts: HexGridOptions): HexGrid
             }
 
             const value = bytes[index];
-            const region = classifyByte(index, layout);
+            const region = classifyByte(analyzer, layout, index);
 
             const byteSpan = document.createElement('div');
-            const regionCss = regionClass(region);
-            byteSpan.className = regionCss ? `ix-byte ${regionCss}` : 'ix-byte';
+            byteSpan.className = region === 'unknown' ? 'ix-byte' : `ix-byte ix-byte--${region}`;
             byteSpan.textContent = byteToHex(value);
             byteSpan.dataset.offset = String(index);
             byteSpan.dataset.region = region;
@@ -172,8 +147,8 @@ export function createHexGrid(root: HTMLElement, opts: HexGridOptions): HexGrid
             asciiSpan.textContent = byteToAscii(value);
             asciiSpan.dataset.offset = String(index);
 
-            // Dim ASCII for non-scan metadata so the scan data "soup" stands out.
-            if (region !== 'scan') {
+            // Dim ASCII for metadata so the scan data (or IDAT/LZW/VP8/pixel/strip) "soup" stands out.
+            if (!analyzer?.legend.some((def) => def.id === region && def.bulkData)) {
                 asciiSpan.classList.add('ix-ascii-char-muted');
             }
 
@@ -550,8 +525,9 @@ export function createHexGrid(root: HTMLElement, opts: HexGridOptions): HexGrid
     });
 
     return {
-        setData(nextBytes, nextLayout, nextActiveOffset) {
+        setData(nextBytes, nextAnalyzer, nextLayout, nextActiveOffset) {
             bytes = nextBytes;
+            analyzer = nextAnalyzer;
             layout = nextLayout;
             renderLength = bytes ? bytes.length : 0;
             totalRows = bytes ? Math.ceil(renderLength / BYTES_PER_ROW) : 0;
@@ -0,0 +1,346 @@
+/**
+ * icc.ts
+ * @fileoverview ICC color profile (APP2) reassembly and decoding
+ * @description Collects the "ICC_PROFILE\0" APP2 chunks of a JPEG, stitches them together by
+ * sequence number, and decodes the profile header and tag table. Profile offsets are mapped
+ * back to file offsets so a tag can be located even when it spans chunk boundaries.
+ */
+
+import { JpegLayout, JpegSegment } from './jpegStructure';
+
+/** The identifier that opens the payload of an ICC APP2 chunk. */
+const ICC_HEADER = 'ICC_PROFILE\0';
+
+/** Identifier plus the sequence number and chunk count bytes. */
+const ICC_CHUNK_HEADER_SIZE = ICC_HEADER.length + 2;
+
+/** Size of the fixed profile header; the tag count follows it. */
+const ICC_PROFILE_HEADER_SIZE = 128;
+
+// ============================================================================================
+/**
+ * One APP2 chunk of an ICC profile
+ * @param {JpegSegment} segment - The APP2 segment carrying the chunk
+ * @param {number} sequence - The chunk's sequence number (1-based)
+ * @param {number} count - The total number of chunks the chunk declares
+ * @param {number} dataStart - Offset of the first profile byte in the chunk
+ * @param {number} dataEnd - Offset one past the last profile byte in the chunk
+ */
+export interface IccChunk {
+    segment: JpegSegment;
+    sequence: number;
+    count: number;
+    dataStart: number;
+    dataEnd: number;
+}
+
+// ============================================================================================
+/**
+ * A field of the profile header
+ * @param {string} label - The field name
+ * @param {string} value - The decoded value
+ * @param {number} offset - Offset of the field within the profile
+ * @param {number} size - Size of the field in bytes
+ */
+export interface IccHeaderField {
+    label: string;
+    value: string;
+    offset: number;
+    size: number;
+}
+
+// ============================================================================================
+/**
+ * An entry of the profile's tag table
+ * @param {string} signature - The four-character tag signature (e.g. 'rXYZ')
+ * @param {string} type - The four-character type signature found at the tag data (e.g. 'XYZ ')
+ * @param {number} entryOffset - Offset of the 12-byte table entry within the profile
+ * @param {number} offset - Offset of the tag data within the profile
+ * @param {number} size - Size of the tag data in bytes
+ */
+export interface IccTag {
+    signature: string;
+    type: string;
+    entryOffset: number;
+    offset: number;
+    size: number;
+}
+
+// ============================================================================================
+/**
+ * A reassembled ICC profile
+ * @param {IccChunk[]} chunks - The chunks in sequence order (the first of each sequence number wins)
+ * @param {number} declaredCount - The chunk count declared by the first chunk
+ * @param {boolean} complete - True when every chunk from 1 to the declared count was found
+ * @param {Uint8Array} data - The profile bytes, concatenated in sequence order
+ * @param {IccHeaderField[]} header - The decoded header fields (empty if the profile is too short)
+ * @param {IccTag[]} tags - The tag table entries that fit inside the profile
+ */
+export interface IccProfile {
+    chunks: IccChunk[];
+    declaredCount: number;
+    complete: boolean;
+    data: Uint8Array;
+    header: IccHeaderField[];
+    tags: IccTag[];
+}
+
+const DEVICE_CLASSES: Record<string, string> = {
+    scnr: 'Input device',
+    mntr: 'Display device',
+    prtr: 'Output device',
+    link: 'Device link',
+    spac: 'Color space',
+    abst: 'Abstract',
+    nmcl: 'Named color'
+};
+
+const RENDERING_INTENTS = ['Perceptual', 'Media-relative colorimetric', 'Saturation', 'ICC-absolute colorimetric'];
+
+const TAG_NAMES: Record<string, string> = {
+    desc: 'Profile description',
+    cprt: 'Copyright',
+    dmnd: 'Device manufacturer',
+    dmdd: 'Device model',
+    wtpt: 'Media white point',
+    bkpt: 'Media black point',
+    rXYZ: 'Red colorant',
+    gXYZ: 'Green colorant',
+    bXYZ: 'Blue colorant',
+    rTRC: 'Red tone curve',
+    gTRC: 'Green tone curve',
+    bTRC: 'Blue tone curve',
+    kTRC: 'Gray tone curve',
+    chad: 'Chromatic adaptation',
+    chrm: 'Chromaticity',
+    lumi: 'Luminance',
+    meas: 'Measurement',
+    tech: 'Technology',
+    view: 'Viewing conditions',
+    vued: 'Viewing conditions description',
+    gamt: 'Gamut',
+    cicp: 'Coding-independent code points',
+    A2B0: 'Device to PCS (perceptual)',
+    A2B1: 'Device to PCS (colorimetric)',
+    A2B2: 'Device to PCS (saturation)',
+    B2A0: 'PCS to device (perceptual)',
+    B2A1: 'PCS to device (colorimetric)',
+    B2A2: 'PCS to device (saturation)'
+};
+
+// ============================================================================================
+/**
+ * Check whether a segment is an ICC profile APP2 chunk
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The segment to check
+ * @returns {boolean} True if the payload starts with "ICC_PROFILE\0" and the chunk numbers
+ */
+export function isIccSegment(bytes: Uint8Array, segment: JpegSegment): boolean {
+    if (segment.marker !== 0xe2) return false;
+    const p = segment.payload.start;
+    if (segment.payload.end - p < ICC_CHUNK_HEADER_SIZE) return false;
+    for (let i = 0; i < ICC_HEADER.length; i++) {
+        if (bytes[p + i] !== ICC_HEADER.charCodeAt(i)) return false;
+    }
+    return true;
+}
+
+// ============================================================================================
+/**
+ * Reassemble and decode the ICC profile stored in a JPEG's APP2 chunks
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {IccProfile | null} The profile, or null if the file has no ICC chunks
+ */
+export function parseIccProfile(bytes: Uint8Array, layout: JpegLayout): IccProfile | null {
+    const bySequence = new Map<number, IccChunk>();
+    let declaredCount = 0;
+
+    for (const segment of layout.segments) {
+        if (!isIccSegment(bytes, segment)) continue;
+        const p = segment.payload.start + ICC_HEADER.length;
+        const sequence = bytes[p];
+        const count = bytes[p + 1];
+        if (!bySequence.has(sequence)) {
+            bySequence.set(sequence, {
+                segment,
+                sequence,
+                count,
+                dataStart: p + 2,
+                dataEnd: segment.payload.end
+            });
+        }
+        if (declaredCount === 0) declaredCount = count;
+    }
+
+    if (bySequence.size === 0) return null;
+
+    const chunks = Array.from(bySequence.values()).sort((a, b) => a.sequence - b.sequence);
+    let complete = declaredCount > 0;
+    for (let sequence = 1; sequence <= declaredCount; sequence++) {
+        if (!bySequence.has(sequence)) complete = false;
+    }
+
+    let total = 0;
+    for (const chunk of chunks) total += chunk.dataEnd - chunk.dataStart;
+    const data = new Uint8Array(total);
+    let pos = 0;
+    for (const chunk of chunks) {
+        data.set(bytes.subarray(chunk.dataStart, chunk.dataEnd), pos);
+        pos += chunk.dataEnd - chunk.dataStart;
+    }
+
+    return {
+        chunks,
+        declaredCount,
+        complete,
+        data,
+        header: decodeHeader(data),
+        tags: decodeTagTable(data)
+    };
+}
+
+// ============================================================================================
+/**
+ * Map an offset within the reassembled profile to the file offset that holds that byte
+ * @param {IccProfile} profile - The profile
+ * @param {number} profileOffset - The offset within the profile
+ * @returns {number | null} The file offset, or null if the offset is past the profile data
+ */
+export function iccToFileOffset(profile: IccProfile, profileOffset: number): number | null {
+    let remaining = profileOffset;
+    for (const chunk of profile.chunks) {
+        const size = chunk.dataEnd - chunk.dataStart;
+        if (remaining < size) return chunk.dataStart + remaining;
+        remaining -= size;
+    }
+    return null;
+}
+
+// ============================================================================================
+/**
+ * Get a readable name for a tag signature
+ * @param {string} signature - The tag signature
+ * @returns {string | null} The name, or null if the tag is not a common one
+ */
+export function iccTagName(signature: string): string | null {
+    return TAG_NAMES[signature] ?? null;
+}
+
+// ============================================================================================
+/**
+ * Decode the fixed 128-byte profile header
+ * @param {Uint8Array} data - The profile bytes
+ * @returns {IccHeaderField[]} The header fields, or an empty list if the profile is too short
+ */
+function decodeHeader(data: Uint8Array): IccHeaderField[] {
+    if (data.length < ICC_PROFILE_HEADER_SIZE) return [];
+
+    const deviceClass = readSignature(data, 12);
+    const intent = readUint32(data, 64);
+    const year = readUint16(data, 24);
+    const date = year
+        ? `${year}-${pad2(readUint16(data, 26))}-${pad2(readUint16(data, 28))} ${pad2(readUint16(data, 30))}:${pad2(readUint16(data, 32))}:${pad2(readUint16(data, 34))}`
+        : '—';
+
+    return [
+        { label: 'Profile size', value: `${readUint32(data, 0)} bytes${readUint32(data, 0) !== data.length ? ` (${data.length} present)` : ''}`, offset: 0, size: 4 },
+        { label: 'Preferred CMM', value: formatSignature(readSignature(data, 4)), offset: 4, size: 4 },
+        { label: 'Version', value: `${data[8]}.${data[9] >> 4}.${data[9] & 0x0f}`, offset: 8, size: 4 },
+        { label: 'Device class', value: `${formatSignature(deviceClass)}${DEVICE_CLASSES[deviceClass] ? ` (${DEVICE_CLASSES[deviceClass]})` : ''}`, offset: 12, size: 4 },
+        { label: 'Color space', value: formatSignature(readSignature(data, 16)), offset: 16, size: 4 },
+        { label: 'PCS', value: formatSignature(readSignature(data, 20)), offset: 20, size: 4 },
+        { label: 'Created', value: date, offset: 24, size: 12 },
+        { label: 'Signature', value: formatSignature(readSignature(data, 36)), offset: 36, size: 4 },
+        { label: 'Platform', value: formatSignature(readSignature(data, 40)), offset: 40, size: 4 },
+        { label: 'Manufacturer', value: formatSignature(readSignature(data, 48)), offset: 48, size: 4 },
+        { label: 'Model', value: formatSignature(readSignature(data, 52)), offset: 52, size: 4 },
+        { label: 'Rendering intent', value: RENDERING_INTENTS[intent] ?? String(intent), offset: 64, size: 4 },
+        { label: 'Creator', value: formatSignature(readSignature(data, 80)), offset: 80, size: 4 }
+    ];
+}
+
+// ============================================================================================
+/**
+ * Decode the tag table that follows the header. Entries past the end of the profile data
+ * are dropped; tag data that runs past the end is kept so it can still be located.
+ * @param {Uint8Array} data - The profile bytes
+ * @returns {IccTag[]} The tag entries in table order
+ */
+function decodeTagTable(data: Uint8Array): IccTag[] {
+    if (data.length < ICC_PROFILE_HEADER_SIZE + 4) return [];
+
+    const count = readUint32(data, ICC_PROFILE_HEADER_SIZE);
+    const tags: IccTag[] = [];
+    for (let i = 0; i < count; i++) {
+        const entryOffset = ICC_PROFILE_HEADER_SIZE + 4 + i * 12;
+        if (entryOffset + 12 > data.length) break;
+        const offset = readUint32(data, entryOffset + 4);
+        tags.push({
+            signature: readSignature(data, entryOffset),
+            type: offset + 4 <= data.length ? readSignature(data, offset) : '',
+            entryOffset,
+            offset,
+            size: readUint32(data, entryOffset + 8)
+        });
+    }
+    return tags;
+}
+
+// ============================================================================================
+/**
+ * Read a four-character signature
+ * @param {Uint8Array} data - The profile bytes
+ * @param {number} offset - The offset of the signature
+ * @returns {string} The signature, with unprintable bytes shown as '.'
+ */
+function readSignature(data: Uint8Array, offset: number): string {
+    let out = '';
+    for (let i = 0; i < 4; i++) {
+        const b = data[offset + i];
+        out += b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.';
+    }
+    return out;
+}
+
+// ============================================================================================
+/**
+ * Format a signature for display; an all-zero signature means "not set"
+ * @param {string} signature - The signature
+ * @returns {string} The trimmed signature, or '—'
+ */
+function formatSignature(signature: string): string {
+    return signature === '....' ? '—' : signature.trim();
+}
+
+// ============================================================================================
+/**
+ * Read a big-endian 32-bit unsigned value
+ * @param {Uint8Array} data - The profile bytes
+ * @param {number} offset - The offset of the value
+ * @returns {number} The value
+ */
+function readUint32(data: Uint8Array, offset: number): number {
+    return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+// ============================================================================================
+/**
+ * Read a big-endian 16-bit unsigned value
+ * @param {Uint8Array} data - The profile bytes
+ * @param {number} offset - The offset of the value
+ * @returns {number} The value
+ */
+function readUint16(data: Uint8Array, offset: number): number {
+    return (data[offset] << 8) | data[offset + 1];
+}
+
+// ============================================================================================
+/**
+ * Pad a number to two digits
+ * @param {number} value - The value
+ * @returns {string} The padded value
+ */
+function pad2(value: number): string {
+    return String(value).padStart(2, '0');
+}
@@ -4,9 +4,17 @@
  * @description Interactive hex editor for viewing/editing JPEG bytes with region markers
  */
 
-import { createEmptyState, applyEdit, canRedo, canUndo, loadNewFile, redo, setActiveOffset, undo } from './editorState';
+import { createEmptyState, applyEdit, applyLayout, applyReplace, canRedo, canUndo, loadNewFile, redo, setActiveOffset, undo } from './editorState';
+import { createAnalysisClient } from './analysisClient';
 import { createHexGrid } from './hexGrid';
-import { byteToHex, classifyByte } from './jpegStructure';
+import { createSegmentInspector } from './segmentInspector';
+import { ByteLayout, ByteRegion, DecodedImage, Diagnostic, FormatAnalyzer, getJumpTargets, getRegionIndex, RepairEdit } from './formatRegistry';
+import { byteToHex, findNearestOffset, findSegmentAt, isJpegLayout } from './jpegStructure';
+import { decodeRawThumbnail, findJfifThumbnail, JfifThumbnail } from './jfif';
+import { findExifThumbnail, parseExif } from './exif';
+import { describeMpfImage, findMpf, MpfImage } from './mpf';
+import { describeAdobeColorModel, parseAdobe } from './adobe';
+import { computeChunkCrc, findBadCrcs, isPngLayout, readChunkCrc } from './pngStructure';
 import PhotoLightbox from './shared/photoLightbox';
 import { showAlert, showPrompt, showConfirm } from './shared/dialogs';
 import { getOperatingSystem } from './shared/common';
@@ -14,30 +22,11 @@ import { getOperatingSystem } from './shared/common';
 // Prevents excessive memory/CPU usage when rendering large files
 const MAX_FILE_BYTES = 8 * 1024 * 1024; // 8 MB
 
-type RegionId =
-    | 'soi'
-    | 'app'
-    | 'dqt'
-    | 'sof'
-    | 'dht'
-    | 'dri'
-    | 'sos-header'
-    | 'rst'
-    | 'com'
-    | 'eoi';
-
-const REGION_DEFS: { id: RegionId; label: string }[] = [
-    { id: 'soi',        label: 'Start of Image Marker' },
-    { id: 'app',        label: 'Application Segment' },
-    { id: 'dqt',        label: 'Quantization Table' },
-    { id: 'sof',        label: 'Frame Header' },
-    { id: 'dht',        label: 'Huffman Table' },
-    { id: 'dri',        label: 'Restart Interval' },
-    { id: 'sos-header', label: 'Scan Header' },
-    { id: 'rst',        label: 'Restart Marker' },
-    { id: 'com',        label: 'Comment' },
-    { id: 'eoi',        label: 'End of Image Marker' }
-];
+// Smaller files are analyzed inline: the worker round trip would cost more than it saves
+const WORKER_ANALYSIS_MIN_BYTES = 512 * 1024; // 512 KB
+
+// EXIF thumbnails are conventionally 160 × 120
+const EXIF_THUMBNAIL_MAX_SIDE = 160;
 
 // ============================================================================================
 /**
@@ -60,12 +49,19 @@ function initImageHexEditor() {
     const jumpBtn = document.getElementById('ix-jump-btn') as HTMLButtonElement | null;
     const statusEl = document.getElementById('ix-status') as HTMLElement | null;
     const editorStatusEl = document.getElementById('ix-editor-status') as HTMLElement | null;
+    const analysisProgressEl = document.getElementById('ix-analysis-progress') as HTMLElement | null;
     const previewImg = document.getElementById('ix-preview-image') as HTMLImageElement | null;
     const previewThrobber = document.getElementById('ix-preview-throbber') as HTMLElement | null;
     const previewZoomBtn = document.getElementById('ix-preview-zoom-btn') as HTMLButtonElement | null;
     const jumpMenu = document.getElementById('ix-jump-menu') as HTMLElement | null;
     const jumpMenuBody = document.getElementById('ix-jump-menu-body') as HTMLElement | null;
     const jumpCloseBtn = document.getElementById('ix-jump-close-btn') as HTMLButtonElement | null;
+    const problemsBtn = document.getElementById('ix-problems-btn') as HTMLButtonElement | null;
+    const problemsCount = document.getElementById('ix-problems-count') as HTMLElement | null;
+    const problemsMenu = document.getElementById('ix-problems-menu') as HTMLElement | null;
+    const problemsBody = document.getElementById('ix-problems-body') as HTMLElement | null;
+    const problemsRepairs = document.getElementById('ix-problems-repairs') as HTMLElement | null;
+    const problemsCloseBtn = document.getElementById('ix-problems-close-btn') as HTMLButtonElement | null;
     const metaFilename = document.getElementById('ix-meta-filename') as HTMLElement | null;
     const metaSize = document.getElementById('ix-meta-size') as HTMLElement | null;
     const metaDimensions = document.getElementById('ix-meta-dimensions') as HTMLElement | null;
@@ -73,8 +69,18 @@ function initImageHexEditor() {
     const uploadNewBtn = document.getElementById('ix-upload-new-btn') as HTMLButtonElement | null;
     const autoAdvanceInput = document.getElementById('ix-auto-advance-toggle') as HTMLInputElement | null;
     const helpBtn = document.getElementById('ix-help-btn') as HTMLButtonElement | null;
-
-    if (!gridEl || !mainEl || !toolbarEl || !uploadEl || !dropzone || !fileInput || !undoBtn || !redoBtn || /* !findBtn || */  !insertBtn || !jumpBtn || !statusEl || !editorStatusEl || !previewImg || !previewThrobber || !previewZoomBtn || !metaFilename || !metaSize || !metaDimensions || !downloadBtn || !uploadNewBtn || !jumpMenu || !jumpMenuBody || !jumpCloseBtn || !autoAdvanceInput || !helpBtn) {
+    const crcCheckBtn = document.getElementById('ix-crc-check-btn') as HTMLButtonElement | null;
+    const pngCrcOption = document.getElementById('ix-png-crc-option') as HTMLElement | null;
+    const pngCrcInput = document.getElementById('ix-png-crc-toggle') as HTMLInputElement | null;
+    const inspectorEl = document.getElementById('ix-inspector') as HTMLElement | null;
+    const previewImagesEl = document.getElementById('ix-preview-images') as HTMLElement | null;
+    const previewImageSelect = document.getElementById('ix-preview-image-select') as HTMLSelectElement | null;
+    const thumbPreview = document.getElementById('ix-thumb-preview') as HTMLElement | null;
+    const thumbImg = document.getElementById('ix-thumb-image') as HTMLImageElement | null;
+    const thumbCanvas = document.getElementById('ix-thumb-canvas') as HTMLCanvasElement | null;
+    const thumbCaption = document.getElementById('ix-thumb-caption') as HTMLElement | null;
+
+    if (!gridEl || !mainEl || !toolbarEl || !uploadEl || !dropzone || !fileInput || !undoBtn || !redoBtn || /* !findBtn || */  !insertBtn || !jumpBtn || !statusEl || !editorStatusEl || !analysisProgressEl || !previewImg || !previewThrobber || !previewZoomBtn || !metaFilename || !metaSize || !metaDimensions || !downloadBtn || !uploadNewBtn || !jumpMenu || !jumpMenuBody || !jumpCloseBtn || !problemsBtn || !problemsCount || !problemsMenu || !problemsBody || !problemsRepairs || !problemsCloseBtn || !autoAdvanceInput || !helpBtn || !crcCheckBtn || !pngCrcOption || !pngCrcInput || !inspectorEl || !previewImagesEl || !previewImageSelect || !thumbPreview || !thumbImg || !thumbCanvas || !thumbCaption) {
         console.error('[ImageHexEditor] Missing required DOM elements, aborting init.');
         return;
     }
@@ -83,28 +89,82 @@ function initImageHexEditor() {
     previewZoomBtn.disabled = true;
 
     const state = createEmptyState();
+    state.editOptions.recomputeChecksums = pngCrcInput.checked;
+    const analysisClient = createAnalysisClient();
+    if (analysisClient.usesWorker) {
+        state.deferAnalysisBytes = WORKER_ANALYSIS_MIN_BYTES;
+    }
     const grid = createHexGrid(gridEl, {
         onEditByte(offset, value) {
+            const modelBefore = describeColorTransformAt(offset, 1);
             applyEdit(state, (draft) => {
                 draft[offset] = value & 0xff;
             });
             syncView();
             setEditorStatus(`Edited byte at 0x${byteToHex(offset & 0xff)} (offset ${offset}).`);
+            warnColorModelChange(modelBefore, describeColorTransformAt(offset, 1));
         },
         onMoveCaret(offset) {
             setActiveOffset(state, offset);
             syncToolbar();
             syncStatusForCaret();
+            syncInspector();
         },
         isAutoAdvanceEnabled: () => autoAdvanceInput?.checked ?? true
     });
+    const inspector = createSegmentInspector(inspectorEl, {
+        onEditBytes(offset, values) {
+            const modelBefore = describeColorTransformAt(offset, values.length);
+            applyEdit(state, (draft) => {
+                draft.set(values, offset);
+            });
+            syncView();
+            setEditorStatus(`Edited ${values.length === 1 ? 'byte' : `${values.length} bytes`} at offset ${offset}.`);
+            warnColorModelChange(modelBefore, describeColorTransformAt(offset, values.length));
+        },
+        onReplaceBytes(start, end, values) {
+            applyReplace(state, start, end, values);
+            syncView();
+            const delta = values.length - (end - start);
+            setEditorStatus(delta === 0
+                ? `Rewrote ${values.length} bytes at offset ${start}.`
+                : `Rewrote segment at offset ${start} (${delta > 0 ? '+' : ''}${delta} bytes); length field updated.`);
+        },
+        onSelectOffset(offset) {
+            setActiveOffset(state, offset);
+            grid.setActiveOffset(state.activeOffset, true);
+            syncToolbar();
+            syncStatusForCaret();
+            syncInspector();
+        },
+        encodeThumbnail: encodePreviewThumbnail
+    });
 
     let previewUrl: string | null = null;
+    // Bumped on every preview update so a slow decode or canvas encode cannot overwrite a newer preview.
+    let previewGeneration = 0;
+    // Problems the analyzer's decoder worked around in the current preview, shown with the dimensions.
+    let previewDecodeErrors = 0;
+    let previewImages: MpfImage[] = [];
+    let previewImagesKey = '';
+    let previewImageIndex = 0;
+    let thumbUrl: string | null = null;
+    let thumbRendered: { source: string; thumbnail: JfifThumbnail; bytes: Uint8Array } | null = null;
     let previewScheduled = false;
+    // The bytes the worker is analyzing, so repeated syncs do not ask twice.
+    let analysisBytes: Uint8Array | null = null;
     let jumpMenuInitialized = false;
+    // The analyzer whose Jump targets the menu rows were built for.
+    let jumpMenuAnalyzer: FormatAnalyzer | null = null;
     let jumpMenuOpen = false;
-    let regionCounts: Record<RegionId, number> = Object.create(null);
-    let regionOffsets: Record<RegionId, number[]> = Object.create(null);
+    // Validation diagnostics for the current bytes, and the layout they were computed from.
+    let problems: Diagnostic[] = [];
+    let problemsLayout: ByteLayout | null = null;
+    let problemsMenuOpen = false;
+    // The edits of the repairs that apply to the current bytes, by repair id.
+    let repairPlans = new Map<string, RepairEdit>();
+    let regionCounts: Record<ByteRegion, number> = Object.create(null);
+    let regionOffsets: Record<ByteRegion, number[]> = Object.create(null);
     let previewLightboxHost: HTMLElement | null = null;
     let previewLightbox: PhotoLightbox | null = null;
 
@@ -176,7 +236,7 @@ function initImageHexEditor() {
         const src = previewImg.src;
         const width = previewImg.naturalWidth || 1600;
         const height = previewImg.naturalHeight || 900;
-        const alt = previewImg.alt || 'JPEG preview';
+        const alt = previewImg.alt || 'Image preview';
 
         let trigger = host.querySelector<HTMLButtonElement>('[data-photo-lightbox-width]');
         if (!trigger) {
@@ -240,80 +300,81 @@ function initImageHexEditor() {
 
     // ============================================================================================
     /**
-     * Recompute offsets of each JPEG region type
-     * @description Scans layout to find where each region (SOI, APP, DQT, etc.) appears, stores in regionOffsets
+     * Recompute offsets of each region type
+     * @description Reads where each Jump target region (SOI, APP, DQT, etc.) appears from the layout's
+     * region index (built once per layout), stores in regionOffsets
      */
     function recomputeRegionOffsets(): void {
-        const nextOffsets: Record<RegionId, number[]> = Object.create(null);
-        for (const def of REGION_DEFS) {
-            nextOffsets[def.id] = [];
-        }
-
-        const bytes = state.bytes;
-        const layout = state.layout;
-        if (!bytes || !layout || layout.length === 0) {
-            regionOffsets = nextOffsets;
-            return;
+        const nextOffsets: Record<ByteRegion, number[]> = Object.create(null);
+        const index = state.bytes && state.analyzer && state.layout ? getRegionIndex(state.analyzer, state.layout) : null;
+        for (const def of getJumpTargets(state.analyzer)) {
+            nextOffsets[def.id] = index?.runStarts.get(def.id) ?? [];
         }
-
-        const len = layout.length;
-        let prevRegion: string | null = null;
-
-        for (let i = 0; i < len; i++) {
-            const region = classifyByte(i, layout) as string;
-            if (region === prevRegion) continue;
-            prevRegion = region;
-
-            // Only track region types we expose in the Jump To menu.
-            if ((region as RegionId) in nextOffsets) {
-                const key = region as RegionId;
-                nextOffsets[key].push(i);
-            }
-        }
-
         regionOffsets = nextOffsets;
     }
 
     // ============================================================================================
     /**
-     * Compute count of each JPEG region type from offsets
+     * Compute count of each region type from offsets
      * @description Populates regionCounts from regionOffsets for jump menu display
      */
     function ensureRegionCounts(): void {
-        const counts: Record<RegionId, number> = Object.create(null);
-        for (const def of REGION_DEFS) {
+        const counts: Record<ByteRegion, number> = Object.create(null);
+        for (const def of getJumpTargets(state.analyzer)) {
             counts[def.id] = regionOffsets[def.id]?.length ?? 0;
         }
         regionCounts = counts;
     }
 
+    /** Where a replacement applies: the file, an embedded image, the format's unit or a region run. */
+    type ReplaceScope = 'file' | 'image' | 'unit' | 'region';
+
     // ============================================================================================
     /**
-     * Get the byte range for the JPEG segment containing the current caret.
-     * Falls back to the entire file if layout information is unavailable.
-     * @returns {{ start: number; end: number; scopeLabel: 'file' | 'segment' }} The range to operate on
+     * Get the byte range for the unit (JPEG segment, PNG chunk...) containing the current caret.
+     * Formats without units, and bytes between units, use the run of bytes in the caret's region.
+     * Falls back to the entire file (or the chosen embedded image) if layout information is unavailable.
+     * @param {boolean} limitToUnit - Whether to limit the range to the unit under the caret
+     * @param {MpfImage | null} image - The embedded image to limit the range to, or null for the whole file
+     * @returns {{ start: number; end: number; scopeLabel: ReplaceScope }} The range to operate on
      */
-    function getCurrentReplaceRange(limitToSegment: boolean): { start: number; end: number; scopeLabel: 'file' | 'segment' } {
+    function getCurrentReplaceRange(limitToUnit: boolean, image: MpfImage | null): { start: number; end: number; scopeLabel: ReplaceScope } {
         const bytes = state.bytes;
         if (!bytes || !bytes.length) {
             return { start: 0, end: 0, scopeLabel: 'file' };
         }
 
-        if (!limitToSegment) {
-            return { start: 0, end: bytes.length, scopeLabel: 'file' };
+        const bounds = image
+            ? { start: image.start, end: Math.min(image.end, bytes.length), scopeLabel: 'image' as const }
+            : { start: 0, end: bytes.length, scopeLabel: 'file' as const };
+        if (!limitToUnit) {
+            return bounds;
         }
 
         const layout = state.layout;
         if (!layout || !layout.regions || layout.length !== layout.regions.length) {
-            return { start: 0, end: bytes.length, scopeLabel: 'file' };
+            return bounds;
         }
 
+        // A unit outside the chosen image clamps to an empty range.
+        const clamp = (start: number, end: number, scopeLabel: 'unit' | 'region') => ({
+            start: Math.max(start, bounds.start),
+            end: Math.min(end, bounds.end),
+            scopeLabel
+        });
+
         const len = layout.length;
         let offset = state.activeOffset;
         if (offset < 0 || offset >= len) {
             offset = 0;
         }
 
+        const unit = state.analyzer?.unit?.find(layout, offset);
+        if (unit) {
+            return clamp(unit.start, unit.end, 'unit');
+        }
+
+        // Bytes between units (stray data) or formats without units – fall back to the run of matching region codes.
         const regions = layout.regions;
         const code = regions[offset];
 
@@ -327,21 +388,36 @@ function initImageHexEditor() {
             end++;
         }
 
-        return { start, end, scopeLabel: 'segment' };
+        return clamp(start, end, 'region');
     }
 
     // ============================================================================================
     /**
      * Build jump menu DOM with region rows and navigation buttons
-     * @description Creates static region definition rows with Prev/Next buttons, wires click handlers
+     * @description Wires the click handler once, then (re)builds a row with Prev/Next buttons for each
+     * Jump target of the active analyzer whenever the analyzer changes
      */
     function initJumpMenuDom(): void {
-        if (jumpMenuInitialized) return;
-        jumpMenuInitialized = true;
+        if (!jumpMenuInitialized) {
+            jumpMenuInitialized = true;
+            jumpMenuBody!.addEventListener('click', (ev) => {
+                const target = ev.target as HTMLElement | null;
+                if (!target) return;
+                const button = target.closest<HTMLButtonElement>('button[data-region][data-dir]');
+                if (!button) return;
+
+                const region = button.dataset.region as ByteRegion;
+                const dir = button.dataset.dir === 'prev' ? 'prev' : 'next';
+
+                handleJump(region, dir);
+            });
+        }
+
+        if (jumpMenuBody!.childElementCount > 0 && jumpMenuAnalyzer === state.analyzer) return;
+        jumpMenuAnalyzer = state.analyzer;
 
-        // Build static rows for each region definition.
         jumpMenuBody!.innerHTML = '';
-        for (const def of REGION_DEFS) {
+        for (const def of getJumpTargets(state.analyzer)) {
             const row = document.createElement('div');
             row.className = 'ix-jump-row';
             row.dataset.region = def.id;
@@ -382,18 +458,6 @@ function initImageHexEditor() {
 
             jumpMenuBody!.appendChild(row);
         }
-
-        jumpMenuBody!.addEventListener('click', (ev) => {
-            const target = ev.target as HTMLElement | null;
-            if (!target) return;
-            const button = target.closest<HTMLButtonElement>('button[data-region][data-dir]');
-            if (!button) return;
-
-            const region = button.dataset.region as RegionId;
-            const dir = button.dataset.dir === 'prev' ? 'prev' : 'next';
-
-            handleJump(region, dir);
-        });
     }
 
     // ============================================================================================
@@ -405,7 +469,7 @@ function initImageHexEditor() {
         initJumpMenuDom();
         ensureRegionCounts();
 
-        for (const def of REGION_DEFS) {
+        for (const def of getJumpTargets(state.analyzer)) {
             const count = regionCounts[def.id] ?? 0;
             const row = jumpMenuBody!.querySelector<HTMLElement>(`.ix-jump-row[data-region="${def.id}"]`);
             if (!row) continue;
@@ -456,54 +520,39 @@ function initImageHexEditor() {
 
     // ============================================================================================
     /**
-     * Find next/prev occurrence of a JPEG region type
-     * @description Searches regionOffsets in direction, wraps at boundaries
-     * @param {RegionId} region - The region to find the offset for
+     * Find next/prev occurrence of a region type
+     * @description Binary-searches regionOffsets in direction, wraps at boundaries
+     * @param {ByteRegion} region - The region to find the offset for
      * @param {JumpDirection} dir - 'next' or 'prev' from current caret
      * @returns {number | null} The offset for the region, or null if not found
      */
-    function findOffsetForRegion(region: RegionId, dir: JumpDirection): number | null {
+    function findOffsetForRegion(region: ByteRegion, dir: JumpDirection): number | null {
         if (!state.bytes) return null;
         const offsets = regionOffsets[region] ?? [];
         if (offsets.length === 0) return null;
 
-        const startOffset = state.activeOffset;
-
         // Single match – always go to that one.
         if (offsets.length === 1) {
             return offsets[0];
         }
 
-        if (dir === 'next') {
-            for (let i = 0; i < offsets.length; i++) {
-                if (offsets[i] > startOffset) {
-                    return offsets[i];
-                }
-            }
-            // Wrap to first.
-            return offsets[0];
-        }
-
-        // dir === 'prev'
-        for (let i = offsets.length - 1; i >= 0; i--) {
-            if (offsets[i] < startOffset) {
-                return offsets[i];
-            }
-        }
-        // Wrap to last.
-        return offsets[offsets.length - 1];
+        return findNearestOffset(offsets, state.activeOffset, dir);
     }
 
     // ============================================================================================
     /**
-     * Jump to next/prev occurrence of a JPEG region
+     * Jump to next/prev occurrence of a region
      * @description Validates state, finds offset, updates caret, displays status message
-     * @param {RegionId} region - The region to jump to
+     * @param {ByteRegion} region - The region to jump to
      * @param {JumpDirection} dir - 'next' or 'prev' direction
      */
-    function handleJump(region: RegionId, dir: JumpDirection): void {
+    function handleJump(region: ByteRegion, dir: JumpDirection): void {
+        if (state.analysisPending) {
+            setStatus('Still analyzing the file structure...');
+            return;
+        }
         if (!state.bytes || !state.layout) {
-            setStatus('Load a JPEG before jumping.');
+            setStatus('Load an image before jumping.');
             return;
         }
 
@@ -523,6 +572,99 @@ function initImageHexEditor() {
         grid.setActiveOffset(offset, true);
         syncToolbar();
         syncStatusForCaret();
+        syncInspector();
+    }
+
+    // ============================================================================================
+    /**
+     * Validate the current bytes and update the Problems button and panel
+     * @description Hides the button for formats without a validator; validation reruns only when
+     * the layout changes (every edit produces a new layout)
+     */
+    function syncProblems(): void {
+        const analyzer = state.analyzer;
+        problemsBtn!.hidden = !analyzer?.validate;
+        if (problemsLayout !== state.layout) {
+            problemsLayout = state.layout;
+            problems = analyzer?.validate && state.bytes && state.layout ? analyzer.validate(state.bytes, state.layout) : [];
+        }
+
+        const errors = problems.filter((problem) => problem.severity === 'error').length;
+        problemsCount!.textContent = problems.length > 0 ? String(problems.length) : '';
+        problemsBtn!.classList.toggle('ix-problems-btn--error', errors > 0);
+        problemsBtn!.classList.toggle('ix-problems-btn--warning', errors === 0 && problems.length > 0);
+        problemsBtn!.title = problems.length === 0
+            ? 'Problems: none found'
+            : `Problems: ${errors} error${errors === 1 ? '' : 's'}, ${problems.length - errors} warning${problems.length - errors === 1 ? '' : 's'}`;
+
+        if (problemsMenuOpen) renderProblems();
+    }
+
+    // ============================================================================================
+    /**
+     * Rebuild the Problems panel: a button for each repair that applies, then one row per diagnostic
+     */
+    function renderProblems(): void {
+        renderRepairs();
+        problemsBody!.innerHTML = '';
+        if (problems.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'ix-problems-empty';
+            empty.textContent = state.analysisPending ? 'Still analyzing the file structure...' : 'No problems found.';
+            problemsBody!.appendChild(empty);
+            return;
+        }
+
+        for (const problem of problems) {
+            const row = document.createElement('button');
+            row.type = 'button';
+            row.className = `ix-problem-row ix-problem-row--${problem.severity}`;
+            row.dataset.offset = String(problem.offset);
+
+            const severity = document.createElement('span');
+            severity.className = 'ix-problem-severity';
+            severity.textContent = problem.severity;
+            row.appendChild(severity);
+
+            const offset = document.createElement('span');
+            offset.className = 'ix-problem-offset';
+            offset.textContent = `0x${problem.offset.toString(16).padStart(6, '0').toUpperCase()}`;
+            row.appendChild(offset);
+
+            const message = document.createElement('span');
+            message.textContent = problem.message;
+            row.appendChild(message);
+
+            problemsBody!.appendChild(row);
+        }
+    }
+
+    // ============================================================================================
+    /**
+     * Work out which of the analyzer's repairs apply to the current bytes and show a button for each
+     */
+    function renderRepairs(): void {
+        repairPlans = new Map();
+        problemsRepairs!.innerHTML = '';
+        const bytes = state.bytes;
+        const layout = state.layout;
+        problemsRepairs!.hidden = true;
+        if (!bytes || !layout) return;
+
+        for (const repair of state.analyzer?.repairs ?? []) {
+            const plan = repair.plan(bytes, layout);
+            if (!plan) continue;
+            repairPlans.set(repair.id, plan);
+
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = 'ix-toolbar-btn ix-toolbar-btn--secondary';
+            button.textContent = repair.label;
+            button.title = repair.description;
+            button.dataset.repair = repair.id;
+            problemsRepairs!.appendChild(button);
+        }
+        problemsRepairs!.hidden = repairPlans.size === 0;
     }
 
     // ============================================================================================
@@ -555,6 +697,11 @@ function initImageHexEditor() {
         uploadNewBtn!.disabled = !hasBytes;
         jumpBtn!.disabled = !hasBytes;
         previewZoomBtn!.disabled = !hasBytes || !previewImg!.src;
+
+        // CRC tools only apply to PNGs.
+        const isPng = isPngLayout(state.layout);
+        crcCheckBtn!.hidden = !isPng;
+        pngCrcOption!.hidden = !isPng;
     }
 
     // ============================================================================================
@@ -572,6 +719,22 @@ function initImageHexEditor() {
         const total = state.bytes.length;
         const base = humanSize(total);
         metaSize!.textContent = base;
+
+        const declared = describeDeclaredDimensions();
+        if (declared) {
+            metaDimensions!.textContent = declared;
+        }
+    }
+
+    // ============================================================================================
+    /**
+     * Describe the image size the file declares, through the analyzer
+     * @description For a JPEG with embedded MPF images, the size is that of the previewed image
+     * @returns {string | null} The dimensions (e.g. "640 × 480"), or null if the file declares none
+     */
+    function describeDeclaredDimensions(): string | null {
+        if (!state.bytes || !state.layout || !state.analyzer?.describeDimensions) return null;
+        return state.analyzer.describeDimensions(state.bytes, state.layout, getPreviewImage());
     }
 
     // ============================================================================================
@@ -581,14 +744,128 @@ function initImageHexEditor() {
      */
     function syncStatusForCaret(): void {
         if (!state.bytes || state.bytes.length === 0) {
-            setEditorStatus('Drop a JPEG to begin.');
+            setEditorStatus('Drop an image to begin.');
             return;
         }
         const offset = state.activeOffset;
         const value = state.bytes[offset];
-        setEditorStatus(`Offset 0x${offset.toString(16).padStart(6, '0').toUpperCase()} = 0x${value.toString(16).padStart(2, '0').toUpperCase()}`);
+        let message = `Offset 0x${offset.toString(16).padStart(6, '0').toUpperCase()} = 0x${value.toString(16).padStart(2, '0').toUpperCase()}`;
+
+        // Name the structure under the caret (a PNG chunk, a BMP pixel, a progressive scan...).
+        const part = state.layout ? state.analyzer?.describeByte?.(state.bytes, state.layout, offset) : null;
+        if (part) message += ` · ${part}`;
+
+        // The Adobe transform byte is a one-byte edit that recolors the whole image; call it out.
+        const model = describeColorTransformAt(offset, 1);
+        if (model) message += ` · Adobe color transform (decodes as ${model}); editing it recolors every pixel`;
+        setEditorStatus(message);
     }
 
+    // ============================================================================================
+    /**
+     * Map a click on the preview image to the offset of the pixel under it, through the analyzer
+     * @description The image is scaled with object-fit: contain, so letterboxing is skipped
+     * @param {MouseEvent} e - The click event
+     * @returns {number | null} The offset of the pixel's first byte, or null if the click missed the image or the format cannot map pixels
+     */
+    function findPreviewPixelOffset(e: MouseEvent): number | null {
+        const analyzer = state.analyzer;
+        const rect = previewImg!.getBoundingClientRect();
+        const { naturalWidth: width, naturalHeight: height } = previewImg!;
+        if (!analyzer?.offsetAtPixel || !state.layout || !rect.width || !rect.height || !width || !height) return null;
+        const scale = Math.min(rect.width / width, rect.height / height);
+        const left = rect.left + (rect.width - width * scale) / 2;
+        const top = rect.top + (rect.height - height * scale) / 2;
+        const x = Math.floor((e.clientX - left) / scale);
+        const y = Math.floor((e.clientY - top) / scale);
+        return analyzer.offsetAtPixel(state.layout, x, y);
+    }
+
+    // ============================================================================================
+    /**
+     * Work out the color model selected by an Adobe APP14 transform byte inside a byte range
+     * @param {number} offset - The first offset of the range
+     * @param {number} length - The number of bytes in the range
+     * @returns {string | null} The color model, or null if the range does not cover a transform byte
+     */
+    function describeColorTransformAt(offset: number, length: number): string | null {
+        if (!state.bytes || !isJpegLayout(state.layout)) return null;
+        const segment = findSegmentAt(state.layout, offset);
+        if (!segment || segment.marker !== 0xee) return null;
+        const adobe = parseAdobe(state.bytes, segment);
+        if (!adobe || adobe.transformOffset < offset || adobe.transformOffset >= offset + length) return null;
+        return describeAdobeColorModel(state.bytes, state.layout, segment);
+    }
+
+    // ============================================================================================
+    /**
+     * Warn in the status bar when an edit switched the color model of an image
+     * @description Uses the main status line, which caret moves do not overwrite
+     * @param {string | null} before - The color model before the edit
+     * @param {string | null} after - The color model after the edit
+     */
+    function warnColorModelChange(before: string | null, after: string | null): void {
+        if (!before || !after || before === after) return;
+        setStatus(`Color transform changed: decoders now read every pixel as ${after} instead of ${before}.`);
+    }
+
+    // ============================================================================================
+    /**
+     * Update the segment inspector for the segment under the caret
+     * @description Hides the inspector when no file is loaded or the caret is between segments
+     */
+    function syncInspector(): void {
+        inspector.setData(state.bytes, isJpegLayout(state.layout) ? state.layout : null, state.activeOffset);
+    }
+
+    // ============================================================================================
+    /**
+     * Get the embedded MPF image chosen for the preview
+     * @description The first image is the file itself, so choosing it previews the whole file as before
+     * @returns {MpfImage | null} The chosen image, or null when previewing the whole file
+     */
+    function getPreviewImage(): MpfImage | null {
+        return previewImageIndex > 0 ? previewImages[previewImageIndex] ?? null : null;
+    }
+
+    // ============================================================================================
+    /**
+     * Refresh the embedded image picker from the MPF index
+     * @description Hidden unless the file lists more than one image; options are only rebuilt when the list changes
+     */
+    function syncPreviewImages(): void {
+        const images = state.bytes && isJpegLayout(state.layout) ? findMpf(state.bytes, state.layout)?.images ?? [] : [];
+        const key = images.map((image) => `${image.start}:${image.end}:${image.valid}:${image.typeName}`).join('|');
+        previewImages = images;
+
+        if (key !== previewImagesKey) {
+            previewImagesKey = key;
+            previewImageSelect!.innerHTML = '';
+            for (const image of images) {
+                const option = document.createElement('option');
+                option.textContent = `${describeMpfImage(image)} · ${humanSize(image.end - image.start)}`;
+                option.disabled = !image.valid;
+                previewImageSelect!.appendChild(option);
+            }
+        }
+
+        if (previewImageIndex >= images.length || !images[previewImageIndex]?.valid) {
+            previewImageIndex = 0;
+        }
+        previewImageSelect!.selectedIndex = images.length > 0 ? previewImageIndex : -1;
+        previewImagesEl!.hidden = images.length < 2;
+    }
+
+    previewImageSelect.addEventListener('change', () => {
+        previewImageIndex = Math.max(0, previewImageSelect.selectedIndex);
+        const image = previewImages[previewImageIndex];
+        syncMeta();
+        schedulePreviewUpdate();
+        if (image) {
+            setStatus(`Previewing ${describeMpfImage(image)}.`);
+        }
+    });
+
     // ============================================================================================
     /**
      * Schedule a debounced preview image regeneration
@@ -601,6 +878,7 @@ function initImageHexEditor() {
             previewScheduled = false;
             try {
                 updatePreview();
+                updateThumbnailPreview();
             } catch (err) {
                 console.error('[ImageHexEditor] Failed to update preview', err);
                 setStatus('Failed to update preview.');
@@ -626,23 +904,239 @@ function initImageHexEditor() {
         }
 
         setPreviewLoading(true);
+        const generation = ++previewGeneration;
+        previewDecodeErrors = 0;
 
-        const blob = new Blob([state.bytes], { type: 'image/jpeg' });
-        const url = URL.createObjectURL(blob);
+        // The preview depends on the layout (embedded images, TIFF pages); the view syncs again once it arrives.
+        if (state.analysisPending) return;
+
+        const image = getPreviewImage();
+        const previewBytes = image ? state.bytes.subarray(image.start, image.end) : state.bytes;
+        const blob = new Blob([previewBytes], { type: state.analyzer?.mimeType ?? 'image/jpeg' });
+        if (state.analyzer?.decodePreview) {
+            renderDecodedPreview(previewBytes, blob, generation);
+            return;
+        }
+        showPreviewBlob(blob);
+    }
 
+    // ============================================================================================
+    /**
+     * Decode the preview with the analyzer's decoder in the analysis worker and show it as a PNG
+     * @description The same bytes give the same pixels in every browser, damaged JPEG scans still
+     * render and TIFFs show at all; images the decoder does not support go to the browser
+     * @param {Uint8Array} bytes - The bytes of the image to preview
+     * @param {Blob} fallback - The image as a blob, shown as-is if the decoder cannot handle it
+     * @param {number} generation - The preview update this render belongs to
+     */
+    function renderDecodedPreview(bytes: Uint8Array, fallback: Blob, generation: number): void {
+        analysisClient.decodePreview(bytes)
+            .catch((err) => {
+                console.error('[ImageHexEditor] Failed to decode preview', err);
+                return null;
+            })
+            .then((decoded) => {
+                if (generation !== previewGeneration) return;
+                previewDecodeErrors = decoded?.errors ?? 0;
+                showDecodedPreview(decoded, fallback, generation);
+            });
+    }
+
+    // ============================================================================================
+    /**
+     * Draw decoded pixels to a canvas and show them as a PNG
+     * @description The PNG keeps zoom and the load/error handlers working like any other preview
+     * @param {DecodedImage | null} decoded - The pixels, or null if decoding failed
+     * @param {Blob} fallback - The original bytes, shown instead when there are no pixels or no canvas
+     * @param {number} generation - The preview update this render belongs to
+     */
+    function showDecodedPreview(decoded: DecodedImage | null, fallback: Blob, generation: number): void {
+        const canvas = document.createElement('canvas');
+        const ctx = decoded ? canvas.getContext('2d') : null;
+        if (!decoded || !ctx) {
+            showPreviewBlob(fallback);
+            return;
+        }
+
+        canvas.width = decoded.width;
+        canvas.height = decoded.height;
+        ctx.putImageData(new ImageData(decoded.rgba, decoded.width, decoded.height), 0, 0);
+        canvas.toBlob((blob) => {
+            if (generation !== previewGeneration) return;
+            if (blob) {
+                showPreviewBlob(blob);
+            } else {
+                previewImg!.dispatchEvent(new Event('error'));
+            }
+        }, 'image/png');
+    }
+
+    // ============================================================================================
+    /**
+     * Point the preview image at a blob, releasing the previous one
+     * @param {Blob} blob - The image to show
+     */
+    function showPreviewBlob(blob: Blob): void {
+        const url = URL.createObjectURL(blob);
         if (previewUrl) {
             URL.revokeObjectURL(previewUrl);
         }
         previewUrl = url;
+        previewImg!.alt = `${state.analyzer?.name ?? 'Image'} preview`;
         previewImg!.src = url;
     }
 
+    // ============================================================================================
+    /**
+     * Find the embedded thumbnail a file browser would show
+     * @description The EXIF IFD1 thumbnail wins over a JFIF/JFXX APP0 one
+     * @returns {{ source: string; thumbnail: JfifThumbnail } | null} The thumbnail and where it lives
+     */
+    function findPreviewThumbnail(): { source: string; thumbnail: JfifThumbnail } | null {
+        if (!state.bytes || !isJpegLayout(state.layout)) return null;
+        for (const segment of state.layout.segments) {
+            if (segment.marker !== 0xe1) continue;
+            const exif = parseExif(state.bytes, segment);
+            const found = exif ? findExifThumbnail(exif) : null;
+            if (found) {
+                return {
+                    source: 'EXIF',
+                    thumbnail: { format: 'jpeg', width: 0, height: 0, start: found.start, end: found.end, truncated: found.truncated }
+                };
+            }
+        }
+        const jfif = findJfifThumbnail(state.bytes, state.layout);
+        return jfif ? { source: 'APP0', thumbnail: jfif } : null;
+    }
+
+    // ============================================================================================
+    /**
+     * Regenerate the embedded thumbnail preview from the current bytes
+     * @description Raw RGB / palettized thumbnails are painted to a canvas, JPEG thumbnails get
+     * their own blob URL; nothing is redrawn while the thumbnail bytes are unchanged
+     */
+    function updateThumbnailPreview(): void {
+        const found = findPreviewThumbnail();
+        if (!state.bytes || !found) {
+            if (thumbUrl) {
+                URL.revokeObjectURL(thumbUrl);
+                thumbUrl = null;
+            }
+            thumbRendered = null;
+            thumbPreview!.hidden = true;
+            return;
+        }
+
+        const { source, thumbnail } = found;
+        const thumbBytes = state.bytes.subarray(thumbnail.start, thumbnail.end);
+        if (thumbRendered &&
+            thumbRendered.source === source &&
+            thumbRendered.thumbnail.format === thumbnail.format &&
+            thumbRendered.thumbnail.width === thumbnail.width &&
+            thumbRendered.thumbnail.height === thumbnail.height &&
+            thumbRendered.thumbnail.start === thumbnail.start &&
+            thumbRendered.bytes.length === thumbBytes.length &&
+            thumbRendered.bytes.every((value, i) => value === thumbBytes[i])) {
+            return;
+        }
+
+        const label = thumbnail.format === 'jpeg'
+            ? `${source} thumbnail · JPEG`
+            : `${source} thumbnail · ${thumbnail.width}×${thumbnail.height}`;
+        thumbCaption!.textContent = thumbnail.truncated ? `${label} (truncated)` : label;
+        thumbPreview!.hidden = false;
+
+        if (thumbnail.format === 'jpeg') {
+            const url = URL.createObjectURL(new Blob([thumbBytes], { type: 'image/jpeg' }));
+            if (thumbUrl) {
+                URL.revokeObjectURL(thumbUrl);
+            }
+            thumbUrl = url;
+            thumbImg!.src = url;
+            thumbImg!.hidden = false;
+            thumbCanvas!.hidden = true;
+            thumbRendered = { source, thumbnail, bytes: thumbBytes.slice() };
+            return;
+        }
+
+        const ctx = thumbCanvas!.getContext('2d');
+        if (!ctx) {
+            thumbRendered = null;
+            thumbPreview!.hidden = true;
+            return;
+        }
+        thumbCanvas!.width = thumbnail.width;
+        thumbCanvas!.height = thumbnail.height;
+        ctx.putImageData(new ImageData(decodeRawThumbnail(state.bytes, thumbnail), thumbnail.width, thumbnail.height), 0, 0);
+        thumbCanvas!.hidden = false;
+        thumbImg!.hidden = true;
+        thumbRendered = { source, thumbnail, bytes: thumbBytes.slice() };
+    }
+
+    // ============================================================================================
+    /**
+     * Encode the primary image of the file as a small JPEG for use as an EXIF thumbnail
+     * @description Decodes the current bytes rather than reading the preview, which may show another
+     * embedded (MPF) image or be waiting for an update. Uses the analyzer's decoder like the preview
+     * does, falling back to the browser. Scales to fit EXIF_THUMBNAIL_MAX_SIDE, keeping the aspect ratio.
+     * @returns {Promise<Uint8Array | null>} The JPEG bytes, or null if the image cannot be decoded
+     */
+    async function encodePreviewThumbnail(): Promise<Uint8Array | null> {
+        if (!state.bytes) return null;
+        const bytes = state.bytes;
+
+        let image: HTMLCanvasElement | ImageBitmap | null = null;
+        const decoded = state.analyzer?.decodePreview
+            ? await analysisClient.decodePreview(bytes).catch(() => null)
+            : null;
+        if (decoded) {
+            image = document.createElement('canvas');
+            image.width = decoded.width;
+            image.height = decoded.height;
+            image.getContext('2d')?.putImageData(new ImageData(decoded.rgba, decoded.width, decoded.height), 0, 0);
+        } else {
+            image = await createImageBitmap(new Blob([bytes], { type: state.analyzer?.mimeType ?? 'image/jpeg' })).catch(() => null);
+        }
+        if (!image || !image.width || !image.height) return null;
+
+        const scale = Math.min(1, EXIF_THUMBNAIL_MAX_SIDE / Math.max(image.width, image.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(image.width * scale));
+        canvas.height = Math.max(1, Math.round(image.height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+        ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+        return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+    }
+
+    thumbImg.addEventListener('error', () => {
+        thumbCaption!.textContent = `${thumbRendered?.source ?? 'Embedded'} thumbnail · unreadable`;
+    });
+
+    thumbPreview.addEventListener('click', () => {
+        if (!thumbRendered || !state.bytes) return;
+        setActiveOffset(state, thumbRendered.thumbnail.start);
+        grid.setActiveOffset(state.activeOffset, true);
+        syncToolbar();
+        syncStatusForCaret();
+        syncInspector();
+    });
+
     previewImg!.addEventListener('load', () => {
-        if (previewImg!.naturalWidth && previewImg!.naturalHeight) {
+        // The declared SOF size wins over the decoded one; it is what the bytes say.
+        const declared = describeDeclaredDimensions();
+        if (declared) {
+            metaDimensions!.textContent = declared;
+        } else if (previewImg!.naturalWidth && previewImg!.naturalHeight) {
             metaDimensions!.textContent = `${previewImg!.naturalWidth} × ${previewImg!.naturalHeight}`;
         } else {
             metaDimensions!.textContent = 'Unknown';
         }
+        if (previewDecodeErrors > 0) {
+            metaDimensions!.textContent += ` (${previewDecodeErrors} decode error${previewDecodeErrors === 1 ? '' : 's'} concealed)`;
+        }
         setPreviewLoading(false);
         // Now that we have a valid rendered image, enable the zoom control and
         // synchronize the lightbox source.
@@ -653,23 +1147,51 @@ function initImageHexEditor() {
     });
 
     previewImg!.addEventListener('error', () => {
-        metaDimensions!.textContent = 'Unreadable / corrupt JPEG';
+        const declared = describeDeclaredDimensions();
+        metaDimensions!.textContent = declared ? `${declared} (unreadable)` : `Unreadable / corrupt ${state.analyzer?.name ?? 'image'}`;
         setPreviewLoading(false);
         previewZoomBtn.disabled = true;
     });
 
+    // ============================================================================================
+    /**
+     * Start the deferred analysis of the current bytes in the worker and show its progress
+     * @description The grid stays usable (uncolored) meanwhile; the layout is applied and the view
+     * refreshed when the worker answers, unless the bytes changed in the meantime
+     */
+    function syncAnalysis(): void {
+        analysisProgressEl!.hidden = !state.analysisPending;
+        const bytes = state.bytes;
+        if (!state.analysisPending || !bytes || analysisBytes === bytes) return;
+
+        analysisBytes = bytes;
+        analysisClient.analyze(bytes)
+            .catch((err) => {
+                console.error('[ImageHexEditor] Failed to analyze file structure', err);
+                return null;
+            })
+            .then((layout) => {
+                if (analysisBytes === bytes) analysisBytes = null;
+                if (applyLayout(state, bytes, layout)) syncView();
+            });
+    }
+
     // ============================================================================================
     /**
      * Refresh entire UI with current editor state
      * @description Updates grid, toolbar, meta, status, region offsets, and schedules preview update
      */
     function syncView(): void {
-        grid.setData(state.bytes, state.layout, state.activeOffset);
+        syncAnalysis();
+        grid.setData(state.bytes, state.analyzer, state.layout, state.activeOffset);
+        syncPreviewImages();
         syncToolbar();
         syncMeta();
         syncStatusForCaret();
+        syncInspector();
         recomputeRegionOffsets();
         updateJumpMenuCounts();
+        syncProblems();
         const hasBytes = !!state.bytes && state.bytes.length > 0;
         mainEl!.hidden = !hasBytes;
         toolbarEl!.hidden = !hasBytes;
@@ -686,7 +1208,7 @@ function initImageHexEditor() {
     function handleFile(file: File): void {
         if (!file) return;
         if (!file.type || !file.type.startsWith('image/')) {
-            setStatus('Please choose an image file (preferably JPEG).');
+            setStatus('Please choose an image file.');
             return;
         }
 
@@ -720,6 +1242,7 @@ function initImageHexEditor() {
                 setStatus('Unexpected file reader result.');
                 return;
             }
+            previewImageIndex = 0;
             loadNewFile(state, result, file.name);
             console.info('[ImageHexEditor] File loaded into state', {
                 byteLength: state.bytes?.length ?? 0,
@@ -753,14 +1276,25 @@ function initImageHexEditor() {
     });
 
     // Allow clicking the rendered preview image itself to trigger zoom,
-    // mirroring the behavior of the dedicated zoom button.
-    previewImg.addEventListener('click', () => {
+    // mirroring the behavior of the dedicated zoom button. For formats that map
+    // pixels to bytes (BMP) the click moves the caret to the clicked pixel instead.
+    previewImg.addEventListener('click', (e) => {
+        const offset = findPreviewPixelOffset(e);
+        if (offset !== null) {
+            setActiveOffset(state, offset);
+            grid.setActiveOffset(state.activeOffset, true);
+            syncToolbar();
+            syncStatusForCaret();
+            syncInspector();
+            return;
+        }
         if (previewZoomBtn.disabled) {
             return;
         }
         openPreviewLightbox();
     });
 
+
     const enter = (e: DragEvent) => {
         e.preventDefault();
         e.stopPropagation();
@@ -811,9 +1345,11 @@ function initImageHexEditor() {
      * @returns {string} The download file name
      */
     function buildDownloadFileName(): string {
-        const original = state.fileName || 'image.jpg';
+        // Names without an extension get one from the MIME type of the detected format.
+        const extension = state.analyzer ? `.${state.analyzer.mimeType.split('/')[1]}` : '';
+        const original = state.fileName || `image${extension}`;
         const dot = original.lastIndexOf('.');
-        if (dot <= 0) return `${original}-modified.jpg`;
+        if (dot <= 0) return `${original}-modified${extension}`;
         const base = original.slice(0, dot);
         const ext = original.slice(dot);
         return `${base}-modified${ext}`;
@@ -826,7 +1362,7 @@ function initImageHexEditor() {
         }
 
         try {
-            const blob = new Blob([state.bytes], { type: 'image/jpeg' });
+            const blob = new Blob([state.bytes], { type: state.analyzer?.mimeType ?? 'image/jpeg' });
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
             a.href = url;
@@ -904,7 +1440,7 @@ function initImageHexEditor() {
 
     insertBtn.addEventListener('click', async () => {
         if (!state.bytes || !state.bytes.length) {
-            setStatus('Load a JPEG before using Find & Replace.');
+            setStatus('Load an image before using Find & Replace.');
             return;
         }
 
@@ -943,7 +1479,8 @@ function initImageHexEditor() {
             return;
         }
 
-        // Scope toggle: entire file vs current JPEG segment
+        // Scope toggle: entire file vs the unit under the caret (JPEG segment, PNG chunk...)
+        const unitName = state.analyzer?.unit?.name ?? 'region';
         const scopeContent = document.createElement('div');
         scopeContent.className = 'ix-scope-toggle';
 
@@ -969,16 +1506,41 @@ function initImageHexEditor() {
 
         const scopeText = document.createElement('span');
         scopeText.className = 'ix-toggle-text';
-        scopeText.textContent = 'Limit to current JPEG segment only';
+        scopeText.textContent = `Limit to current ${unitName} only`;
 
         scopeLabel.appendChild(scopeInput);
         scopeLabel.appendChild(scopeTrack);
         scopeLabel.appendChild(scopeText);
         scopeContent.appendChild(scopeLabel);
 
+        // Files with several MPF images can limit the replacement to one of them.
+        const images = state.bytes && isJpegLayout(state.layout) ? findMpf(state.bytes, state.layout)?.images ?? [] : [];
+        let imageSelect: HTMLSelectElement | null = null;
+        if (images.length > 1) {
+            const imageLabel = document.createElement('label');
+            imageLabel.className = 'ix-scope-image';
+            const imageText = document.createElement('span');
+            imageText.textContent = 'Embedded image';
+            imageSelect = document.createElement('select');
+            const all = document.createElement('option');
+            all.value = '';
+            all.textContent = 'All images';
+            imageSelect.appendChild(all);
+            images.forEach((image, i) => {
+                const option = document.createElement('option');
+                option.value = String(i);
+                option.textContent = describeMpfImage(image);
+                option.disabled = !image.valid;
+                imageSelect!.appendChild(option);
+            });
+            imageLabel.appendChild(imageText);
+            imageLabel.appendChild(imageSelect);
+            scopeContent.appendChild(imageLabel);
+        }
+
         const confirmedScope = await showConfirm({
             title: 'Replace Scope',
-            message: 'Apply replacements to the entire file or only the current segment.',
+            message: `Apply replacements to the entire file or only the current ${unitName}.`,
             contentNode: scopeContent,
             primaryLabel: 'Replace',
             secondaryLabel: 'Cancel',
@@ -990,8 +1552,9 @@ function initImageHexEditor() {
             return;
         }
 
-        const limitToSegment = scopeInput.checked;
-        const { start, end, scopeLabel: appliedScope } = getCurrentReplaceRange(limitToSegment);
+        const limitToUnit = scopeInput.checked;
+        const chosenImage = imageSelect && imageSelect.value !== '' ? images[Number(imageSelect.value)] ?? null : null;
+        const { start, end, scopeLabel: appliedScope } = getCurrentReplaceRange(limitToUnit, chosenImage);
 
         if (!state.bytes || !state.bytes.length || start >= end) {
             setStatus('Nothing to replace in the chosen scope.');
@@ -1036,7 +1599,10 @@ function initImageHexEditor() {
         setActiveOffset(state, firstMatchOffset);
         syncView();
 
-        const scopeDescription = appliedScope === 'segment' ? 'current segment' : 'entire file';
+        const scopeDescription = appliedScope === 'unit' ? `current ${unitName}`
+            : appliedScope === 'region' ? 'current region'
+            : appliedScope === 'image' && chosenImage ? `embedded image ${chosenImage.index}`
+            : 'entire file';
         setStatus(`Replaced ${positions.length} occurrence${positions.length === 1 ? '' : 's'} in the ${scopeDescription}.`);
     });
 
@@ -1045,6 +1611,70 @@ function initImageHexEditor() {
         fileInput.click();
     });
 
+    pngCrcInput.addEventListener('change', () => {
+        state.editOptions.recomputeChecksums = pngCrcInput.checked;
+    });
+
+    crcCheckBtn.addEventListener('click', () => {
+        const bytes = state.bytes;
+        const layout = state.layout;
+        if (!bytes || !isPngLayout(layout)) {
+            setStatus('Load a PNG before checking CRCs.');
+            return;
+        }
+
+        const bad = findBadCrcs(bytes, layout);
+        const truncated = layout.chunks.filter((chunk) => chunk.truncated).length;
+        const truncatedNote = truncated > 0 ? ` ${truncated} truncated chunk${truncated === 1 ? ' has' : 's have'} no CRC to check.` : '';
+        if (bad.length === 0) {
+            setStatus(`All ${layout.chunks.length - truncated} chunk CRCs are valid.${truncatedNote}`);
+            return;
+        }
+        setStatus(`${bad.length} chunk${bad.length === 1 ? ' has a' : 's have'} bad CRC${bad.length === 1 ? '' : 's'}.${truncatedNote}`);
+
+        const content = document.createElement('div');
+        content.className = 'ix-help-content';
+
+        const table = document.createElement('table');
+        table.className = 'ix-help-table';
+        const thead = document.createElement('thead');
+        const headerRow = document.createElement('tr');
+        for (const label of ['Chunk', 'CRC offset', 'Stored', 'Computed']) {
+            const th = document.createElement('th');
+            th.textContent = label;
+            headerRow.appendChild(th);
+        }
+        thead.appendChild(headerRow);
+        table.appendChild(thead);
+
+        const tbody = document.createElement('tbody');
+        const hex32 = (value: number) => value.toString(16).padStart(8, '0').toUpperCase();
+        for (const chunk of bad) {
+            const tr = document.createElement('tr');
+            const cells = [
+                chunk.type,
+                `0x${hex32(chunk.crcOffset)}`,
+                hex32(readChunkCrc(bytes, chunk)),
+                hex32(computeChunkCrc(bytes, chunk))
+            ];
+            for (const text of cells) {
+                const td = document.createElement('td');
+                td.textContent = text;
+                tr.appendChild(td);
+            }
+            tbody.appendChild(tr);
+        }
+        table.appendChild(tbody);
+        content.appendChild(table);
+
+        void showAlert({
+            title: 'Bad Chunk CRCs',
+            contentNode: content,
+            variant: 'danger',
+            primaryLabel: 'Close',
+        });
+    });
+
     helpBtn.addEventListener('click', () => {
         const content = document.createElement('div');
         content.className = 'ix-help-content';
@@ -1054,7 +1684,7 @@ function initImageHexEditor() {
         content.appendChild(intro);
 
         const intro2 = document.createElement('p');
-        intro2.textContent = 'Note: Different image viewers may show slight variations in the edited image.';
+        intro2.textContent = 'Note: JPEG previews use the editor\'s own decoder, so they look the same in every browser and damaged scans still render. Other image viewers may show slight variations in the edited image.';
         content.appendChild(intro2);
 
         const os = getOperatingSystem();
@@ -1110,11 +1740,17 @@ function initImageHexEditor() {
     });
 
     jumpBtn.addEventListener('click', () => {
+        if (state.analysisPending) {
+            setStatus('Still analyzing the file structure...');
+            return;
+        }
         if (!state.bytes || !state.layout) {
-            setStatus('Load a JPEG before using Jump To.');
+            setStatus('Load an image before using Jump To.');
             return;
         }
         updateJumpMenuCounts();
+        problemsMenuOpen = false;
+        problemsMenu.hidden = true;
         jumpMenuOpen = true;
         jumpMenu.hidden = false;
     });
@@ -1124,11 +1760,54 @@ function initImageHexEditor() {
         jumpMenu.hidden = true;
     });
 
+    problemsBtn.addEventListener('click', () => {
+        if (!state.bytes) {
+            setStatus('Load an image before checking for problems.');
+            return;
+        }
+        renderProblems();
+        jumpMenuOpen = false;
+        jumpMenu.hidden = true;
+        problemsMenuOpen = true;
+        problemsMenu.hidden = false;
+    });
+
+    problemsCloseBtn.addEventListener('click', () => {
+        problemsMenuOpen = false;
+        problemsMenu.hidden = true;
+    });
+
+    problemsRepairs.addEventListener('click', (ev) => {
+        const button = (ev.target as HTMLElement | null)?.closest<HTMLButtonElement>('button[data-repair]');
+        const plan = button ? repairPlans.get(button.dataset.repair ?? '') : undefined;
+        if (!plan) return;
+
+        applyReplace(state, plan.start, plan.end, plan.replacement);
+        syncView();
+        setEditorStatus(`${plan.summary}.`);
+    });
+
+    problemsBody.addEventListener('click', (ev) => {
+        const row = (ev.target as HTMLElement | null)?.closest<HTMLButtonElement>('button[data-offset]');
+        if (!row) return;
+
+        const offset = Number(row.dataset.offset);
+        setActiveOffset(state, offset);
+        grid.setActiveOffset(state.activeOffset, true);
+        syncToolbar();
+        syncStatusForCaret();
+        syncInspector();
+    });
+
     window.addEventListener('beforeunload', () => {
         if (previewUrl) {
             URL.revokeObjectURL(previewUrl);
             previewUrl = null;
         }
+        if (thumbUrl) {
+            URL.revokeObjectURL(thumbUrl);
+            thumbUrl = null;
+        }
     });
 
     syncView();
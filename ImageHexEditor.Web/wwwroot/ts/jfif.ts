@@ -0,0 +1,202 @@
+/**
+ * jfif.ts
+ * @fileoverview JFIF / JFXX (APP0) decoding
+ * @description Decodes the JFIF header (version, density, thumbnail size) and JFXX extension
+ * segments, and locates the embedded thumbnail, which may be raw RGB, palettized or a JPEG
+ */
+
+import { JpegLayout, JpegSegment } from './jpegStructure';
+
+// ============================================================================================
+/**
+ * An embedded APP0 thumbnail
+ * @param {'rgb' | 'palette' | 'jpeg'} format - How the pixels are stored
+ * @param {number} width - The width in pixels (0 for JPEG thumbnails, whose size is in their own SOF)
+ * @param {number} height - The height in pixels (0 for JPEG thumbnails)
+ * @param {number} start - Offset of the first thumbnail byte (the palette, for palettized thumbnails)
+ * @param {number} end - Offset one past the last thumbnail byte present in the segment
+ * @param {boolean} truncated - True when the segment ends before the declared pixel data does
+ */
+export interface JfifThumbnail {
+    format: 'rgb' | 'palette' | 'jpeg';
+    width: number;
+    height: number;
+    start: number;
+    end: number;
+    truncated: boolean;
+}
+
+// ============================================================================================
+/**
+ * A decoded JFIF or JFXX APP0 segment. Offsets are undefined for fields the segment kind does not have.
+ * @param {'JFIF' | 'JFXX'} kind - The identifier of the segment
+ * @param {number} versionOffset - Offset of the major/minor version bytes (JFIF)
+ * @param {number} unitsOffset - Offset of the density units byte (JFIF)
+ * @param {number} xDensityOffset - Offset of the 16-bit horizontal density (JFIF)
+ * @param {number} yDensityOffset - Offset of the 16-bit vertical density (JFIF)
+ * @param {number} extensionOffset - Offset of the extension code byte (JFXX)
+ * @param {number} thumbWidthOffset - Offset of the thumbnail width byte
+ * @param {number} thumbHeightOffset - Offset of the thumbnail height byte
+ * @param {JfifThumbnail | null} thumbnail - The embedded thumbnail, if any
+ */
+export interface JfifSegment {
+    kind: 'JFIF' | 'JFXX';
+    versionOffset?: number;
+    unitsOffset?: number;
+    xDensityOffset?: number;
+    yDensityOffset?: number;
+    extensionOffset?: number;
+    thumbWidthOffset?: number;
+    thumbHeightOffset?: number;
+    thumbnail: JfifThumbnail | null;
+}
+
+/** JFXX extension codes. */
+const JFXX_JPEG = 0x10;
+const JFXX_PALETTE = 0x11;
+const JFXX_RGB = 0x13;
+
+// ============================================================================================
+/**
+ * Decode a JFIF or JFXX APP0 segment
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The segment to decode
+ * @returns {JfifSegment | null} The decoded segment, or null if it is not JFIF/JFXX or is truncated
+ */
+export function parseJfif(bytes: Uint8Array, segment: JpegSegment): JfifSegment | null {
+    if (segment.marker !== 0xe0) return null;
+    const p = segment.payload.start;
+    const end = segment.payload.end;
+    const kind = readIdentifier(bytes, p, end);
+
+    if (kind === 'JFIF') {
+        if (end - p < 14) return null;
+        const width = bytes[p + 12];
+        const height = bytes[p + 13];
+        return {
+            kind,
+            versionOffset: p + 5,
+            unitsOffset: p + 7,
+            xDensityOffset: p + 8,
+            yDensityOffset: p + 10,
+            thumbWidthOffset: p + 12,
+            thumbHeightOffset: p + 13,
+            thumbnail: width && height ? sliceThumbnail('rgb', width, height, p + 14, width * height * 3, end) : null
+        };
+    }
+
+    if (kind === 'JFXX') {
+        if (end - p < 6) return null;
+        const code = bytes[p + 5];
+        if (code === JFXX_JPEG) {
+            return { kind, extensionOffset: p + 5, thumbnail: sliceThumbnail('jpeg', 0, 0, p + 6, end - p - 6, end) };
+        }
+        if ((code === JFXX_PALETTE || code === JFXX_RGB) && end - p >= 8) {
+            const width = bytes[p + 6];
+            const height = bytes[p + 7];
+            const size = code === JFXX_PALETTE ? 768 + width * height : width * height * 3;
+            return {
+                kind,
+                extensionOffset: p + 5,
+                thumbWidthOffset: p + 6,
+                thumbHeightOffset: p + 7,
+                thumbnail: width && height ? sliceThumbnail(code === JFXX_PALETTE ? 'palette' : 'rgb', width, height, p + 8, size, end) : null
+            };
+        }
+        return { kind, extensionOffset: p + 5, thumbnail: null };
+    }
+
+    return null;
+}
+
+// ============================================================================================
+/**
+ * Find the first APP0 thumbnail in a JPEG
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {JfifThumbnail | null} The thumbnail, or null if no APP0 segment carries one
+ */
+export function findJfifThumbnail(bytes: Uint8Array, layout: JpegLayout): JfifThumbnail | null {
+    for (const segment of layout.segments) {
+        if (segment.marker !== 0xe0) continue;
+        const thumbnail = parseJfif(bytes, segment)?.thumbnail;
+        if (thumbnail) return thumbnail;
+    }
+    return null;
+}
+
+// ============================================================================================
+/**
+ * Expand a raw (RGB or palettized) thumbnail to RGBA pixels. Pixels missing from a
+ * truncated segment are left transparent.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JfifThumbnail} thumbnail - The thumbnail; must not be a JPEG thumbnail
+ * @returns {Uint8ClampedArray} The RGBA pixels, width × height × 4 bytes
+ */
+export function decodeRawThumbnail(bytes: Uint8Array, thumbnail: JfifThumbnail): Uint8ClampedArray {
+    const { width, height, start, end } = thumbnail;
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    const pixels = thumbnail.format === 'palette' ? start + 768 : start;
+
+    for (let i = 0; i < width * height; i++) {
+        let at: number;
+        if (thumbnail.format === 'palette') {
+            if (pixels + i >= end) break;
+            at = start + bytes[pixels + i] * 3;
+        } else {
+            at = pixels + i * 3;
+        }
+        if (at + 3 > end) break;
+        rgba[i * 4] = bytes[at];
+        rgba[i * 4 + 1] = bytes[at + 1];
+        rgba[i * 4 + 2] = bytes[at + 2];
+        rgba[i * 4 + 3] = 0xff;
+    }
+    return rgba;
+}
+
+// ============================================================================================
+/**
+ * Describe the density units byte
+ * @param {number} units - The units byte
+ * @returns {string} The meaning
+ */
+export function describeDensityUnits(units: number): string {
+    switch (units) {
+        case 0: return 'aspect ratio only';
+        case 1: return 'dots per inch';
+        case 2: return 'dots per cm';
+        default: return 'unknown';
+    }
+}
+
+// ============================================================================================
+/**
+ * Build a thumbnail record, clipped to the bytes the segment actually holds
+ * @param {'rgb' | 'palette' | 'jpeg'} format - The pixel format
+ * @param {number} width - The width in pixels
+ * @param {number} height - The height in pixels
+ * @param {number} start - Offset of the first thumbnail byte
+ * @param {number} size - The declared size in bytes
+ * @param {number} segmentEnd - Offset one past the end of the segment payload
+ * @returns {JfifThumbnail | null} The thumbnail, or null if it has no bytes at all
+ */
+function sliceThumbnail(format: JfifThumbnail['format'], width: number, height: number, start: number, size: number, segmentEnd: number): JfifThumbnail | null {
+    if (size <= 0 || start >= segmentEnd) return null;
+    const end = Math.min(start + size, segmentEnd);
+    return { format, width, height, start, end, truncated: start + size > segmentEnd };
+}
+
+// ============================================================================================
+/**
+ * Read the NUL-terminated identifier at the start of an APP0 payload
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} start - Offset of the payload
+ * @param {number} end - Offset one past the payload
+ * @returns {string | null} 'JFIF', 'JFXX', or null for anything else
+ */
+function readIdentifier(bytes: Uint8Array, start: number, end: number): 'JFIF' | 'JFXX' | null {
+    if (end - start < 5 || bytes[start + 4] !== 0x00) return null;
+    const id = String.fromCharCode(bytes[start], bytes[start + 1], bytes[start + 2], bytes[start + 3]);
+    return id === 'JFIF' || id === 'JFXX' ? id : null;
+}
@@ -0,0 +1,879 @@
+/**
+ * jpegDecoder.ts
+ * @fileoverview Baseline and progressive JPEG decoder for the preview
+ * @description Decodes Huffman-coded 8-bit JPEGs (SOF0, SOF1, SOF2) to RGBA pixels for a canvas, so
+ * the preview shows the same pixels in every browser. Only integer arithmetic is used (the libjpeg
+ * "islow" IDCT, fixed-point color conversion, pixel-replicating upsampling), so the output does
+ * not depend on the JavaScript engine. Damage is worked around instead of failing: a bad Huffman
+ * code decodes as zero, data cut short by a marker reads as zero bits, and each restart marker
+ * resynchronizes the decoder. Other frame types return null for the browser to try.
+ */
+
+import { parseAdobe } from './adobe';
+import { FrameHeader, isSofMarker, JpegLayout, parseFrameHeader, parseScanHeader, ScanHeader } from './jpegStructure';
+import { HuffmanTableSpec, parseDht, parseDqt, STANDARD_HUFFMAN_TABLES, ZIGZAG } from './jpegTables';
+
+/** Largest image decoded for the preview (keeps the coefficient and pixel buffers within a few hundred MB). */
+const MAX_DECODED_PIXELS = 16 * 1024 * 1024;
+
+/** Codes up to this many bits are decoded with a single table lookup. */
+const LOOKUP_BITS = 9;
+
+/** Fixed-point precision of the IDCT (libjpeg jidctint.c). */
+const CONST_BITS = 13;
+const PASS1_BITS = 2;
+
+const FIX_0_298631336 = 2446;
+const FIX_0_390180644 = 3196;
+const FIX_0_541196100 = 4433;
+const FIX_0_765366865 = 6270;
+const FIX_0_899976223 = 7373;
+const FIX_1_175875602 = 9633;
+const FIX_1_501321110 = 12299;
+const FIX_1_847759065 = 15137;
+const FIX_1_961570560 = 16069;
+const FIX_2_053119869 = 16819;
+const FIX_2_562915447 = 20995;
+const FIX_3_072711026 = 25172;
+
+/** Fixed-point YCbCr to RGB factors (16 fractional bits, libjpeg jdcolor.c). */
+const SCALE_BITS = 16;
+const ONE_HALF = 1 << (SCALE_BITS - 1);
+const CR_R = Math.round(1.402 * (1 << SCALE_BITS));
+const CB_G = Math.round(0.34414 * (1 << SCALE_BITS));
+const CR_G = Math.round(0.71414 * (1 << SCALE_BITS));
+const CB_B = Math.round(1.772 * (1 << SCALE_BITS));
+
+// ============================================================================================
+/**
+ * Decoded pixels ready for a canvas
+ * @param {number} width - The width in pixels
+ * @param {number} height - The height in pixels
+ * @param {Uint8ClampedArray} rgba - The pixels, four bytes per pixel
+ * @param {number} errors - The number of problems in the entropy-coded data that were worked around
+ */
+export interface DecodedJpegImage {
+    width: number;
+    height: number;
+    rgba: Uint8ClampedArray;
+    errors: number;
+}
+
+// ============================================================================================
+/**
+ * A Huffman table prepared for decoding (ITU T.81 Annex F.2.2.3)
+ * @param {Uint16Array} lookup - For each LOOKUP_BITS-bit prefix, (code length << 8) | symbol, or 0 for longer codes
+ * @param {Int32Array} maxCode - The largest code of each length (-1 for none)
+ * @param {Int32Array} valueOffset - The index in symbols minus the first code of each length
+ * @param {Uint8Array} symbols - The symbols in code order
+ */
+interface HuffmanDecoder {
+    lookup: Uint16Array;
+    maxCode: Int32Array;
+    valueOffset: Int32Array;
+    symbols: Uint8Array;
+}
+
+// ============================================================================================
+/**
+ * Reads the bits of a scan's entropy-coded data. Stuffed zero bytes are skipped; at a marker or
+ * the end of the data the reader supplies zero bits instead.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} pos - The next byte to read
+ * @param {number} end - One past the last byte of the scan data
+ * @param {number} buffer - The buffered bits (the low `bits` bits)
+ * @param {number} bits - The number of buffered bits
+ * @param {number} padding - How many of the buffered bits are supplied zeros rather than data
+ */
+interface BitReader {
+    bytes: Uint8Array;
+    pos: number;
+    end: number;
+    buffer: number;
+    bits: number;
+    padding: number;
+}
+
+// ============================================================================================
+/**
+ * A frame component being decoded
+ * @param {number} id - The component identifier
+ * @param {number} h - The horizontal sampling factor
+ * @param {number} v - The vertical sampling factor
+ * @param {number} quantId - The quantization table selector
+ * @param {number[] | null} quant - The quantization table (natural order), fixed by the component's first scan
+ * @param {number} blocksPerLine - Blocks per row, padded to whole MCUs
+ * @param {number} blocksPerColumn - Block rows, padded to whole MCUs
+ * @param {Int16Array} coefficients - The DCT coefficients, 64 per block in natural order
+ * @param {number} pred - The DC predictor
+ */
+interface ComponentState {
+    id: number;
+    h: number;
+    v: number;
+    quantId: number;
+    quant: number[] | null;
+    blocksPerLine: number;
+    blocksPerColumn: number;
+    coefficients: Int16Array;
+    pred: number;
+}
+
+// ============================================================================================
+/**
+ * A component taking part in a scan, with the Huffman tables it uses
+ * @param {ComponentState} component - The component
+ * @param {HuffmanDecoder | null} dc - The DC table (null when the scan codes no DC)
+ * @param {HuffmanDecoder | null} ac - The AC table (null when the scan codes no AC)
+ */
+interface ScanComponentState {
+    component: ComponentState;
+    dc: HuffmanDecoder | null;
+    ac: HuffmanDecoder | null;
+}
+
+// ============================================================================================
+/**
+ * The state of the scan being decoded
+ * @param {BitReader} reader - The bit reader over the scan data
+ * @param {number} spectralStart - The first coefficient (zigzag index) coded by the scan
+ * @param {number} spectralEnd - The last coefficient coded by the scan
+ * @param {number} approxHigh - The bit position of the previous pass (0 on the first pass)
+ * @param {number} approxLow - The bit position of this pass
+ * @param {number} eobRun - The number of blocks left in the current end-of-band run
+ * @param {number} errors - The number of problems worked around so far
+ */
+interface ScanState {
+    reader: BitReader;
+    spectralStart: number;
+    spectralEnd: number;
+    approxHigh: number;
+    approxLow: number;
+    eobRun: number;
+    errors: number;
+}
+
+/** Decodes one block of a scan into the coefficients at an offset. */
+type BlockDecoder = (scan: ScanState, part: ScanComponentState, offset: number) => void;
+
+// ============================================================================================
+/**
+ * Check whether the decoder supports a frame
+ * @param {FrameHeader} frame - The frame header
+ * @returns {boolean} True for 8-bit baseline, extended or progressive Huffman frames of a size the preview can hold
+ */
+export function canDecodeJpegFrame(frame: FrameHeader): boolean {
+    if (frame.marker !== 0xc0 && frame.marker !== 0xc1 && frame.marker !== 0xc2) return false;
+    if (frame.precision !== 8 || frame.components.length === 0) return false;
+    if (frame.width === 0 || frame.height === 0 || frame.width * frame.height > MAX_DECODED_PIXELS) return false;
+    return frame.components.every((component) => component.horizontal >= 1 && component.horizontal <= 4 && component.vertical >= 1 && component.vertical <= 4);
+}
+
+// ============================================================================================
+/**
+ * Decode the first image of a JPEG to RGBA pixels. Tables are applied in file order, so scans
+ * use the tables defined before them; a missing Huffman table falls back to the standard one.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {DecodedJpegImage | null} The pixels, or null if the image has no supported frame
+ */
+export function decodeJpegImage(bytes: Uint8Array, layout: JpegLayout): DecodedJpegImage | null {
+    const quantTables: (number[] | undefined)[] = [];
+    const huffmanTables = new Map<string, HuffmanDecoder>();
+    let frame: FrameHeader | null = null;
+    let components: ComponentState[] = [];
+    let adobeTransform: number | null = null;
+    let restartInterval = 0;
+    let errors = 0;
+    let hmax = 1;
+    let vmax = 1;
+
+    for (const segment of layout.segments) {
+        const marker = segment.marker;
+        if (marker === 0xd9 && frame) break;
+
+        if (marker === 0xdb) {
+            for (const table of parseDqt(bytes, segment)) quantTables[table.id & 3] = table.values;
+        } else if (marker === 0xc4) {
+            for (const table of parseDht(bytes, segment)) {
+                huffmanTables.set(`${table.tableClass}${table.id & 3}`, buildHuffmanDecoder(table));
+            }
+        } else if (marker === 0xdd) {
+            restartInterval = typeof segment.fields.restartInterval === 'number' ? segment.fields.restartInterval : 0;
+        } else if (marker === 0xee) {
+            adobeTransform = parseAdobe(bytes, segment)?.transform ?? adobeTransform;
+        } else if (isSofMarker(marker) && !frame) {
+            frame = parseFrameHeader(bytes, segment);
+            if (!frame || !canDecodeJpegFrame(frame)) return null;
+
+            hmax = Math.max(...frame.components.map((component) => component.horizontal));
+            vmax = Math.max(...frame.components.map((component) => component.vertical));
+            const mcusX = Math.ceil(frame.width / (8 * hmax));
+            const mcusY = Math.ceil(frame.height / (8 * vmax));
+            components = frame.components.map((component) => {
+                const blocksPerLine = mcusX * component.horizontal;
+                const blocksPerColumn = mcusY * component.vertical;
+                return {
+                    id: component.id,
+                    h: component.horizontal,
+                    v: component.vertical,
+                    quantId: component.quantTable & 3,
+                    quant: null,
+                    blocksPerLine,
+                    blocksPerColumn,
+                    coefficients: new Int16Array(blocksPerLine * blocksPerColumn * 64),
+                    pred: 0
+                };
+            });
+        } else if (marker === 0xda && frame && segment.data) {
+            const header = parseScanHeader(bytes, segment);
+            if (!header) {
+                errors++;
+                continue;
+            }
+            const parts = resolveScanComponents(header, components, huffmanTables, frame.marker === 0xc2);
+            if (!parts) {
+                errors++;
+                continue;
+            }
+            for (const part of parts) {
+                part.component.quant ??= quantTables[part.component.quantId] ?? null;
+            }
+            errors += decodeScan(bytes, segment.data.start, segment.data.end, frame, hmax, vmax, header, parts, restartInterval);
+        }
+    }
+    if (!frame) return null;
+
+    const planes = components.map((component) => {
+        if (!component.quant) errors++;
+        return renderComponent(component, component.quant ?? quantTables[component.quantId] ?? null);
+    });
+    return {
+        width: frame.width,
+        height: frame.height,
+        rgba: convertToRgba(frame, components, planes, hmax, vmax, adobeTransform),
+        errors
+    };
+}
+
+// ============================================================================================
+/**
+ * Match the components of a scan to the frame and pick their Huffman tables
+ * @param {ScanHeader} header - The scan header
+ * @param {ComponentState[]} components - The frame components
+ * @param {Map<string, HuffmanDecoder>} huffmanTables - The tables defined so far, by 'DC0', 'AC1', ...
+ * @param {boolean} progressive - True for progressive frames, whose scans code either DC or AC
+ * @returns {ScanComponentState[] | null} The scan components, or null if the scan cannot be decoded
+ */
+function resolveScanComponents(header: ScanHeader, components: ComponentState[], huffmanTables: Map<string, HuffmanDecoder>, progressive: boolean): ScanComponentState[] | null {
+    const usesDc = !progressive || (header.spectralStart === 0 && header.approxHigh === 0);
+    const usesAc = !progressive || header.spectralStart > 0;
+    if (progressive && header.spectralStart > 0 && header.components.length !== 1) return null;
+
+    const parts: ScanComponentState[] = [];
+    for (const selector of header.components) {
+        const component = components.find((candidate) => candidate.id === selector.selector);
+        if (!component) return null;
+        const dc = usesDc ? findHuffmanDecoder(huffmanTables, 'DC', selector.dcTable) : null;
+        const ac = usesAc ? findHuffmanDecoder(huffmanTables, 'AC', selector.acTable) : null;
+        if ((usesDc && !dc) || (usesAc && !ac)) return null;
+        parts.push({ component, dc, ac });
+    }
+    return parts.length > 0 ? parts : null;
+}
+
+// ============================================================================================
+/**
+ * Find a Huffman table, falling back to the standard table of the same class and id (Motion-JPEG
+ * frames define none)
+ * @param {Map<string, HuffmanDecoder>} huffmanTables - The tables defined so far
+ * @param {'DC' | 'AC'} tableClass - The table class
+ * @param {number} id - The table id
+ * @returns {HuffmanDecoder | null} The table, or null if neither is available
+ */
+function findHuffmanDecoder(huffmanTables: Map<string, HuffmanDecoder>, tableClass: 'DC' | 'AC', id: number): HuffmanDecoder | null {
+    const defined = huffmanTables.get(`${tableClass}${id & 3}`);
+    if (defined) return defined;
+    const standard = STANDARD_HUFFMAN_TABLES.find((table) => table.tableClass === tableClass && table.id === id);
+    return standard ? buildHuffmanDecoder(standard) : null;
+}
+
+// ============================================================================================
+/**
+ * Prepare a Huffman table for decoding
+ * @param {HuffmanTableSpec} table - The code counts and symbols
+ * @returns {HuffmanDecoder} The decoder
+ */
+function buildHuffmanDecoder(table: HuffmanTableSpec): HuffmanDecoder {
+    const lookup = new Uint16Array(1 << LOOKUP_BITS);
+    const maxCode = new Int32Array(18).fill(-1);
+    const valueOffset = new Int32Array(18);
+    const symbols = Uint8Array.from(table.symbols);
+
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+        valueOffset[length] = k - code;
+        for (let i = 0; i < table.counts[length - 1] && k < symbols.length; i++, k++, code++) {
+            if (length > LOOKUP_BITS) continue;
+            const shift = LOOKUP_BITS - length;
+            const first = code << shift;
+            // Over-subscribed tables run past the last prefix; those codes can never be read.
+            if (first >= lookup.length) continue;
+            lookup.fill((length << 8) | symbols[k], first, Math.min(lookup.length, first + (1 << shift)));
+        }
+        if (table.counts[length - 1] > 0) maxCode[length] = code - 1;
+        code <<= 1;
+    }
+    return { lookup, maxCode, valueOffset, symbols };
+}
+
+// ============================================================================================
+/**
+ * Decode one scan into the coefficients of its components
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} start - The first byte of the scan data
+ * @param {number} end - One past the last byte of the scan data (restart markers included)
+ * @param {FrameHeader} frame - The frame header
+ * @param {number} hmax - The largest horizontal sampling factor
+ * @param {number} vmax - The largest vertical sampling factor
+ * @param {ScanHeader} header - The scan header
+ * @param {ScanComponentState[]} parts - The components of the scan
+ * @param {number} restartInterval - The number of MCUs between restart markers (0 for none)
+ * @returns {number} The number of problems worked around
+ */
+function decodeScan(bytes: Uint8Array, start: number, end: number, frame: FrameHeader, hmax: number, vmax: number, header: ScanHeader, parts: ScanComponentState[], restartInterval: number): number {
+    const scan: ScanState = {
+        reader: { bytes, pos: start, end, buffer: 0, bits: 0, padding: 0 },
+        spectralStart: header.spectralStart,
+        spectralEnd: Math.min(header.spectralEnd, 63),
+        approxHigh: header.approxHigh,
+        approxLow: header.approxLow,
+        eobRun: 0,
+        errors: 0
+    };
+    const decodeBlock = pickBlockDecoder(frame.marker === 0xc2, header);
+    for (const part of parts) part.component.pred = 0;
+
+    // A single-component scan codes only the blocks inside the image, one block per MCU.
+    const single = parts.length === 1;
+    const first = parts[0].component;
+    const blocksWide = single ? Math.ceil(Math.ceil(frame.width * first.h / hmax) / 8) : first.blocksPerLine / first.h;
+    const blocksHigh = single ? Math.ceil(Math.ceil(frame.height * first.v / vmax) / 8) : first.blocksPerColumn / first.v;
+    const total = blocksWide * blocksHigh;
+
+    for (let mcu = 0; mcu < total; mcu++) {
+        if (restartInterval > 0 && mcu > 0 && mcu % restartInterval === 0) {
+            restart(scan);
+            for (const part of parts) part.component.pred = 0;
+        }
+
+        const row = Math.floor(mcu / blocksWide);
+        const col = mcu % blocksWide;
+        if (single) {
+            decodeBlock(scan, parts[0], (row * first.blocksPerLine + col) * 64);
+            continue;
+        }
+        for (const part of parts) {
+            const component = part.component;
+            for (let y = 0; y < component.v; y++) {
+                for (let x = 0; x < component.h; x++) {
+                    const blockRow = row * component.v + y;
+                    const blockCol = col * component.h + x;
+                    decodeBlock(scan, part, (blockRow * component.blocksPerLine + blockCol) * 64);
+                }
+            }
+        }
+    }
+    if (scan.reader.padding > scan.reader.bits) scan.errors++;
+    return scan.errors;
+}
+
+// ============================================================================================
+/**
+ * Move past the restart marker that ends a restart interval and reset the bit reader
+ * @param {ScanState} scan - The scan state
+ */
+function restart(scan: ScanState): void {
+    const reader = scan.reader;
+    // Supplied zeros were read when the interval's data ran out before its last MCU.
+    if (reader.padding > reader.bits) scan.errors++;
+    reader.buffer = 0;
+    reader.bits = 0;
+    reader.padding = 0;
+    scan.eobRun = 0;
+
+    const { bytes, end } = reader;
+    const from = reader.pos;
+    while (reader.pos + 1 < end) {
+        const next = bytes[reader.pos + 1];
+        if (bytes[reader.pos] === 0xff && next >= 0xd0 && next <= 0xd7) {
+            if (reader.pos > from) scan.errors++;
+            reader.pos += 2;
+            return;
+        }
+        // Any other marker ends the scan; keep reading zeros from here.
+        if (bytes[reader.pos] === 0xff && next !== 0x00 && next !== 0xff) return;
+        reader.pos++;
+    }
+    scan.errors++;
+}
+
+// ============================================================================================
+/**
+ * Pick the block decoder for a scan
+ * @param {boolean} progressive - True for progressive frames
+ * @param {ScanHeader} header - The scan header
+ * @returns {BlockDecoder} The decoder
+ */
+function pickBlockDecoder(progressive: boolean, header: ScanHeader): BlockDecoder {
+    if (!progressive) return decodeBaselineBlock;
+    if (header.spectralStart === 0) return header.approxHigh === 0 ? decodeDcFirst : decodeDcRefine;
+    return header.approxHigh === 0 ? decodeAcFirst : decodeAcRefine;
+}
+
+// ============================================================================================
+/**
+ * Decode a sequential block: the DC difference and all 63 AC coefficients
+ * @param {ScanState} scan - The scan state
+ * @param {ScanComponentState} part - The component and its tables
+ * @param {number} offset - The offset of the block's coefficients
+ */
+function decodeBaselineBlock(scan: ScanState, part: ScanComponentState, offset: number): void {
+    const component = part.component;
+    const coefficients = component.coefficients;
+    const size = decodeHuffman(scan, part.dc!);
+    component.pred += receiveExtend(scan.reader, size);
+    coefficients[offset] = component.pred;
+
+    for (let k = 1; k < 64; k++) {
+        const symbol = decodeHuffman(scan, part.ac!);
+        const run = symbol >> 4;
+        const bits = symbol & 0x0f;
+        if (bits === 0) {
+            if (run < 15) break;
+            k += 15;
+            continue;
+        }
+        k += run;
+        if (k > 63) {
+            scan.errors++;
+            break;
+        }
+        coefficients[offset + ZIGZAG[k]] = receiveExtend(scan.reader, bits);
+    }
+}
+
+// ============================================================================================
+/**
+ * Decode the first pass of a progressive DC scan
+ * @param {ScanState} scan - The scan state
+ * @param {ScanComponentState} part - The component and its tables
+ * @param {number} offset - The offset of the block's coefficients
+ */
+function decodeDcFirst(scan: ScanState, part: ScanComponentState, offset: number): void {
+    const component = part.component;
+    const size = decodeHuffman(scan, part.dc!);
+    component.pred += receiveExtend(scan.reader, size);
+    component.coefficients[offset] = component.pred * (1 << scan.approxLow);
+}
+
+// ============================================================================================
+/**
+ * Decode a refinement pass of a progressive DC scan (one bit per block)
+ * @param {ScanState} scan - The scan state
+ * @param {ScanComponentState} part - The component and its tables
+ * @param {number} offset - The offset of the block's coefficients
+ */
+function decodeDcRefine(scan: ScanState, part: ScanComponentState, offset: number): void {
+    if (readBits(scan.reader, 1)) part.component.coefficients[offset] |= 1 << scan.approxLow;
+}
+
+// ============================================================================================
+/**
+ * Decode the first pass of a progressive AC scan
+ * @param {ScanState} scan - The scan state
+ * @param {ScanComponentState} part - The component and its tables
+ * @param {number} offset - The offset of the block's coefficients
+ */
+function decodeAcFirst(scan: ScanState, part: ScanComponentState, offset: number): void {
+    if (scan.eobRun > 0) {
+        scan.eobRun--;
+        return;
+    }
+
+    const coefficients = part.component.coefficients;
+    for (let k = scan.spectralStart; k <= scan.spectralEnd; k++) {
+        const symbol = decodeHuffman(scan, part.ac!);
+        const run = symbol >> 4;
+        const bits = symbol & 0x0f;
+        if (bits === 0) {
+            if (run < 15) {
+                scan.eobRun = (1 << run) - 1 + readBits(scan.reader, run);
+                break;
+            }
+            k += 15;
+            continue;
+        }
+        k += run;
+        if (k > scan.spectralEnd) {
+            scan.errors++;
+            break;
+        }
+        coefficients[offset + ZIGZAG[k]] = receiveExtend(scan.reader, bits) * (1 << scan.approxLow);
+    }
+}
+
+// ============================================================================================
+/**
+ * Decode a refinement pass of a progressive AC scan: one more bit for every coefficient that is
+ * already nonzero, and new coefficients of magnitude 1 (libjpeg jdphuff.c)
+ * @param {ScanState} scan - The scan state
+ * @param {ScanComponentState} part - The component and its tables
+ * @param {number} offset - The offset of the block's coefficients
+ */
+function decodeAcRefine(scan: ScanState, part: ScanComponentState, offset: number): void {
+    const reader = scan.reader;
+    const coefficients = part.component.coefficients;
+    const positive = 1 << scan.approxLow;
+    const negative = -1 << scan.approxLow;
+    const end = scan.spectralEnd;
+    let k = scan.spectralStart;
+
+    // Add a correction bit to a nonzero coefficient that does not have it yet.
+    const refine = (index: number): void => {
+        const value = coefficients[index];
+        if (readBits(reader, 1) && (value & positive) === 0) {
+            coefficients[index] = value >= 0 ? value + positive : value + negative;
+        }
+    };
+
+    if (scan.eobRun === 0) {
+        for (; k <= end; k++) {
+            const symbol = decodeHuffman(scan, part.ac!);
+            let run = symbol >> 4;
+            const bits = symbol & 0x0f;
+            let value = 0;
+            if (bits !== 0) {
+                if (bits !== 1) scan.errors++;
+                value = readBits(reader, 1) ? positive : negative;
+            } else if (run !== 15) {
+                scan.eobRun = (1 << run) + readBits(reader, run);
+                break;
+            }
+
+            // Skip `run` zero coefficients (refining the nonzero ones on the way), then place the new one.
+            for (; k <= end; k++) {
+                const index = offset + ZIGZAG[k];
+                if (coefficients[index] !== 0) {
+                    refine(index);
+                } else if (--run < 0) {
+                    break;
+                }
+            }
+            if (value !== 0 && k <= end) coefficients[offset + ZIGZAG[k]] = value;
+        }
+    }
+
+    if (scan.eobRun > 0) {
+        for (; k <= end; k++) {
+            const index = offset + ZIGZAG[k];
+            if (coefficients[index] !== 0) refine(index);
+        }
+        scan.eobRun--;
+    }
+}
+
+// ============================================================================================
+/**
+ * Decode one Huffman-coded symbol. A code the table does not define counts as an error and
+ * decodes as 0 (an end of block, or a DC difference of 0), after skipping 16 bits as libjpeg does.
+ * @param {ScanState} scan - The scan state
+ * @param {HuffmanDecoder} table - The table
+ * @returns {number} The symbol
+ */
+function decodeHuffman(scan: ScanState, table: HuffmanDecoder): number {
+    const reader = scan.reader;
+    fillBits(reader);
+    const entry = table.lookup[(reader.buffer >>> (reader.bits - LOOKUP_BITS)) & ((1 << LOOKUP_BITS) - 1)];
+    if (entry !== 0) {
+        reader.bits -= entry >> 8;
+        return entry & 0xff;
+    }
+
+    for (let length = LOOKUP_BITS + 1; length <= 16; length++) {
+        const code = (reader.buffer >>> (reader.bits - length)) & ((1 << length) - 1);
+        if (code <= table.maxCode[length]) {
+            reader.bits -= length;
+            return table.symbols[table.valueOffset[length] + code] ?? 0;
+        }
+    }
+    reader.bits -= 16;
+    scan.errors++;
+    return 0;
+}
+
+// ============================================================================================
+/**
+ * Read a value of `size` bits and sign-extend it (ITU T.81 F.2.2.1)
+ * @param {BitReader} reader - The bit reader
+ * @param {number} size - The number of bits (0–16)
+ * @returns {number} The value
+ */
+function receiveExtend(reader: BitReader, size: number): number {
+    if (size === 0) return 0;
+    const bits = Math.min(size, 16);
+    const value = readBits(reader, bits);
+    return value < 1 << (bits - 1) ? value - (1 << bits) + 1 : value;
+}
+
+// ============================================================================================
+/**
+ * Read up to 16 bits
+ * @param {BitReader} reader - The bit reader
+ * @param {number} count - The number of bits
+ * @returns {number} The bits as an unsigned number
+ */
+function readBits(reader: BitReader, count: number): number {
+    if (count === 0) return 0;
+    fillBits(reader);
+    reader.bits -= count;
+    return (reader.buffer >>> reader.bits) & ((1 << count) - 1);
+}
+
+// ============================================================================================
+/**
+ * Buffer at least 17 bits, skipping stuffed zero bytes and supplying zeros at a marker or the
+ * end of the data
+ * @param {BitReader} reader - The bit reader
+ */
+function fillBits(reader: BitReader): void {
+    const bytes = reader.bytes;
+    while (reader.bits <= 16) {
+        let value = 0;
+        if (reader.padding > 0 || reader.pos >= reader.end) {
+            reader.padding += 8;
+        } else if (bytes[reader.pos] !== 0xff) {
+            value = bytes[reader.pos++];
+        } else {
+            const next = reader.pos + 1 < reader.end ? bytes[reader.pos + 1] : -1;
+            if (next === 0x00) {
+                value = 0xff;
+                reader.pos += 2;
+            } else if (next === 0xff) {
+                // A fill byte before a marker; look again at the next one.
+                reader.pos++;
+                continue;
+            } else {
+                reader.padding += 8;
+            }
+        }
+        reader.buffer = ((reader.buffer << 8) | value) & 0xffffff;
+        reader.bits += 8;
+    }
+}
+
+// ============================================================================================
+/**
+ * Dequantize and inverse-transform every block of a component into 8-bit samples
+ * @param {ComponentState} component - The component
+ * @param {number[] | null} quant - The quantization table (null to use the coefficients unscaled)
+ * @returns {Uint8Array} The samples, blocksPerLine * 8 per row
+ */
+function renderComponent(component: ComponentState, quant: number[] | null): Uint8Array {
+    const lineWidth = component.blocksPerLine * 8;
+    const plane = new Uint8Array(lineWidth * component.blocksPerColumn * 8);
+    const table = Int32Array.from(quant ?? new Array<number>(64).fill(1));
+    const workspace = new Int32Array(64);
+
+    for (let row = 0; row < component.blocksPerColumn; row++) {
+        for (let col = 0; col < component.blocksPerLine; col++) {
+            const offset = (row * component.blocksPerLine + col) * 64;
+            idctBlock(component.coefficients, offset, table, workspace, plane, row * 8 * lineWidth + col * 8, lineWidth);
+        }
+    }
+    return plane;
+}
+
+// ============================================================================================
+/**
+ * Dequantize and inverse-transform one block with the integer "islow" IDCT of libjpeg
+ * (jidctint.c), writing level-shifted, clamped samples
+ * @param {Int16Array} coefficients - The coefficients
+ * @param {number} offset - The offset of the block's coefficients
+ * @param {Int32Array} quant - The quantization table (natural order)
+ * @param {Int32Array} workspace - 64 entries of scratch space
+ * @param {Uint8Array} out - The sample plane
+ * @param {number} outOffset - The offset of the block's top-left sample
+ * @param {number} stride - The samples per row of the plane
+ */
+function idctBlock(coefficients: Int16Array, offset: number, quant: Int32Array, workspace: Int32Array, out: Uint8Array, outOffset: number, stride: number): void {
+    // Pass 1: columns, scaled up by PASS1_BITS.
+    for (let c = 0; c < 8; c++) {
+        const input = (row: number): number => coefficients[offset + row * 8 + c] * quant[row * 8 + c];
+        if (coefficients[offset + 8 + c] === 0 && coefficients[offset + 16 + c] === 0 && coefficients[offset + 24 + c] === 0
+            && coefficients[offset + 32 + c] === 0 && coefficients[offset + 40 + c] === 0 && coefficients[offset + 48 + c] === 0
+            && coefficients[offset + 56 + c] === 0) {
+            const dc = input(0) * (1 << PASS1_BITS);
+            for (let row = 0; row < 8; row++) workspace[row * 8 + c] = dc;
+            continue;
+        }
+
+        const result = idct1d(input(0), input(1), input(2), input(3), input(4), input(5), input(6), input(7), CONST_BITS - PASS1_BITS);
+        for (let row = 0; row < 8; row++) workspace[row * 8 + c] = result[row];
+    }
+
+    // Pass 2: rows, removing the PASS1_BITS scaling and the factor of 8, then level-shifting.
+    for (let row = 0; row < 8; row++) {
+        const w = row * 8;
+        const result = idct1d(workspace[w], workspace[w + 1], workspace[w + 2], workspace[w + 3],
+            workspace[w + 4], workspace[w + 5], workspace[w + 6], workspace[w + 7], CONST_BITS + PASS1_BITS + 3);
+        const base = outOffset + row * stride;
+        for (let col = 0; col < 8; col++) {
+            const sample = result[col] + 128;
+            out[base + col] = sample < 0 ? 0 : sample > 255 ? 255 : sample;
+        }
+    }
+}
+
+/** Output of idct1d, reused between calls. */
+const idctResult = new Int32Array(8);
+
+// ============================================================================================
+/**
+ * One-dimensional 8-point IDCT (the even/odd decomposition of jidctint.c)
+ * @param {number} in0 - Input 0 ... (in0–in7 are the eight inputs)
+ * @param {number} in1 - Input 1
+ * @param {number} in2 - Input 2
+ * @param {number} in3 - Input 3
+ * @param {number} in4 - Input 4
+ * @param {number} in5 - Input 5
+ * @param {number} in6 - Input 6
+ * @param {number} in7 - Input 7
+ * @param {number} shift - The descaling shift applied to the outputs
+ * @returns {Int32Array} The eight outputs (shared; copy before the next call)
+ */
+function idct1d(in0: number, in1: number, in2: number, in3: number, in4: number, in5: number, in6: number, in7: number, shift: number): Int32Array {
+    // Even part.
+    let z1 = (in2 + in6) * FIX_0_541196100;
+    const even2 = z1 - in6 * FIX_1_847759065;
+    const even3 = z1 + in2 * FIX_0_765366865;
+    const even0 = (in0 + in4) * (1 << CONST_BITS);
+    const even1 = (in0 - in4) * (1 << CONST_BITS);
+
+    const tmp10 = even0 + even3;
+    const tmp13 = even0 - even3;
+    const tmp11 = even1 + even2;
+    const tmp12 = even1 - even2;
+
+    // Odd part.
+    z1 = in7 + in1;
+    let z2 = in5 + in3;
+    let z3 = in7 + in3;
+    let z4 = in5 + in1;
+    const z5 = (z3 + z4) * FIX_1_175875602;
+
+    let odd0 = in7 * FIX_0_298631336;
+    let odd1 = in5 * FIX_2_053119869;
+    let odd2 = in3 * FIX_3_072711026;
+    let odd3 = in1 * FIX_1_501321110;
+    z1 *= -FIX_0_899976223;
+    z2 *= -FIX_2_562915447;
+    z3 = z3 * -FIX_1_961570560 + z5;
+    z4 = z4 * -FIX_0_390180644 + z5;
+
+    odd0 += z1 + z3;
+    odd1 += z2 + z4;
+    odd2 += z2 + z3;
+    odd3 += z1 + z4;
+
+    const round = 2 ** (shift - 1);
+    const scale = 2 ** shift;
+    idctResult[0] = Math.floor((tmp10 + odd3 + round) / scale);
+    idctResult[7] = Math.floor((tmp10 - odd3 + round) / scale);
+    idctResult[1] = Math.floor((tmp11 + odd2 + round) / scale);
+    idctResult[6] = Math.floor((tmp11 - odd2 + round) / scale);
+    idctResult[2] = Math.floor((tmp12 + odd1 + round) / scale);
+    idctResult[5] = Math.floor((tmp12 - odd1 + round) / scale);
+    idctResult[3] = Math.floor((tmp13 + odd0 + round) / scale);
+    idctResult[4] = Math.floor((tmp13 - odd0 + round) / scale);
+    return idctResult;
+}
+
+// ============================================================================================
+/**
+ * Upsample the component planes and convert them to RGBA. Three components are YCbCr unless an
+ * Adobe segment says RGB; four are CMYK (inverted when an Adobe segment is present, as Photoshop
+ * writes them) or YCCK.
+ * @param {FrameHeader} frame - The frame header
+ * @param {ComponentState[]} components - The components
+ * @param {Uint8Array[]} planes - The sample plane of each component
+ * @param {number} hmax - The largest horizontal sampling factor
+ * @param {number} vmax - The largest vertical sampling factor
+ * @param {number | null} adobeTransform - The Adobe color transform, or null without an Adobe segment
+ * @returns {Uint8ClampedArray} The pixels
+ */
+function convertToRgba(frame: FrameHeader, components: ComponentState[], planes: Uint8Array[], hmax: number, vmax: number, adobeTransform: number | null): Uint8ClampedArray {
+    const { width, height } = frame;
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    const count = components.length;
+    const isRgb = count === 3 && (adobeTransform === 0 || components.map((component) => String.fromCharCode(component.id)).join('') === 'RGB');
+    const isYcck = count === 4 && adobeTransform === 2;
+
+    // Each component's sample for a pixel: the plane row and column scaled by its sampling factors.
+    const columns = components.map((component) => Int32Array.from({ length: width }, (_, x) => Math.floor(x * component.h / hmax)));
+    const sample = new Int32Array(4);
+
+    for (let y = 0; y < height; y++) {
+        const rows = components.map((component) => Math.floor(y * component.v / vmax) * component.blocksPerLine * 8);
+        for (let x = 0; x < width; x++) {
+            for (let i = 0; i < count && i < 4; i++) sample[i] = planes[i][rows[i] + columns[i][x]];
+            const out = (y * width + x) * 4;
+
+            if (count < 3) {
+                rgba[out] = rgba[out + 1] = rgba[out + 2] = sample[0];
+            } else if (isRgb) {
+                rgba[out] = sample[0];
+                rgba[out + 1] = sample[1];
+                rgba[out + 2] = sample[2];
+            } else if (count === 3 || isYcck) {
+                const cb = sample[1] - 128;
+                const cr = sample[2] - 128;
+                let r = sample[0] + ((CR_R * cr + ONE_HALF) >> SCALE_BITS);
+                let g = sample[0] + ((-CB_G * cb - CR_G * cr + ONE_HALF) >> SCALE_BITS);
+                let b = sample[0] + ((CB_B * cb + ONE_HALF) >> SCALE_BITS);
+                if (isYcck) {
+                    // YCCK holds inverted CMY: convert it back, then apply K like CMYK.
+                    const k = sample[3];
+                    r = Math.floor((255 - clamp(r)) * k / 255);
+                    g = Math.floor((255 - clamp(g)) * k / 255);
+                    b = Math.floor((255 - clamp(b)) * k / 255);
+                }
+                rgba[out] = r;
+                rgba[out + 1] = g;
+                rgba[out + 2] = b;
+            } else {
+                const inverted = adobeTransform !== null;
+                const c = inverted ? sample[0] : 255 - sample[0];
+                const m = inverted ? sample[1] : 255 - sample[1];
+                const yellow = inverted ? sample[2] : 255 - sample[2];
+                const k = inverted ? sample[3] : 255 - sample[3];
+                rgba[out] = Math.floor(c * k / 255);
+                rgba[out + 1] = Math.floor(m * k / 255);
+                rgba[out + 2] = Math.floor(yellow * k / 255);
+            }
+            rgba[out + 3] = 255;
+        }
+    }
+    return rgba;
+}
+
+// ============================================================================================
+/**
+ * Clamp a value to a byte
+ * @param {number} value - The value
+ * @returns {number} The value, limited to 0–255
+ */
+function clamp(value: number): number {
+    return value < 0 ? 0 : value > 255 ? 255 : value;
+}
@@ -0,0 +1,341 @@
+/**
+ * jpegRepair.ts
+ * @fileoverview Repair commands for damaged JPEGs
+ * @description Each repair looks at the analyzed file and works out one edit (a byte range and
+ * what replaces it) that the editor applies as a single undoable step: appending a missing EOI,
+ * cutting the data after the final EOI, correcting segment lengths, inserting the standard Huffman
+ * tables, and dropping segments that cannot be parsed. None of them touch entropy-coded data.
+ */
+
+import type { RepairEdit } from './formatRegistry';
+import { analyzeJpeg, isSofMarker, JpegLayout, JpegSegment, parseFrameHeader, parseScanHeader } from './jpegStructure';
+import { encodeDhtSegment, parseDht, parseDqt, STANDARD_HUFFMAN_TABLES } from './jpegTables';
+import { findUnreadSegment } from './jpegValidation';
+
+/** Each length fix can reveal the next broken segment, so fixing repeats up to this many times. */
+const MAX_LENGTH_FIXES = 64;
+
+// ============================================================================================
+/**
+ * A change to one byte range, combined with others into a single RepairEdit
+ * @param {number} start - The first replaced offset
+ * @param {number} end - One past the last replaced byte
+ * @param {Uint8Array} insert - The bytes that take the range's place
+ */
+interface Splice {
+    start: number;
+    end: number;
+    insert: Uint8Array;
+}
+
+// ============================================================================================
+/**
+ * Append an EOI marker when the last image in the file has none
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {RepairEdit | null} The edit, or null if the file already ends its last image
+ */
+export function planAppendEoi(bytes: Uint8Array, layout: JpegLayout): RepairEdit | null {
+    const len = bytes.length;
+    if (len >= 2 && bytes[len - 2] === 0xff && bytes[len - 1] === 0xd9) return null;
+
+    let imageOpen = false;
+    for (const segment of layout.segments) {
+        if (segment.marker === 0xd8) imageOpen = true;
+        else if (segment.marker === 0xd9) imageOpen = false;
+    }
+    if (!imageOpen) return null;
+
+    // A file cut right after a 0xFF already holds the first half of the marker.
+    const replacement = bytes[len - 1] === 0xff ? new Uint8Array([0xd9]) : new Uint8Array([0xff, 0xd9]);
+    return { start: len, end: len, replacement, summary: 'Appended an EOI marker at the end of the file' };
+}
+
+// ============================================================================================
+/**
+ * Remove everything after the final EOI marker
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {RepairEdit | null} The edit, or null if there is no EOI or nothing follows it
+ */
+export function planTruncateAfterEoi(bytes: Uint8Array, layout: JpegLayout): RepairEdit | null {
+    let eoiEnd: number | null = null;
+    for (const segment of layout.segments) {
+        if (segment.marker === 0xd9) eoiEnd = segment.end;
+    }
+    if (eoiEnd === null || eoiEnd >= bytes.length) return null;
+
+    const removed = bytes.length - eoiEnd;
+    return {
+        start: eoiEnd,
+        end: bytes.length,
+        replacement: new Uint8Array(0),
+        summary: `Removed ${removed} byte${removed === 1 ? '' : 's'} after the final EOI`
+    };
+}
+
+// ============================================================================================
+/**
+ * Correct segment length fields that disagree with where the next marker starts. Table and
+ * header segments get the length their contents need; others are cut at the next marker that
+ * starts a readable segment.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {RepairEdit | null} The edit, or null if every length checks out (or none can be worked out)
+ */
+export function planFixLengths(bytes: Uint8Array, layout: JpegLayout): RepairEdit | null {
+    const fixed = bytes.slice();
+    let current: JpegLayout | null = layout;
+    let first = Infinity;
+    let last = -1;
+    let count = 0;
+
+    for (let round = 0; round < MAX_LENGTH_FIXES && current; round++) {
+        const target = findBadLength(fixed, current);
+        if (!target) break;
+
+        fixed[target.start + 2] = target.length >> 8;
+        fixed[target.start + 3] = target.length & 0xff;
+        first = Math.min(first, target.start + 2);
+        last = Math.max(last, target.start + 4);
+        count++;
+        current = analyzeJpeg(fixed);
+    }
+    if (count === 0) return null;
+
+    return {
+        start: first,
+        end: last,
+        replacement: fixed.slice(first, last),
+        summary: `Fixed ${count} segment length${count === 1 ? '' : 's'}`
+    };
+}
+
+// ============================================================================================
+/**
+ * Insert the standard Huffman tables (ITU T.81 Annex K) before the first scan of every
+ * Huffman-coded image that defines none, as Motion-JPEG frames do
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {RepairEdit | null} The edit, or null if every image that needs tables has them
+ */
+export function planInsertDht(bytes: Uint8Array, layout: JpegLayout): RepairEdit | null {
+    const dht = encodeDhtSegment(STANDARD_HUFFMAN_TABLES);
+    const splices: Splice[] = [];
+    let huffmanCoded = true;
+    let hasTables = false;
+
+    for (const segment of layout.segments) {
+        if (segment.marker === 0xd8) {
+            huffmanCoded = true;
+            hasTables = false;
+        } else if (segment.marker === 0xc4) {
+            hasTables = true;
+        } else if (isSofMarker(segment.marker)) {
+            huffmanCoded = segment.marker < 0xc8;
+        } else if (segment.marker === 0xda && huffmanCoded && !hasTables) {
+            splices.push({ start: segment.start, end: segment.start, insert: dht });
+            hasTables = true;
+        }
+    }
+    if (splices.length === 0) return null;
+
+    const count = splices.length;
+    return combineSplices(bytes, splices, `Inserted the standard Huffman tables before ${count} scan${count === 1 ? '' : 's'}`);
+}
+
+// ============================================================================================
+/**
+ * Remove segments whose contents cannot be parsed: table segments whose tables run past their
+ * end, truncated frame and scan headers, and the segment the analyzer stopped at (up to the next
+ * readable marker)
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {RepairEdit | null} The edit, or null if every segment parses
+ */
+export function planDropUnparseable(bytes: Uint8Array, layout: JpegLayout): RepairEdit | null {
+    const empty = new Uint8Array(0);
+    const splices: Splice[] = [];
+    for (const segment of layout.segments) {
+        if (!isUnparseable(bytes, segment)) continue;
+        splices.push({ start: segment.start, end: segment.data ? segment.data.end : segment.end, insert: empty });
+    }
+
+    const stop = findUnreadSegment(bytes, layout);
+    if (stop !== null && stop < bytes.length - 1) {
+        splices.push({ start: stop, end: findNextMarker(bytes, stop + 2) ?? bytes.length, insert: empty });
+    }
+    if (splices.length === 0) return null;
+
+    const removed = splices.reduce((sum, splice) => sum + splice.end - splice.start, 0);
+    const count = splices.length;
+    return combineSplices(bytes, splices, `Dropped ${count} unparseable segment${count === 1 ? '' : 's'} (${removed} bytes)`);
+}
+
+// ============================================================================================
+/**
+ * Find the first segment whose length field needs fixing
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {{ start: number; length: number } | null} The segment's offset and its corrected length, or null if none needs fixing
+ */
+function findBadLength(bytes: Uint8Array, layout: JpegLayout): { start: number; length: number } | null {
+    for (const segment of layout.segments) {
+        if (segment.length === null) continue;
+
+        // Scan data follows an SOS header, so only its own contents can tell the length.
+        const scanLength = segment.marker === 0xda ? computeHeaderLength(bytes, segment.start) : null;
+        const disagrees = segment.marker === 0xda
+            ? scanLength !== null && scanLength !== segment.length
+            : segment.end < bytes.length && bytes[segment.end] !== 0xff;
+        if (!disagrees) continue;
+
+        const length = proposeLength(bytes, segment.start);
+        if (length !== null && length !== segment.length) return { start: segment.start, length };
+    }
+
+    const stop = findUnreadSegment(bytes, layout);
+    if (stop === null || stop >= bytes.length - 1) return null;
+    const length = proposeLength(bytes, stop);
+    return length !== null ? { start: stop, length } : null;
+}
+
+// ============================================================================================
+/**
+ * Work out the length a segment should declare: what its contents need when they end on a
+ * marker, otherwise the distance to the next marker that starts a readable segment (an SOS
+ * header is always sized by its contents, since scan data follows it)
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} markerStart - The offset of the segment's 0xFF byte
+ * @returns {number | null} The length, or null if none fits in the length field
+ */
+function proposeLength(bytes: Uint8Array, markerStart: number): number | null {
+    const computed = computeHeaderLength(bytes, markerStart);
+    if (bytes[markerStart + 1] === 0xda) {
+        return computed !== null && markerStart + 2 + computed <= bytes.length ? computed : null;
+    }
+    if (computed !== null && computed <= 0xffff && bytes[markerStart + 2 + computed] === 0xff) return computed;
+
+    const next = findNextMarker(bytes, markerStart + 4);
+    if (next === null) return null;
+    const length = next - markerStart - 2;
+    return length >= 2 && length <= 0xffff ? length : null;
+}
+
+// ============================================================================================
+/**
+ * Work out the length of a segment whose size follows from its contents (tables, frame and scan
+ * headers, restart interval)
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} markerStart - The offset of the segment's 0xFF byte
+ * @returns {number | null} The length, or null for segments of free-form size or contents cut off by the end of the file
+ */
+function computeHeaderLength(bytes: Uint8Array, markerStart: number): number | null {
+    const marker = bytes[markerStart + 1];
+    const payload = markerStart + 4;
+    const len = bytes.length;
+
+    if (isSofMarker(marker)) return payload + 5 < len ? 8 + 3 * bytes[payload + 5] : null;
+    if (marker === 0xda) return payload < len ? 6 + 2 * bytes[payload] : null;
+    if (marker === 0xdd) return 4;
+    if (marker !== 0xdb && marker !== 0xc4) return null;
+
+    // Table segments hold tables back to back until the next marker (no table opens with 0xFF).
+    let pos = payload;
+    while (pos < len && bytes[pos] !== 0xff) {
+        if (marker === 0xdb) {
+            pos += 1 + 64 * ((bytes[pos] >> 4) === 0 ? 1 : 2);
+            continue;
+        }
+        if (pos + 17 > len) return null;
+        let total = 0;
+        for (let i = 1; i <= 16; i++) total += bytes[pos + i];
+        pos += 17 + total;
+    }
+    return pos < len && pos > payload ? pos - markerStart - 2 : null;
+}
+
+// ============================================================================================
+/**
+ * Find the next marker that starts a readable segment: one whose length lands on another marker
+ * (or the end of the file), an SOS header, or the EOI that ends the file
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} from - The offset to search from
+ * @returns {number | null} The offset of the marker's 0xFF byte, or null if none follows
+ */
+function findNextMarker(bytes: Uint8Array, from: number): number | null {
+    const len = bytes.length;
+    for (let pos = from; pos < len - 1; pos++) {
+        if (bytes[pos] !== 0xff) continue;
+
+        const marker = bytes[pos + 1];
+        if (marker === 0xd9 && pos === len - 2) return pos;
+        // Skip fill bytes, stuffed zeros, SOI/EOI/RSTn (no length) and reserved codes.
+        if (marker < 0xc0 || marker === 0xff || (marker >= 0xd0 && marker <= 0xd9)) continue;
+        if (pos + 3 >= len) continue;
+
+        const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+        const end = pos + 2 + length;
+        if (length < 2 || end > len) continue;
+        if (marker === 0xda || end === len || bytes[end] === 0xff) return pos;
+    }
+    return null;
+}
+
+// ============================================================================================
+/**
+ * Check whether a segment's contents cannot be parsed
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The segment
+ * @returns {boolean} True if a decoder could not use the segment
+ */
+function isUnparseable(bytes: Uint8Array, segment: JpegSegment): boolean {
+    const { start, end } = segment.payload;
+    if (segment.marker === 0xdb) {
+        const tables = parseDqt(bytes, segment);
+        const last = tables[tables.length - 1];
+        return !last || last.offset + 1 + 64 * (last.precision / 8) < end;
+    }
+    if (segment.marker === 0xc4) {
+        const tables = parseDht(bytes, segment);
+        const last = tables[tables.length - 1];
+        return !last || last.symbolsOffset + last.symbols.length < end;
+    }
+    if (segment.marker === 0xdd) return end - start < 2;
+    if (segment.marker === 0xda) return parseScanHeader(bytes, segment) === null;
+    if (isSofMarker(segment.marker)) {
+        const frame = parseFrameHeader(bytes, segment);
+        return !frame || frame.components.length < frame.componentCount;
+    }
+    return false;
+}
+
+// ============================================================================================
+/**
+ * Combine changes to separate ranges into a single edit spanning them all
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {Splice[]} splices - The changes, in file order and not overlapping
+ * @param {string} summary - What the changes do
+ * @returns {RepairEdit} The edit
+ */
+function combineSplices(bytes: Uint8Array, splices: Splice[], summary: string): RepairEdit {
+    const start = splices[0].start;
+    const end = splices[splices.length - 1].end;
+    const kept = splices.reduce((sum, splice, i) => {
+        const next = splices[i + 1];
+        return sum + splice.insert.length + (next ? next.start - splice.end : 0);
+    }, 0);
+
+    const replacement = new Uint8Array(kept);
+    let pos = 0;
+    splices.forEach((splice, i) => {
+        replacement.set(splice.insert, pos);
+        pos += splice.insert.length;
+        const next = splices[i + 1];
+        if (next) {
+            replacement.set(bytes.subarray(splice.end, next.start), pos);
+            pos += next.start - splice.end;
+        }
+    });
+    return { start, end, replacement, summary };
+}
@@ -4,56 +4,204 @@
  * @description Identifies JPEG markers, regions, and provides hex/ASCII conversion
  */
 
-export type ByteRegion =
-    | 'unknown'
-    | 'soi'
-    | 'app'
-    | 'dqt'
-    | 'sof'
-    | 'sof-width'
-    | 'dht'
-    | 'dri'
-    | 'sos-header'
-    | 'scan'
-    | 'rst'
-    | 'com'
-    | 'eoi'
-    | 'other';
-
-enum RegionCode {
-    Unknown = 0,
-    Soi = 1,
-    App = 2,
-    Dqt = 3,
-    Sof = 4,
-    SofWidth = 5,
-    Dht = 6,
-    Dri = 7,
-    SosHeader = 8,
-    Scan = 9,
-    Rst = 10,
-    Com = 11,
-    Eoi = 12,
-    Other = 13
+import { ByteLayout, ByteRange, createRegionCodes, FormatAnalyzer, LayoutEdit } from './formatRegistry';
+import { decodeJpegImage } from './jpegDecoder';
+import { planAppendEoi, planDropUnparseable, planFixLengths, planInsertDht, planTruncateAfterEoi } from './jpegRepair';
+import { validateJpeg } from './jpegValidation';
+
+/** A single decoded header field value. */
+export type JpegFieldValue = number | string | number[];
+
+// ============================================================================================
+/**
+ * A single marker segment of the JPEG
+ * @param {number} marker - The marker code (the byte following 0xFF)
+ * @param {string} name - The short marker name (e.g. 'SOF0', 'APP1', 'DQT')
+ * @param {number} start - Offset of the 0xFF byte that opens the marker
+ * @param {number} end - One past the last byte of the segment (excluding scan data)
+ * @param {number | null} length - The declared length field, or null for standalone markers
+ * @param {ByteRange} header - The marker bytes plus the length field (if any)
+ * @param {ByteRange} payload - The bytes covered by the length field after the length itself
+ * @param {ByteRange | null} data - The entropy-coded data following an SOS header
+ * @param {Record<string, JpegFieldValue>} fields - Parsed header fields for the segment
+ */
+export interface JpegSegment {
+    marker: number;
+    name: string;
+    start: number;
+    end: number;
+    length: number | null;
+    header: ByteRange;
+    payload: ByteRange;
+    data: ByteRange | null;
+    fields: Record<string, JpegFieldValue>;
+}
+
+// ============================================================================================
+/**
+ * A single image component declared in a frame header
+ * @param {number} id - The component identifier (referenced by SOS headers)
+ * @param {number} horizontal - The horizontal sampling factor (1–4)
+ * @param {number} vertical - The vertical sampling factor (1–4)
+ * @param {number} quantTable - The quantization table selector
+ * @param {number} offset - Byte offset of the component identifier
+ */
+export interface FrameComponent {
+    id: number;
+    horizontal: number;
+    vertical: number;
+    quantTable: number;
+    offset: number;
+}
+
+// ============================================================================================
+/**
+ * A decoded SOF frame header, with the byte offsets of each fixed field
+ * @param {number} marker - The SOF marker code (identifies the coding process)
+ * @param {number} precision - The sample precision in bits
+ * @param {number} height - The declared number of lines (0 means defined by DNL)
+ * @param {number} width - The declared number of samples per line
+ * @param {number} componentCount - The declared number of components
+ * @param {FrameComponent[]} components - The components present in the segment
+ */
+export interface FrameHeader {
+    marker: number;
+    precision: number;
+    height: number;
+    width: number;
+    componentCount: number;
+    components: FrameComponent[];
+    precisionOffset: number;
+    heightOffset: number;
+    widthOffset: number;
+    componentCountOffset: number;
+}
+
+// ============================================================================================
+/**
+ * A single component selector in a scan header
+ * @param {number} selector - The component identifier (matches a frame component id)
+ * @param {number} dcTable - The DC entropy table selector
+ * @param {number} acTable - The AC entropy table selector
+ * @param {number} offset - Byte offset of the component selector
+ */
+export interface ScanComponent {
+    selector: number;
+    dcTable: number;
+    acTable: number;
+    offset: number;
+}
+
+// ============================================================================================
+/**
+ * A decoded SOS scan header, with the byte offsets of the trailing parameter bytes
+ * @param {ScanComponent[]} components - The components coded in the scan
+ * @param {number} spectralStart - Ss, the first DCT coefficient in the scan
+ * @param {number} spectralEnd - Se, the last DCT coefficient in the scan
+ * @param {number} approxHigh - Ah, the previous successive-approximation bit position
+ * @param {number} approxLow - Al, the current successive-approximation bit position
+ */
+export interface ScanHeader {
+    componentCount: number;
+    components: ScanComponent[];
+    spectralStart: number;
+    spectralEnd: number;
+    approxHigh: number;
+    approxLow: number;
+    componentCountOffset: number;
+    spectralStartOffset: number;
+    spectralEndOffset: number;
+    approximationOffset: number;
 }
 
 // ============================================================================================
 /**
  * The layout of the JPEG
- * @param {number} length - The total number of bytes in the JPEG
- * @param {Uint8Array} regions - The per-byte region codes
+ * @param {JpegSegment[]} segments - The marker segments in file order
+ * @param {FrameHeader | null} frame - The first frame header in the file
  */
-export interface JpegLayout {
-    /** Total number of bytes in the JPEG. */
-    length: number;
-    /** Per-byte region codes (see RegionCode). */
-    regions: Uint8Array;
+export interface JpegLayout extends ByteLayout {
+    /**
+     * Marker segments in file order. Restart markers inside scan data are part
+     * of the owning SOS segment's `data` range rather than segments of their own.
+     */
+    segments: JpegSegment[];
+    /** The first frame header in the file, which declares the primary image's size. */
+    frame: FrameHeader | null;
+}
+
+/** The regions of a JPEG, in legend order. */
+const JPEG_LEGEND = [
+    { id: 'soi',                label: 'Start of Image Marker' },
+    { id: 'app',                label: 'Application Segment' },
+    { id: 'dqt',                label: 'Quantization Table' },
+    { id: 'sof',                label: 'Frame Header' },
+    { id: 'sof-width',          label: 'Frame Width' },
+    { id: 'sof-height',         label: 'Frame Height' },
+    { id: 'sof-component-id',   label: 'Component ID' },
+    { id: 'sof-sampling',       label: 'Sampling Factors' },
+    { id: 'sof-quant-selector', label: 'Quantization Table Selector' },
+    { id: 'dht',                label: 'Huffman Table' },
+    { id: 'dri',                label: 'Restart Interval' },
+    { id: 'sos-header',         label: 'Scan Header' },
+    { id: 'scan',               label: 'Scan Data', bulkData: true },
+    { id: 'rst',                label: 'Restart Marker' },
+    { id: 'com',                label: 'Comment' },
+    { id: 'eoi',                label: 'End of Image Marker' }
+] as const;
+
+/** The codes stored in a JPEG layout's `regions` array. */
+export const JPEG_CODES = createRegionCodes(JPEG_LEGEND);
+
+/** The JPEG analyzer (marker segments, scans and restart markers). */
+export const JPEG_ANALYZER: FormatAnalyzer<JpegLayout> = {
+    id: 'jpeg',
+    name: 'JPEG',
+    mimeType: 'image/jpeg',
+    detect: (bytes) => bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xd8,
+    analyze: analyzeJpeg,
+    reanalyze: reanalyzeJpeg,
+    validate: validateJpeg,
+    repairs: [
+        { id: 'append-eoi',         label: 'Append EOI',          description: 'Append the EOI marker the last image is missing', plan: planAppendEoi },
+        { id: 'truncate-after-eoi', label: 'Truncate after EOI',  description: 'Remove the data after the final EOI marker', plan: planTruncateAfterEoi },
+        { id: 'fix-lengths',        label: 'Fix lengths',         description: 'Correct segment lengths that disagree with where the next marker starts', plan: planFixLengths },
+        { id: 'insert-dht',         label: 'Insert default DHT',  description: 'Insert the standard Huffman tables into images that define none (Motion-JPEG)', plan: planInsertDht },
+        { id: 'drop-unparseable',   label: 'Drop bad segments',   description: 'Remove segments that cannot be parsed', plan: planDropUnparseable }
+    ],
+    describeDimensions: describeJpegDimensions,
+    describeByte: describeJpegByte,
+    decodePreview: decodeJpegImage,
+    unit: { name: 'segment', find: findJpegUnitAt },
+    legend: JPEG_LEGEND,
+    jumpTargets: [
+        'soi',
+        'app',
+        'dqt',
+        'sof',
+        'dht',
+        'dri',
+        'sos-header',
+        'rst',
+        'com',
+        'eoi'
+    ]
+};
+
+// ============================================================================================
+/**
+ * Check whether a layout came from the JPEG analyzer
+ * @param {ByteLayout | null} layout - The layout to check
+ * @returns {boolean} True if the layout is a JPEG layout
+ */
+export function isJpegLayout(layout: ByteLayout | null): layout is JpegLayout {
+    return !!layout && 'segments' in layout;
 }
 
 // ============================================================================================
 /**
  * Analyze a JPEG and classify each byte according to the high-level anatomy:
- * SOI, APPn, DQT, SOF (with width bytes), DHT, DRI, SOS header, scan data,
+ * SOI, APPn, DQT, SOF (with dimension and component fields), DHT, DRI, SOS header, scan data,
  * restart markers, COM, EOI, and "other".
  * @param {Uint8Array} bytes - The bytes of the JPEG
  * @returns {JpegLayout | null} The layout of the JPEG
@@ -68,16 +216,74 @@ export function analyzeJpeg(bytes: Uint8Array): JpegLayout | null {
     }
 
     const regions = new Uint8Array(len);
+    const segments: JpegSegment[] = [];
+
+    markRange(regions, 0, 2, JPEG_CODES.soi);
+    segments.push(standaloneSegment(0xd8, 0));
+
+    const frame = walkSegments(bytes, regions, segments, 2, null);
+    return {
+        length: len,
+        regions,
+        segments,
+        frame
+    };
+}
+
+// ============================================================================================
+/**
+ * Update the layout of a JPEG after an edit. An edit inside scan data that neither adds nor removes
+ * an 0xFF byte cannot move a marker, so the previous layout is kept as is; any other edit copies the
+ * layout up to the segment before the edited one and re-walks the file from there (the previous
+ * segment is included because scan data ends wherever the next marker starts).
+ * @param {JpegLayout} previous - The layout of the bytes before the edit
+ * @param {Uint8Array} before - The bytes before the edit
+ * @param {Uint8Array} bytes - The bytes after the edit
+ * @param {LayoutEdit} edit - The edited range
+ * @returns {JpegLayout | null} The layout of the edited bytes
+ */
+export function reanalyzeJpeg(previous: JpegLayout, before: Uint8Array, bytes: Uint8Array, edit: LayoutEdit): JpegLayout | null {
+    if (isScanOnlyEdit(previous, before, bytes, edit)) return previous;
+
+    const index = findLastSegmentIndex(previous.segments, edit.start);
+    if (index <= 0 || bytes.length < 4) return analyzeJpeg(bytes);
 
-    markRange(regions, 0, 2, RegionCode.Soi);
+    const resumeAt = previous.segments[index - 1].start;
+    const regions = new Uint8Array(bytes.length);
+    regions.set(previous.regions.subarray(0, resumeAt));
+    const segments = previous.segments.slice(0, index - 1);
+    const kept = previous.frame && previous.frame.precisionOffset < resumeAt ? previous.frame : null;
 
-    let pos = 2;
+    const frame = walkSegments(bytes, regions, segments, resumeAt, kept);
+    return {
+        length: bytes.length,
+        regions,
+        segments,
+        frame
+    };
+}
+
+// ============================================================================================
+/**
+ * Walk the marker segments of a JPEG from an offset to the end of the file, classifying the bytes
+ * and appending the segments found
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {Uint8Array} regions - The regions of the JPEG (bytes before the start are left as is)
+ * @param {JpegSegment[]} segments - The segments before the start; new segments are appended
+ * @param {number} start - The offset to start walking from (a marker or stray data between segments)
+ * @param {FrameHeader | null} firstFrame - The first frame header before the start, if any
+ * @returns {FrameHeader | null} The first frame header in the file
+ */
+function walkSegments(bytes: Uint8Array, regions: Uint8Array, segments: JpegSegment[], start: number, firstFrame: FrameHeader | null): FrameHeader | null {
+    const len = bytes.length;
+    let layoutFrame = firstFrame;
+    let pos = start;
 
     while (pos < len - 1) {
         if (bytes[pos] !== 0xff) {
             // Non-marker data outside of scan regions – treat as generic header/other.
-            if (regions[pos] === RegionCode.Unknown) {
-                regions[pos] = RegionCode.Other;
+            if (regions[pos] === JPEG_CODES.unknown) {
+                regions[pos] = JPEG_CODES.other;
             }
             pos++;
             continue;
@@ -90,7 +296,8 @@ export function analyzeJpeg(bytes: Uint8Array): JpegLayout | null {
         // EOI (FF D9) – mark and continue scanning; some files may contain
         // additional JPEG-like data (e.g., Adobe-style concatenated images).
         if (marker === 0xd9) {
-            markRange(regions, markerStart, Math.min(markerStart + 2, len), RegionCode.Eoi);
+            markRange(regions, markerStart, Math.min(markerStart + 2, len), JPEG_CODES.eoi);
+            segments.push(standaloneSegment(marker, markerStart));
             pos = markerStart + 2;
             continue;
         }
@@ -98,21 +305,24 @@ export function analyzeJpeg(bytes: Uint8Array): JpegLayout | null {
         // Additional SOI markers (FF D8) after the initial one – treat as the
         // start of another image region so jump-to and visualization can see it.
         if (marker === 0xd8) {
-            markRange(regions, markerStart, Math.min(markerStart + 2, len), RegionCode.Soi);
+            markRange(regions, markerStart, Math.min(markerStart + 2, len), JPEG_CODES.soi);
+            segments.push(standaloneSegment(marker, markerStart));
             pos = markerStart + 2;
             continue;
         }
 
         // Restart markers (FF D0–D7) – two-byte markers with no length.
         if (marker >= 0xd0 && marker <= 0xd7) {
-            markRange(regions, markerStart, Math.min(markerStart + 2, len), RegionCode.Rst);
+            markRange(regions, markerStart, Math.min(markerStart + 2, len), JPEG_CODES.rst);
+            segments.push(standaloneSegment(marker, markerStart));
             pos = markerStart + 2;
             continue;
         }
 
         // TEM marker (FF 01) – no length, rarely used; treat as "other".
         if (marker === 0x01) {
-            markRange(regions, markerStart, Math.min(markerStart + 2, len), RegionCode.Other);
+            markRange(regions, markerStart, Math.min(markerStart + 2, len), JPEG_CODES.other);
+            segments.push(standaloneSegment(marker, markerStart));
             pos = markerStart + 2;
             continue;
         }
@@ -124,63 +334,379 @@ export function analyzeJpeg(bytes: Uint8Array): JpegLayout | null {
         }
 
         const { headerEnd, segmentEnd } = seg;
+        const segment: JpegSegment = {
+            marker,
+            name: markerName(marker),
+            start: markerStart,
+            end: segmentEnd,
+            length: segmentEnd - markerStart - 2,
+            header: { start: markerStart, end: markerStart + 4 },
+            payload: { start: markerStart + 4, end: segmentEnd },
+            data: null,
+            fields: parseSegmentFields(bytes, marker, markerStart + 4, segmentEnd)
+        };
+        segments.push(segment);
 
         if (marker >= 0xe0 && marker <= 0xef) {
             // APPn segments (FF E0 – FF EF)
-            markRange(regions, markerStart, segmentEnd, RegionCode.App);
+            markRange(regions, markerStart, segmentEnd, JPEG_CODES.app);
         } else if (marker === 0xdb) {
             // DQT (Define Quantization Table)
-            markRange(regions, markerStart, segmentEnd, RegionCode.Dqt);
+            markRange(regions, markerStart, segmentEnd, JPEG_CODES.dqt);
         } else if (isSofMarker(marker)) {
-            // SOF (Start of Frame) – highlight width bytes specially.
-            markRange(regions, markerStart, segmentEnd, RegionCode.Sof);
-
-            const widthHigh = markerStart + 7;
-            const widthLow = markerStart + 8;
-            markByte(regions, widthHigh, RegionCode.SofWidth);
-            markByte(regions, widthLow, RegionCode.SofWidth);
+            // SOF (Start of Frame) – highlight the dimensions and per-component fields.
+            markRange(regions, markerStart, segmentEnd, JPEG_CODES.sof);
+
+            const frame = parseFrameHeader(bytes, segment);
+            if (frame) {
+                markRange(regions, frame.heightOffset, frame.heightOffset + 2, JPEG_CODES['sof-height']);
+                markRange(regions, frame.widthOffset, frame.widthOffset + 2, JPEG_CODES['sof-width']);
+                for (const component of frame.components) {
+                    markByte(regions, component.offset, JPEG_CODES['sof-component-id']);
+                    markByte(regions, component.offset + 1, JPEG_CODES['sof-sampling']);
+                    markByte(regions, component.offset + 2, JPEG_CODES['sof-quant-selector']);
+                }
+                segment.fields.componentIds = frame.components.map((component) => component.id);
+                if (!layoutFrame) layoutFrame = frame;
+            }
         } else if (marker === 0xc4) {
             // DHT (Define Huffman Table)
-            markRange(regions, markerStart, segmentEnd, RegionCode.Dht);
+            markRange(regions, markerStart, segmentEnd, JPEG_CODES.dht);
         } else if (marker === 0xdd) {
             // DRI (Define Restart Interval)
-            markRange(regions, markerStart, segmentEnd, RegionCode.Dri);
+            markRange(regions, markerStart, segmentEnd, JPEG_CODES.dri);
         } else if (marker === 0xda) {
             // SOS (Start of Scan) – highlight only the header as SOS, then mark
             // the subsequent entropy-coded data as "scan" until the next marker.
-            markRange(regions, markerStart, headerEnd, RegionCode.SosHeader);
+            markRange(regions, markerStart, headerEnd, JPEG_CODES['sos-header']);
             pos = consumeScanData(bytes, regions, headerEnd);
+            segment.data = { start: headerEnd, end: pos };
             continue;
         } else if (marker === 0xfe) {
             // COM (Comment)
-            markRange(regions, markerStart, segmentEnd, RegionCode.Com);
+            markRange(regions, markerStart, segmentEnd, JPEG_CODES.com);
         } else {
             // Any other marker with a length – treat as generic "other" header.
-            markRange(regions, markerStart, segmentEnd, RegionCode.Other);
+            markRange(regions, markerStart, segmentEnd, JPEG_CODES.other);
         }
 
         pos = segmentEnd;
     }
 
+    return layoutFrame;
+}
+
+// ============================================================================================
+/**
+ * Parse the frame header of an SOF segment. Components whose three bytes run
+ * past the end of the segment are dropped.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The SOF segment
+ * @returns {FrameHeader | null} The frame header, or null if the fixed fields are truncated
+ */
+export function parseFrameHeader(bytes: Uint8Array, segment: JpegSegment): FrameHeader | null {
+    const start = segment.payload.start;
+    const end = segment.payload.end;
+    if (end - start < 6) return null;
+
+    const declared = bytes[start + 5];
+    const components: FrameComponent[] = [];
+    for (let i = 0; i < declared; i++) {
+        const at = start + 6 + i * 3;
+        if (at + 3 > end) break;
+        components.push({
+            id: bytes[at],
+            horizontal: bytes[at + 1] >> 4,
+            vertical: bytes[at + 1] & 0x0f,
+            quantTable: bytes[at + 2],
+            offset: at
+        });
+    }
+
     return {
-        length: len,
-        regions
+        marker: segment.marker,
+        precision: bytes[start],
+        height: (bytes[start + 1] << 8) | bytes[start + 2],
+        width: (bytes[start + 3] << 8) | bytes[start + 4],
+        componentCount: declared,
+        components,
+        precisionOffset: start,
+        heightOffset: start + 1,
+        widthOffset: start + 3,
+        componentCountOffset: start + 5
+    };
+}
+
+// ============================================================================================
+/**
+ * Parse the header of an SOS segment
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The SOS segment
+ * @returns {ScanHeader | null} The scan header, or null if it is truncated
+ */
+export function parseScanHeader(bytes: Uint8Array, segment: JpegSegment): ScanHeader | null {
+    const start = segment.payload.start;
+    const end = segment.payload.end;
+    if (end - start < 1) return null;
+
+    const count = bytes[start];
+    const tail = start + 1 + count * 2;
+    if (tail + 3 > end) return null;
+
+    const components: ScanComponent[] = [];
+    for (let i = 0; i < count; i++) {
+        const at = start + 1 + i * 2;
+        components.push({
+            selector: bytes[at],
+            dcTable: bytes[at + 1] >> 4,
+            acTable: bytes[at + 1] & 0x0f,
+            offset: at
+        });
+    }
+
+    return {
+        componentCount: count,
+        components,
+        spectralStart: bytes[tail],
+        spectralEnd: bytes[tail + 1],
+        approxHigh: bytes[tail + 2] >> 4,
+        approxLow: bytes[tail + 2] & 0x0f,
+        componentCountOffset: start,
+        spectralStartOffset: tail,
+        spectralEndOffset: tail + 1,
+        approximationOffset: tail + 2
     };
 }
 
 // ============================================================================================
 /**
- * Classify a byte according to the layout of the JPEG
+ * Name a frame component for display: "R"/"G"/"B" for Adobe-style letter ids,
+ * Y/Cb/Cr for three-component frames, C/M/Y/K for four, otherwise "#id".
+ * @param {FrameHeader | null} frame - The frame the component belongs to
+ * @param {number} id - The component identifier
+ * @returns {string} The display name
+ */
+export function componentName(frame: FrameHeader | null, id: number): string {
+    if (id === 0x52 || id === 0x47 || id === 0x42) return String.fromCharCode(id);
+    if (!frame) return `#${id}`;
+
+    const index = frame.components.findIndex((component) => component.id === id);
+    if (index < 0) return `#${id}`;
+    if (frame.components.length === 1) return 'Y';
+    if (frame.components.length === 3) return ['Y', 'Cb', 'Cr'][index];
+    if (frame.components.length === 4) return ['C', 'M', 'Y', 'K'][index];
+    return `#${id}`;
+}
+
+// ============================================================================================
+/**
+ * Describe an SOS scan with a short label, e.g. "Scan 3: Y, AC 1–5, Al=1". Scans are numbered from 1 within each image
+ * (counting restarts at every SOI) and components are named from the
+ * frame header that precedes the scan.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @param {JpegSegment} segment - The SOS segment to describe
+ * @returns {string | null} The label, or null if the scan header is truncated
+ */
+export function describeScan(bytes: Uint8Array, layout: JpegLayout, segment: JpegSegment): string | null {
+    const scan = parseScanHeader(bytes, segment);
+    if (!scan) return null;
+
+    let index = 0;
+    let frame: FrameHeader | null = null;
+    for (const candidate of layout.segments) {
+        if (candidate.start > segment.start) break;
+        if (candidate.marker === 0xd8) {
+            index = 0;
+            frame = null;
+        } else if (isSofMarker(candidate.marker)) {
+            frame = parseFrameHeader(bytes, candidate);
+        } else if (candidate.marker === 0xda) {
+            index++;
+        }
+    }
+
+    const names = scan.components.map((component) => componentName(frame, component.selector)).join(' ');
+    let band: string;
+    if (scan.spectralStart === 0 && scan.spectralEnd === 0) {
+        band = 'DC';
+    } else if (scan.spectralStart === 0) {
+        band = `DC+AC 0–${scan.spectralEnd}`;
+    } else {
+        band = `AC ${scan.spectralStart}–${scan.spectralEnd}`;
+    }
+
+    let label = `Scan ${index}: ${names}, ${band}`;
+    if (scan.approxHigh > 0) label += `, Ah=${scan.approxHigh}`;
+    if (scan.approxLow > 0) label += `, Al=${scan.approxLow}`;
+    return label;
+}
+
+// ============================================================================================
+/**
+ * Describe the image size declared by the first frame header of an image
+ * @description A height of 0 means the height is defined later by a DNL marker
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {JpegLayout} layout - The layout of the file
+ * @param {ByteRange | null} image - An embedded (MPF) image, or null for the first image of the file
+ * @returns {string | null} The dimensions (e.g. "640 × 480"), or null if there is no SOF
+ */
+export function describeJpegDimensions(bytes: Uint8Array, layout: JpegLayout, image: ByteRange | null): string | null {
+    const frameSegment = image
+        ? layout.segments.find((segment) => segment.start >= image.start && segment.start < image.end && segment.name.startsWith('SOF'))
+        : null;
+    const frame = frameSegment ? parseFrameHeader(bytes, frameSegment) : layout.frame;
+    if (!frame) return null;
+    const height = frame.height === 0 ? '? (DNL)' : `${frame.height}`;
+    return `${frame.width} × ${height}`;
+}
+
+// ============================================================================================
+/**
+ * Name the scan a byte belongs to, so progressive scans can be told apart
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {JpegLayout} layout - The layout of the file
+ * @param {number} offset - The offset of the byte
+ * @returns {string | null} The scan label, or null outside SOS segments and their scan data
+ */
+export function describeJpegByte(bytes: Uint8Array, layout: JpegLayout, offset: number): string | null {
+    const segment = findSegmentAt(layout, offset);
+    return segment && segment.marker === 0xda ? describeScan(bytes, layout, segment) : null;
+}
+
+// ============================================================================================
+/**
+ * Find the segment that owns a byte, including the scan data following an SOS header
+ * @param {ByteLayout | null} layout - The layout of the file (other formats have no segments)
+ * @param {number} offset - The offset of the byte
+ * @returns {JpegSegment | null} The owning segment, or null if the byte lies between segments
+ */
+export function findSegmentAt(layout: ByteLayout | null, offset: number): JpegSegment | null {
+    if (!isJpegLayout(layout) || offset < 0 || offset >= layout.length) return null;
+
+    // Segments are in file order and do not overlap, so only the last one starting at or before
+    // the offset can own it.
+    const segment = layout.segments[findLastSegmentIndex(layout.segments, offset)];
+    if (!segment) return null;
+    if (offset < segment.end) return segment;
+    if (segment.data && offset >= segment.data.start && offset < segment.data.end) return segment;
+
+    return null;
+}
+
+// ============================================================================================
+/**
+ * Find the byte range of the segment that owns a byte. Scan data counts as a unit of its own,
+ * so a replacement limited to it does not spill into the SOS header.
+ * @param {JpegLayout} layout - The layout of the file
  * @param {number} offset - The offset of the byte
- * @param {JpegLayout | null} layout - The layout of the JPEG
- * @returns {ByteRegion} The region of the byte
+ * @returns {ByteRange | null} The range, or null if the byte lies between segments
  */
-export function classifyByte(offset: number, layout: JpegLayout | null): ByteRegion {
-    if (!layout || offset < 0 || offset >= layout.length) {
-        return 'unknown';
+export function findJpegUnitAt(layout: JpegLayout, offset: number): ByteRange | null {
+    const segment = findSegmentAt(layout, offset);
+    if (!segment) return null;
+    if (segment.data && offset >= segment.data.start) return segment.data;
+    return { start: segment.start, end: segment.end };
+}
+
+// ============================================================================================
+/**
+ * Find the first offset in a sorted list after (or the last before) an offset, wrapping around
+ * @param {number[]} offsets - The sorted offsets to search
+ * @param {number} from - The offset to search from (excluded)
+ * @param {'prev' | 'next'} dir - The direction to search in
+ * @returns {number | null} The offset found, or null if the list is empty
+ */
+export function findNearestOffset(offsets: number[], from: number, dir: 'prev' | 'next'): number | null {
+    if (offsets.length === 0) return null;
+
+    // Binary search for the first offset greater than (next) or at least (prev) the start.
+    let lo = 0;
+    let hi = offsets.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (dir === 'next' ? offsets[mid] <= from : offsets[mid] < from) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
     }
 
-    return codeToRegion(layout.regions[offset]);
+    if (dir === 'next') return lo < offsets.length ? offsets[lo] : offsets[0];
+    return lo > 0 ? offsets[lo - 1] : offsets[offsets.length - 1];
+}
+
+// ============================================================================================
+/**
+ * Get the short name of a marker (e.g. 'SOF0', 'APP1', 'RST3')
+ * @param {number} marker - The marker code (the byte following 0xFF)
+ * @returns {string} The marker name
+ */
+export function markerName(marker: number): string {
+    if (marker >= 0xe0 && marker <= 0xef) return `APP${marker - 0xe0}`;
+    if (marker >= 0xd0 && marker <= 0xd7) return `RST${marker - 0xd0}`;
+    if (isSofMarker(marker)) return `SOF${marker - 0xc0}`;
+
+    switch (marker) {
+        case 0x01: return 'TEM';
+        case 0xc4: return 'DHT';
+        case 0xc8: return 'JPG';
+        case 0xcc: return 'DAC';
+        case 0xd8: return 'SOI';
+        case 0xd9: return 'EOI';
+        case 0xda: return 'SOS';
+        case 0xdb: return 'DQT';
+        case 0xdc: return 'DNL';
+        case 0xdd: return 'DRI';
+        case 0xfe: return 'COM';
+        default: return `0x${byteToHex(marker)}`;
+    }
+}
+
+// ============================================================================================
+/**
+ * Check whether an edit stays inside scan data without adding or removing an 0xFF byte, so no
+ * marker can have appeared, moved or vanished
+ * @param {JpegLayout} layout - The layout of the bytes before the edit
+ * @param {Uint8Array} before - The bytes before the edit
+ * @param {Uint8Array} bytes - The bytes after the edit
+ * @param {LayoutEdit} edit - The edited range
+ * @returns {boolean} True if the layout before the edit still applies
+ */
+function isScanOnlyEdit(layout: JpegLayout, before: Uint8Array, bytes: Uint8Array, edit: LayoutEdit): boolean {
+    if (edit.length !== edit.end - edit.start || before.length !== bytes.length) return false;
+    if (edit.start === edit.end) return true;
+
+    const data = findSegmentAt(layout, edit.start)?.data;
+    if (!data || edit.start < data.start || edit.end > data.end) return false;
+
+    // A preceding 0xFF pairs with the first edited byte (stuffing, restart or fill).
+    if (bytes[edit.start - 1] === 0xff) return false;
+    for (let i = edit.start; i < edit.end; i++) {
+        if (before[i] === 0xff || bytes[i] === 0xff) return false;
+    }
+    return true;
+}
+
+// ============================================================================================
+/**
+ * Find the last segment that starts at or before an offset
+ * @param {JpegSegment[]} segments - The segments in file order
+ * @param {number} offset - The offset to look up
+ * @returns {number} The index of the segment, or -1 if every segment starts after the offset
+ */
+function findLastSegmentIndex(segments: JpegSegment[], offset: number): number {
+    let lo = 0;
+    let hi = segments.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (segments[mid].start <= offset) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    return lo - 1;
 }
 
 // ============================================================================================
@@ -203,13 +729,86 @@ function readSegment(bytes: Uint8Array, markerStart: number): { headerEnd: numbe
     return { headerEnd: end, segmentEnd: end };
 }
 
+// ============================================================================================
+/**
+ * Build a segment for a two-byte marker that carries no length field
+ * @param {number} marker - The marker code
+ * @param {number} markerStart - The start of the marker
+ * @returns {JpegSegment} The segment
+ */
+function standaloneSegment(marker: number, markerStart: number): JpegSegment {
+    return {
+        marker,
+        name: markerName(marker),
+        start: markerStart,
+        end: markerStart + 2,
+        length: null,
+        header: { start: markerStart, end: markerStart + 2 },
+        payload: { start: markerStart + 2, end: markerStart + 2 },
+        data: null,
+        fields: {}
+    };
+}
+
+// ============================================================================================
+/**
+ * Parse the commonly needed header fields of a segment payload
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} marker - The marker code
+ * @param {number} start - The start of the payload (after the length field)
+ * @param {number} end - The end of the payload
+ * @returns {Record<string, JpegFieldValue>} The parsed fields
+ */
+function parseSegmentFields(bytes: Uint8Array, marker: number, start: number, end: number): Record<string, JpegFieldValue> {
+    const fields: Record<string, JpegFieldValue> = {};
+    const size = end - start;
+
+    if (marker >= 0xe0 && marker <= 0xef) {
+        // APPn payloads conventionally open with a NUL-terminated identifier.
+        let i = start;
+        while (i < end && i - start < 32 && bytes[i] !== 0x00) i++;
+        if (i < end && bytes[i] === 0x00) {
+            fields.identifier = readAscii(bytes, start, i);
+        }
+    } else if (isSofMarker(marker) && size >= 6) {
+        fields.precision = bytes[start];
+        fields.height = (bytes[start + 1] << 8) | bytes[start + 2];
+        fields.width = (bytes[start + 3] << 8) | bytes[start + 4];
+        fields.componentCount = bytes[start + 5];
+    } else if (marker === 0xda && size >= 1) {
+        fields.componentCount = bytes[start];
+    } else if (marker === 0xdd && size >= 2) {
+        fields.restartInterval = (bytes[start] << 8) | bytes[start + 1];
+    } else if (marker === 0xfe) {
+        fields.text = readAscii(bytes, start, end);
+    }
+
+    return fields;
+}
+
+// ============================================================================================
+/**
+ * Read a range of bytes as Latin-1 text
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} start - The start of the range
+ * @param {number} end - The end of the range
+ * @returns {string} The decoded text
+ */
+function readAscii(bytes: Uint8Array, start: number, end: number): string {
+    let out = '';
+    for (let i = start; i < end; i++) {
+        out += String.fromCharCode(bytes[i]);
+    }
+    return out;
+}
+
 // ============================================================================================
 /**
  * Check if a marker is a SOF marker
  * @param {number} marker - The marker to check
  * @returns {boolean} True if the marker is a SOF marker, false otherwise
  */
-function isSofMarker(marker: number): boolean {
+export function isSofMarker(marker: number): boolean {
     // SOF0–SOF15 (FF C0 – FF CF) excluding:
     //  - FF C4 (DHT)
     //  - FF C8, FF CC (JPEG extensions we don't treat specially here)
@@ -231,7 +830,7 @@ function consumeScanData(bytes: Uint8Array, regions: Uint8Array, start: number):
     while (i < len - 1) {
         const b = bytes[i];
         if (b !== 0xff) {
-            regions[i] = RegionCode.Scan;
+            regions[i] = JPEG_CODES.scan;
             i++;
             continue;
         }
@@ -240,22 +839,22 @@ function consumeScanData(bytes: Uint8Array, regions: Uint8Array, start: number):
 
         if (next === 0x00) {
             // Byte-stuffed 0xFF in the data stream (FF 00).
-            regions[i] = RegionCode.Scan;
-            regions[i + 1] = RegionCode.Scan;
+            regions[i] = JPEG_CODES.scan;
+            regions[i + 1] = JPEG_CODES.scan;
             i += 2;
             continue;
         }
 
         if (next >= 0xd0 && next <= 0xd7) {
             // Restart marker inside scan data.
-            markRange(regions, i, i + 2, RegionCode.Rst);
+            markRange(regions, i, i + 2, JPEG_CODES.rst);
             i += 2;
             continue;
         }
 
         if (next === 0xff) {
             // Fill byte (FF FF ...). Treat the first FF as scan data and continue.
-            regions[i] = RegionCode.Scan;
+            regions[i] = JPEG_CODES.scan;
             i++;
             continue;
         }
@@ -266,7 +865,7 @@ function consumeScanData(bytes: Uint8Array, regions: Uint8Array, start: number):
 
     // Trailing bytes at the end of the file – treat as scan data.
     while (i < len) {
-        regions[i] = RegionCode.Scan;
+        regions[i] = JPEG_CODES.scan;
         i++;
     }
 
@@ -279,9 +878,9 @@ function consumeScanData(bytes: Uint8Array, regions: Uint8Array, start: number):
  * @param {Uint8Array} regions - The regions of the JPEG
  * @param {number} start - The start of the range
  * @param {number} end - The end of the range
- * @param {RegionCode} code - The code to mark the range with
+ * @param {number} code - The code to mark the range with
  */
-function markRange(regions: Uint8Array, start: number, end: number, code: RegionCode): void {
+function markRange(regions: Uint8Array, start: number, end: number, code: number): void {
     if (start < 0 || end > regions.length) return;
     const len = regions.length;
     const s = Math.max(0, start);
@@ -296,39 +895,14 @@ function markRange(regions: Uint8Array, start: number, end: number, code: Region
 /// Mark a byte in the JPEG
  * @param {Uint8Array} regions - The regions of the JPEG
  * @param {number} index - The index of the byte
- * @param {RegionCode} code - The code to mark the byte with
+ * @param {number} code - The code to mark the byte with
  */
-function markByte(regions: Uint8Array, index: number, code: RegionCode): void {
+function markByte(regions: Uint8Array, index: number, code: number): void {
     if (index >= 0 && index < regions.length) {
         regions[index] = code;
     }
 }
 
-// ============================================================================================
-/**
- * Convert a region code to a region name
- * @param {number} code - The code to convert
- * @returns {string} The region name
- */
-function codeToRegion(code: number): ByteRegion {
-    switch (code) {
-        case RegionCode.Soi: return 'soi';
-        case RegionCode.App: return 'app';
-        case RegionCode.Dqt: return 'dqt';
-        case RegionCode.Sof: return 'sof';
-        case RegionCode.SofWidth: return 'sof-width';
-        case RegionCode.Dht: return 'dht';
-        case RegionCode.Dri: return 'dri';
-        case RegionCode.SosHeader: return 'sos-header';
-        case RegionCode.Scan: return 'scan';
-        case RegionCode.Rst: return 'rst';
-        case RegionCode.Com: return 'com';
-        case RegionCode.Eoi: return 'eoi';
-        case RegionCode.Other: return 'other';
-        default: return 'unknown';
-    }
-}
-
 // ============================================================================================
 /**
  * Convert a byte to a hex string
@@ -0,0 +1,317 @@
+/**
+ * jpegTables.ts
+ * @fileoverview JPEG table segment decoders
+ * @description Decodes quantization tables (DQT) into per-coefficient values with byte offsets,
+ * and Huffman tables (DHT) into their canonical code tables; also holds the standard Huffman
+ * tables and writes DHT segments for them
+ */
+
+import { JpegSegment } from './jpegStructure';
+
+/**
+ * Zigzag scan order: ZIGZAG[k] is the natural (row-major) index of the k-th
+ * coefficient as it is stored in the file.
+ */
+export const ZIGZAG: readonly number[] = [
+    0, 1, 8, 16, 9, 2, 3, 10,
+    17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34,
+    27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36,
+    29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46,
+    53, 60, 61, 54, 47, 55, 62, 63
+];
+
+// ============================================================================================
+/**
+ * A Huffman table as it is written in a DHT segment
+ * @param {'DC' | 'AC'} tableClass - The table class
+ * @param {number} id - The table destination id
+ * @param {number[]} counts - The number of codes of each length (1–16 bits)
+ * @param {number[]} symbols - The symbols in code order
+ */
+export interface HuffmanTableSpec {
+    tableClass: 'DC' | 'AC';
+    id: number;
+    counts: readonly number[];
+    symbols: readonly number[];
+}
+
+/**
+ * The example Huffman tables of ITU T.81 Annex K.3 (luminance as table 0, chrominance as table 1).
+ * Motion-JPEG frames leave out their DHT segments and rely on decoders using these.
+ */
+export const STANDARD_HUFFMAN_TABLES: readonly HuffmanTableSpec[] = [
+    {
+        tableClass: 'DC',
+        id: 0,
+        counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+        symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+    },
+    {
+        tableClass: 'AC',
+        id: 0,
+        counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+        symbols: [
+            0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+            0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+            0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+            0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+            0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+            0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+            0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+            0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+            0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+            0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+            0xf9, 0xfa
+        ]
+    },
+    {
+        tableClass: 'DC',
+        id: 1,
+        counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+        symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+    },
+    {
+        tableClass: 'AC',
+        id: 1,
+        counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+        symbols: [
+            0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+            0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+            0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+            0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+            0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+            0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+            0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+            0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+            0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+            0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+            0xf9, 0xfa
+        ]
+    }
+];
+
+// ============================================================================================
+/**
+ * A decoded quantization table
+ * @param {number} id - The table destination id (0–3)
+ * @param {number} precision - The value precision in bits (8 or 16)
+ * @param {number} offset - Offset of the Pq/Tq byte that opens the table
+ * @param {number[]} values - The 64 values in natural (row-major 8x8) order
+ * @param {number[]} valueOffsets - Byte offset of each value in natural order
+ */
+export interface QuantTable {
+    id: number;
+    precision: 8 | 16;
+    offset: number;
+    values: number[];
+    valueOffsets: number[];
+}
+
+// ============================================================================================
+/**
+ * Decode every quantization table in a DQT segment. A table that runs past
+ * the end of the segment stops decoding; the tables before it are returned.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The DQT segment
+ * @returns {QuantTable[]} The decoded tables in file order
+ */
+export function parseDqt(bytes: Uint8Array, segment: JpegSegment): QuantTable[] {
+    const tables: QuantTable[] = [];
+    const end = segment.payload.end;
+    let pos = segment.payload.start;
+
+    while (pos < end) {
+        const pqTq = bytes[pos];
+        const precision: 8 | 16 = (pqTq >> 4) === 0 ? 8 : 16;
+        const valueSize = precision === 8 ? 1 : 2;
+        const tableEnd = pos + 1 + 64 * valueSize;
+        if (tableEnd > end) break;
+
+        const values = new Array<number>(64);
+        const valueOffsets = new Array<number>(64);
+        for (let k = 0; k < 64; k++) {
+            const at = pos + 1 + k * valueSize;
+            const natural = ZIGZAG[k];
+            values[natural] = valueSize === 1 ? bytes[at] : (bytes[at] << 8) | bytes[at + 1];
+            valueOffsets[natural] = at;
+        }
+
+        tables.push({ id: pqTq & 0x0f, precision, offset: pos, values, valueOffsets });
+        pos = tableEnd;
+    }
+
+    return tables;
+}
+
+// ============================================================================================
+/**
+ * A single entry of a canonical Huffman code table
+ * @param {number} length - The code length in bits (1–16)
+ * @param {number} code - The code value (the low `length` bits are significant)
+ * @param {number} symbol - The symbol the code decodes to
+ * @param {number} offset - Byte offset of the symbol in the file
+ */
+export interface HuffmanCode {
+    length: number;
+    code: number;
+    symbol: number;
+    offset: number;
+}
+
+// ============================================================================================
+/**
+ * A decoded Huffman table
+ * @param {'DC' | 'AC'} tableClass - The table class
+ * @param {number} id - The table destination id (0–3)
+ * @param {number} offset - Offset of the Tc/Th byte that opens the table
+ * @param {number[]} counts - Number of codes of each length 1–16
+ * @param {number} countsOffset - Byte offset of the first count
+ * @param {number[]} symbols - The symbols in code order
+ * @param {number} symbolsOffset - Byte offset of the first symbol
+ * @param {HuffmanCode[]} codes - The canonical codes assigned to each symbol
+ * @param {boolean} overSubscribed - True when the counts describe more codes than fit in 16 bits
+ */
+export interface HuffmanTable {
+    tableClass: 'DC' | 'AC';
+    id: number;
+    offset: number;
+    counts: number[];
+    countsOffset: number;
+    symbols: number[];
+    symbolsOffset: number;
+    codes: HuffmanCode[];
+    overSubscribed: boolean;
+}
+
+// ============================================================================================
+/**
+ * Decode every Huffman table in a DHT segment and build its canonical codes.
+ * A table whose symbol list runs past the end of the segment stops decoding;
+ * the tables before it are returned.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The DHT segment
+ * @returns {HuffmanTable[]} The decoded tables in file order
+ */
+export function parseDht(bytes: Uint8Array, segment: JpegSegment): HuffmanTable[] {
+    const tables: HuffmanTable[] = [];
+    const end = segment.payload.end;
+    let pos = segment.payload.start;
+
+    while (pos + 17 <= end) {
+        const tcTh = bytes[pos];
+        const countsOffset = pos + 1;
+        const counts: number[] = [];
+        let total = 0;
+        for (let i = 0; i < 16; i++) {
+            counts.push(bytes[countsOffset + i]);
+            total += bytes[countsOffset + i];
+        }
+
+        const symbolsOffset = countsOffset + 16;
+        if (symbolsOffset + total > end) break;
+
+        const symbols = Array.from(bytes.subarray(symbolsOffset, symbolsOffset + total));
+        const { codes, overSubscribed } = buildCanonicalCodes(counts, symbols, symbolsOffset);
+
+        tables.push({
+            tableClass: (tcTh >> 4) === 0 ? 'DC' : 'AC',
+            id: tcTh & 0x0f,
+            offset: pos,
+            counts,
+            countsOffset,
+            symbols,
+            symbolsOffset,
+            codes,
+            overSubscribed
+        });
+
+        pos = symbolsOffset + total;
+    }
+
+    return tables;
+}
+
+// ============================================================================================
+/**
+ * Encode Huffman tables as a complete DHT segment, marker and length included
+ * @param {readonly HuffmanTableSpec[]} tables - The tables to define
+ * @returns {Uint8Array} The segment bytes
+ */
+export function encodeDhtSegment(tables: readonly HuffmanTableSpec[]): Uint8Array {
+    const length = 2 + tables.reduce((sum, table) => sum + 17 + table.symbols.length, 0);
+    const out = new Uint8Array(2 + length);
+    out[0] = 0xff;
+    out[1] = 0xc4;
+    out[2] = length >> 8;
+    out[3] = length & 0xff;
+
+    let pos = 4;
+    for (const table of tables) {
+        out[pos++] = ((table.tableClass === 'DC' ? 0 : 1) << 4) | table.id;
+        out.set(table.counts, pos);
+        pos += 16;
+        out.set(table.symbols, pos);
+        pos += table.symbols.length;
+    }
+    return out;
+}
+
+// ============================================================================================
+/**
+ * Describe what a Huffman symbol means to the entropy decoder
+ * @param {'DC' | 'AC'} tableClass - The class of the table the symbol belongs to
+ * @param {number} symbol - The symbol
+ * @returns {string} The description (e.g. "EOB", "run 2 / size 5", "size 7")
+ */
+export function describeHuffmanSymbol(tableClass: 'DC' | 'AC', symbol: number): string {
+    if (tableClass === 'DC') {
+        return `size ${symbol}`;
+    }
+    if (symbol === 0x00) return 'EOB';
+    if (symbol === 0xf0) return 'ZRL (16 zeros)';
+    return `run ${symbol >> 4} / size ${symbol & 0x0f}`;
+}
+
+// ============================================================================================
+/**
+ * Format a Huffman code as a bit string of its length
+ * @param {HuffmanCode} entry - The code entry
+ * @returns {string} The bit string (e.g. "1101")
+ */
+export function huffmanCodeBits(entry: HuffmanCode): string {
+    return entry.code.toString(2).padStart(entry.length, '0');
+}
+
+// ============================================================================================
+/**
+ * Assign canonical codes to symbols (ITU T.81 Annex C): codes of each length are
+ * consecutive, and the first code of the next length is the previous one plus one,
+ * shifted left by a bit.
+ * @param {number[]} counts - Number of codes of each length 1–16
+ * @param {number[]} symbols - The symbols in code order
+ * @param {number} symbolsOffset - Byte offset of the first symbol
+ * @returns {{ codes: HuffmanCode[]; overSubscribed: boolean }} The codes and whether the counts overflowed
+ */
+function buildCanonicalCodes(counts: number[], symbols: number[], symbolsOffset: number): { codes: HuffmanCode[]; overSubscribed: boolean } {
+    const codes: HuffmanCode[] = [];
+    let overSubscribed = false;
+    let code = 0;
+    let k = 0;
+
+    for (let length = 1; length <= 16; length++) {
+        for (let i = 0; i < counts[length - 1]; i++) {
+            if (code >= (1 << length)) {
+                overSubscribed = true;
+            }
+            codes.push({ length, code, symbol: symbols[k], offset: symbolsOffset + k });
+            code++;
+            k++;
+        }
+        code <<= 1;
+    }
+
+    return { codes, overSubscribed };
+}
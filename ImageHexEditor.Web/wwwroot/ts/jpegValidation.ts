@@ -0,0 +1,370 @@
+/**
+ * jpegValidation.ts
+ * @fileoverview Structural validation of a JPEG
+ * @description Checks the marker segments found by the analyzer against the rules a decoder relies
+ * on (segment lengths, table definitions before use, frame and scan consistency, restart marker
+ * order, EOI placement) and reports each problem with the offset of the offending bytes, so it is
+ * clear why a damaged file stops decoding where it does.
+ */
+
+import { Diagnostic, getRegionIndex } from './formatRegistry';
+import { FrameHeader, isSofMarker, JPEG_ANALYZER, JPEG_CODES, JpegLayout, JpegSegment, markerName, offsetToHex, parseFrameHeader, parseScanHeader } from './jpegStructure';
+import { parseDht, parseDqt } from './jpegTables';
+
+/** Records a diagnostic. */
+type Report = (offset: number, severity: Diagnostic['severity'], message: string) => void;
+
+// ============================================================================================
+/**
+ * What a scan check needs to know about the segments before the scan
+ * @param {boolean} huffmanCoded - False for arithmetic-coded frames, which take no Huffman tables
+ * @param {boolean} sawDht - True if the image has a DHT segment before the scan
+ * @param {number} restartInterval - The restart interval in effect (0 when none)
+ * @param {Set<number>} quantTables - The quantization table ids defined before the scan
+ * @param {Set<string>} huffmanTables - The Huffman tables defined before the scan, as 'DC0', 'AC1', ...
+ * @param {Set<string>} reported - Problems already reported for the image, so later scans do not repeat them
+ */
+interface ScanContext {
+    huffmanCoded: boolean;
+    sawDht: boolean;
+    restartInterval: number;
+    quantTables: Set<number>;
+    huffmanTables: Set<string>;
+    reported: Set<string>;
+}
+
+// ============================================================================================
+/**
+ * Validate the structure of a JPEG. Each image of a file with embedded images (MPF, concatenated
+ * JPEGs) is checked on its own: tables and frames do not carry over an SOI.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {Diagnostic[]} The problems found, in file order
+ */
+export function validateJpeg(bytes: Uint8Array, layout: JpegLayout): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const add: Report = (offset, severity, message) => {
+        diagnostics.push({ offset, severity, message });
+    };
+
+    const len = bytes.length;
+    let imageOpen = false;
+    let frame: FrameHeader | null = null;
+    let huffmanCoded = true;
+    let restartInterval = 0;
+    let sawDht = false;
+    let sawScan = false;
+    let anyFrame = false;
+    let anyScan = false;
+    const quantTables = new Set<number>();
+    const huffmanTables = new Set<string>();
+    const reported = new Set<string>();
+    let walkEnd = 0;
+    let trailingStart: number | null = null;
+
+    for (const segment of layout.segments) {
+        const marker = segment.marker;
+        const end = segment.data ? segment.data.end : segment.end;
+
+        // After an EOI only another SOI starts something worth checking; anything else is trailing data.
+        if (!imageOpen && marker !== 0xd8) {
+            trailingStart ??= walkEnd;
+            walkEnd = end;
+            continue;
+        }
+
+        if (imageOpen && !isPadding(bytes, walkEnd, segment.start)) {
+            add(walkEnd, 'warning', `${segment.start - walkEnd} stray bytes before ${segment.name}`);
+        }
+        walkEnd = end;
+
+        if (marker === 0xd8) {
+            if (imageOpen) add(segment.start, 'error', 'SOI inside an image that has no EOI yet');
+            if (trailingStart !== null && !isPadding(bytes, trailingStart, segment.start)) {
+                add(trailingStart, 'warning', `${segment.start - trailingStart} bytes of unrecognized data between EOI and the next SOI`);
+            }
+            trailingStart = null;
+            imageOpen = true;
+            frame = null;
+            restartInterval = 0;
+            sawDht = false;
+            sawScan = false;
+            quantTables.clear();
+            huffmanTables.clear();
+            reported.clear();
+        } else if (marker === 0xd9) {
+            if (!sawScan) add(segment.start, 'error', 'EOI before any scan (SOS)');
+            imageOpen = false;
+            trailingStart = segment.end;
+        } else if (marker >= 0xd0 && marker <= 0xd7) {
+            add(segment.start, 'warning', `${segment.name} outside scan data`);
+        } else if (marker === 0xdb) {
+            checkDqt(bytes, segment, quantTables, add);
+        } else if (marker === 0xc4) {
+            sawDht = true;
+            checkDht(bytes, segment, huffmanTables, add);
+        } else if (marker === 0xdd) {
+            restartInterval = typeof segment.fields.restartInterval === 'number' ? segment.fields.restartInterval : 0;
+        } else if (marker === 0xda) {
+            anyScan = true;
+            sawScan = true;
+            checkScan(bytes, layout, segment, frame, { huffmanCoded, sawDht, restartInterval, quantTables, huffmanTables, reported }, add);
+        } else if (isSofMarker(marker)) {
+            anyFrame = true;
+            const parsed = parseFrameHeader(bytes, segment);
+            if (!parsed) {
+                add(segment.start, 'error', `${segment.name} frame header is truncated`);
+                continue;
+            }
+            if (frame) add(segment.start, 'warning', `Second frame header (${segment.name}) in the same image`);
+            frame = parsed;
+            // SOF9 and up are arithmetic coded and take no Huffman tables.
+            huffmanCoded = marker < 0xc8;
+            checkFrame(segment, parsed, add);
+        }
+    }
+
+    const stop = findUnreadSegment(bytes, layout);
+    if (stop !== null && stop < len - 1) {
+        add(stop, 'error', describeBrokenSegment(bytes, stop));
+        return diagnostics.sort((a, b) => a.offset - b.offset);
+    }
+    if (stop !== null) add(stop, 'error', 'File ends in the middle of a marker');
+
+    if (imageOpen) {
+        add(Math.max(0, len - 1), 'error', 'Missing EOI marker at the end of the file');
+    } else if (trailingStart !== null && trailingStart < len) {
+        add(trailingStart, 'warning', `${len - trailingStart} bytes of trailing data after EOI`);
+    }
+    if (!anyFrame) add(0, 'error', 'No frame header (SOF) in the file');
+    if (!anyScan) add(0, 'error', 'No scan (SOS) in the file');
+
+    return diagnostics.sort((a, b) => a.offset - b.offset);
+}
+
+// ============================================================================================
+/**
+ * Find the segment the analyzer stopped at. The walk ends at a segment whose length it cannot
+ * trust (too small, or running past the end of the file) and leaves the rest unclassified.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {number | null} The offset of the segment's 0xFF byte, or null if the walk read the whole file
+ */
+export function findUnreadSegment(bytes: Uint8Array, layout: JpegLayout): number | null {
+    const last = layout.segments[layout.segments.length - 1];
+    let stop = last ? (last.data ? last.data.end : last.end) : 0;
+    while (stop < bytes.length && layout.regions[stop] !== JPEG_CODES.unknown) stop++;
+    return stop < bytes.length && bytes[stop] === 0xff ? stop : null;
+}
+
+// ============================================================================================
+/**
+ * Check a frame header: dimensions, component count and sampling factors
+ * @param {JpegSegment} segment - The SOF segment
+ * @param {FrameHeader} frame - The parsed frame header
+ * @param {Report} add - Records a diagnostic
+ */
+function checkFrame(segment: JpegSegment, frame: FrameHeader, add: Report): void {
+    if (frame.width === 0) add(frame.widthOffset, 'error', 'Frame width is 0');
+    if (frame.height === 0) add(frame.heightOffset, 'warning', 'Frame height is 0 (it must then be set by a DNL segment)');
+    if (frame.componentCount === 0) add(frame.componentCountOffset, 'error', 'Frame declares no components');
+    if (frame.components.length < frame.componentCount) {
+        add(frame.componentCountOffset, 'error', `${segment.name} declares ${frame.componentCount} components but holds ${frame.components.length}`);
+    }
+    for (const component of frame.components) {
+        if (component.horizontal < 1 || component.horizontal > 4 || component.vertical < 1 || component.vertical > 4) {
+            add(component.offset + 1, 'error', `Component ${component.id} has invalid sampling factors ${component.horizontal}x${component.vertical}`);
+        }
+        if (component.quantTable > 3) {
+            add(component.offset + 2, 'error', `Component ${component.id} selects quantization table ${component.quantTable} (at most 3)`);
+        }
+    }
+}
+
+// ============================================================================================
+/**
+ * Check a DQT segment and record the tables it defines
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The DQT segment
+ * @param {Set<number>} defined - The quantization table ids defined so far (updated)
+ * @param {Report} add - Records a diagnostic
+ */
+function checkDqt(bytes: Uint8Array, segment: JpegSegment, defined: Set<number>, add: Report): void {
+    const tables = parseDqt(bytes, segment);
+    let pos = segment.payload.start;
+    for (const table of tables) {
+        if (table.id > 3) add(table.offset, 'error', `DQT defines table ${table.id} (at most 3)`);
+        defined.add(table.id);
+        pos = table.offset + 1 + 64 * (table.precision / 8);
+    }
+    if (pos < segment.payload.end) add(pos, 'error', 'DQT table runs past the end of the segment');
+}
+
+// ============================================================================================
+/**
+ * Check a DHT segment and record the tables it defines
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The DHT segment
+ * @param {Set<string>} defined - The Huffman tables defined so far, as 'DC0', 'AC1', ... (updated)
+ * @param {Report} add - Records a diagnostic
+ */
+function checkDht(bytes: Uint8Array, segment: JpegSegment, defined: Set<string>, add: Report): void {
+    const tables = parseDht(bytes, segment);
+    let pos = segment.payload.start;
+    for (const table of tables) {
+        const name = `${table.tableClass}${table.id}`;
+        if (table.id > 3) add(table.offset, 'error', `DHT defines table ${name} (at most 3)`);
+        if (table.overSubscribed) add(table.countsOffset, 'error', `Huffman table ${name} has more codes than fit in 16 bits`);
+        defined.add(name);
+        pos = table.symbolsOffset + table.symbols.length;
+    }
+    if (pos < segment.payload.end) add(pos, 'error', 'DHT table runs past the end of the segment');
+}
+
+// ============================================================================================
+/**
+ * Check a scan: its header against the frame and the tables defined before it, and the order of
+ * the restart markers in its data
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @param {JpegSegment} segment - The SOS segment
+ * @param {FrameHeader | null} frame - The frame header of the image
+ * @param {ScanContext} context - The tables and settings defined before the scan
+ * @param {Report} add - Records a diagnostic
+ */
+function checkScan(bytes: Uint8Array, layout: JpegLayout, segment: JpegSegment, frame: FrameHeader | null, context: ScanContext, add: Report): void {
+    const scan = parseScanHeader(bytes, segment);
+    if (!scan) {
+        add(segment.start, 'error', 'Scan header is truncated');
+        return;
+    }
+    if (!frame) add(segment.start, 'error', 'Scan before any frame header (SOF)');
+
+    // Only warn once per image about tables, however many scans use them.
+    const once = (key: string, offset: number, severity: Diagnostic['severity'], message: string): void => {
+        if (context.reported.has(key)) return;
+        context.reported.add(key);
+        add(offset, severity, message);
+    };
+
+    if (context.huffmanCoded && !context.sawDht) {
+        once('dht', segment.start, 'warning', 'Scan before any DHT segment (decoders must fall back to the standard Huffman tables)');
+    }
+
+    // A DC first scan uses only DC tables, an AC scan only AC tables, DC refinement neither.
+    const usesDc = scan.spectralStart === 0 && scan.approxHigh === 0;
+    const usesAc = scan.spectralEnd > 0;
+
+    for (const component of scan.components) {
+        const declared = frame?.components.find((candidate) => candidate.id === component.selector);
+        if (frame && !declared) {
+            add(component.offset, 'error', `Scan component ${component.selector} is not declared in the frame header`);
+        }
+        if (declared && !context.quantTables.has(declared.quantTable)) {
+            once(`dqt${declared.quantTable}`, component.offset, 'error', `Component ${declared.id} uses quantization table ${declared.quantTable}, which no earlier DQT defines`);
+        }
+        if (context.huffmanCoded && context.sawDht) {
+            if (usesDc && !context.huffmanTables.has(`DC${component.dcTable}`)) {
+                once(`DC${component.dcTable}`, component.offset + 1, 'error', `Scan uses DC table ${component.dcTable}, which no earlier DHT defines`);
+            }
+            if (usesAc && !context.huffmanTables.has(`AC${component.acTable}`)) {
+                once(`AC${component.acTable}`, component.offset + 1, 'error', `Scan uses AC table ${component.acTable}, which no earlier DHT defines`);
+            }
+        }
+    }
+
+    const data = segment.data;
+    if (!data || data.start === data.end) {
+        add(segment.end, 'warning', 'Scan has no entropy-coded data');
+        return;
+    }
+    checkRestartMarkers(bytes, layout, data.start, data.end, context.restartInterval, add);
+}
+
+// ============================================================================================
+/**
+ * Check that the restart markers in scan data count RST0..RST7 in order, and that the scan has
+ * a restart interval to use them with
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @param {number} start - The first byte of the scan data
+ * @param {number} end - One past the last byte of the scan data
+ * @param {number} restartInterval - The restart interval in effect (0 when none)
+ * @param {Report} add - Records a diagnostic
+ */
+function checkRestartMarkers(bytes: Uint8Array, layout: JpegLayout, start: number, end: number, restartInterval: number, add: Report): void {
+    const runs = getRegionIndex(JPEG_ANALYZER, layout).runStarts.get('rst') ?? [];
+    let expected = 0;
+    let first = true;
+    for (let i = lowerBound(runs, start); i < runs.length && runs[i] < end; i++) {
+        // Adjacent markers share a run, so step through it two bytes at a time.
+        for (let pos = runs[i]; pos + 1 < end && layout.regions[pos] === JPEG_CODES.rst; pos += 2) {
+            if (first && restartInterval === 0) {
+                add(pos, 'warning', 'Restart marker in a scan without a restart interval (DRI)');
+            }
+            const index = bytes[pos + 1] - 0xd0;
+            if (index !== expected) {
+                // Report the first break only; every later marker would be off by the same amount.
+                add(pos, 'warning', `${markerName(bytes[pos + 1])} out of sequence (expected RST${expected})`);
+                return;
+            }
+            expected = (expected + 1) % 8;
+            first = false;
+        }
+    }
+}
+
+// ============================================================================================
+/**
+ * Explain why a segment could not be read
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} markerStart - The offset of the segment's 0xFF byte
+ * @returns {string} The message
+ */
+function describeBrokenSegment(bytes: Uint8Array, markerStart: number): string {
+    const name = markerName(bytes[markerStart + 1]);
+    const suffix = '; the rest of the file is not analyzed';
+    if (markerStart + 3 >= bytes.length) return `${name} length field is cut off by the end of the file${suffix}`;
+
+    const length = (bytes[markerStart + 2] << 8) | bytes[markerStart + 3];
+    if (length < 2) return `${name} segment length ${length} is too small (at least 2)${suffix}`;
+
+    const overrun = markerStart + 2 + length - bytes.length;
+    return `${name} segment length ${length} runs ${overrun} bytes past the end of the file (ends at ${offsetToHex(markerStart + 2 + length)})${suffix}`;
+}
+
+// ============================================================================================
+/**
+ * Check whether a range holds only fill bytes (0xFF may precede any marker)
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {number} start - The start of the range
+ * @param {number} end - The end of the range
+ * @returns {boolean} True if the range is empty or all 0xFF
+ */
+function isPadding(bytes: Uint8Array, start: number, end: number): boolean {
+    for (let i = start; i < end; i++) {
+        if (bytes[i] !== 0xff) return false;
+    }
+    return true;
+}
+
+// ============================================================================================
+/**
+ * Find the first index of a sorted list whose value is at least a given value
+ * @param {number[]} values - The sorted values
+ * @param {number} value - The value to look for
+ * @returns {number} The index (values.length if every value is smaller)
+ */
+function lowerBound(values: number[], value: number): number {
+    let lo = 0;
+    let hi = values.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (values[mid] < value) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    return lo;
+}
@@ -0,0 +1,157 @@
+/**
+ * mpf.ts
+ * @fileoverview Multi-Picture Format (MPF, APP2) parsing
+ * @description Reads the MP Index IFD of an "MPF\0" APP2 segment and lists the images it
+ * describes (the primary image plus the extra SOI…EOI images that follow its EOI)
+ */
+
+import { JpegLayout, JpegSegment } from './jpegStructure';
+import { findIfdEntry, Ifd, ifdNumber, readIfd, readTiffHeader, readUint32, TiffReader } from './tiffIfd';
+
+/** Size of the "MPF\0" identifier that precedes the TIFF header. */
+const MPF_HEADER_SIZE = 4;
+
+/** Size of one MP Entry in the MPEntry (0xB002) value. */
+const MP_ENTRY_SIZE = 16;
+
+const MP_IMAGE_TYPES: Record<number, string> = {
+    0x030000: 'Primary image',
+    0x010001: 'Large thumbnail (VGA)',
+    0x010002: 'Large thumbnail (Full HD)',
+    0x010003: 'Large thumbnail (4K)',
+    0x010004: 'Large thumbnail (8K)',
+    0x010005: 'Large thumbnail (16K)',
+    0x020001: 'Multi-frame panorama',
+    0x020002: 'Multi-frame disparity',
+    0x020003: 'Multi-frame multi-angle',
+    0x000000: 'Undefined'
+};
+
+// ============================================================================================
+/**
+ * An image listed in the MP Index IFD
+ * @param {number} index - The 1-based image number
+ * @param {number} type - The MP type code (low 24 bits of the attribute)
+ * @param {string} typeName - The readable MP type
+ * @param {boolean} representative - True when the image is flagged as the representative image
+ * @param {number} start - File offset of the image's SOI
+ * @param {number} end - File offset one past the image's last byte (clipped to the file)
+ * @param {number} size - The declared size in bytes
+ * @param {number} entryOffset - File offset of the 16-byte MP Entry
+ * @param {boolean} valid - True when the image starts with an SOI marker
+ */
+export interface MpfImage {
+    index: number;
+    type: number;
+    typeName: string;
+    representative: boolean;
+    start: number;
+    end: number;
+    size: number;
+    entryOffset: number;
+    valid: boolean;
+}
+
+// ============================================================================================
+/**
+ * The decoded MP Index of an MPF segment
+ * @param {TiffReader} reader - The TIFF reader (byte order and base offset)
+ * @param {Ifd} index - The MP Index IFD
+ * @param {string} version - The MPFVersion value (e.g. '0100')
+ * @param {MpfImage[]} images - The images, in MP Entry order
+ */
+export interface MpfData {
+    reader: TiffReader;
+    index: Ifd;
+    version: string;
+    images: MpfImage[];
+}
+
+// ============================================================================================
+/**
+ * Check whether a segment is an MPF APP2 segment
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The segment to check
+ * @returns {boolean} True if the payload starts with "MPF\0"
+ */
+export function isMpfSegment(bytes: Uint8Array, segment: JpegSegment): boolean {
+    if (segment.marker !== 0xe2) return false;
+    const p = segment.payload.start;
+    if (segment.payload.end - p < MPF_HEADER_SIZE) return false;
+    return bytes[p] === 0x4d && bytes[p + 1] === 0x50 && bytes[p + 2] === 0x46 && bytes[p + 3] === 0x00;
+}
+
+// ============================================================================================
+/**
+ * Parse the MP Index IFD of an MPF segment. Image offsets in MP Entries are relative to the
+ * segment's TIFF header, except for the first image, which is the file itself (offset 0).
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The APP2 segment
+ * @returns {MpfData | null} The MP Index, or null if the segment is not valid MPF
+ */
+export function parseMpf(bytes: Uint8Array, segment: JpegSegment): MpfData | null {
+    if (!isMpfSegment(bytes, segment)) return null;
+
+    const reader = readTiffHeader(bytes, segment.payload.start + MPF_HEADER_SIZE, segment.payload.end);
+    if (!reader) return null;
+    const index = readIfd(reader, reader.firstIfdOffset, 'MP Index');
+    if (!index) return null;
+
+    const versionEntry = findIfdEntry(index, 0xb000);
+    const version = versionEntry && Array.isArray(versionEntry.value)
+        ? String.fromCharCode(...versionEntry.value)
+        : '';
+
+    const images: MpfImage[] = [];
+    const entries = findIfdEntry(index, 0xb002);
+    const declared = ifdNumber(findIfdEntry(index, 0xb001)) ?? 0;
+    if (entries && !entries.truncated) {
+        const count = Math.min(declared || Infinity, Math.floor(entries.valueSize / MP_ENTRY_SIZE));
+        for (let i = 0; i < count; i++) {
+            const entryOffset = entries.valueOffset + i * MP_ENTRY_SIZE;
+            const attribute = readUint32(reader, entryOffset);
+            const size = readUint32(reader, entryOffset + 4);
+            const offset = readUint32(reader, entryOffset + 8);
+            const start = offset === 0 ? 0 : reader.base + offset;
+            const type = attribute & 0x00ffffff;
+            images.push({
+                index: i + 1,
+                type,
+                typeName: MP_IMAGE_TYPES[type] ?? `Type 0x${type.toString(16).padStart(6, '0')}`,
+                representative: (attribute & 0x20000000) !== 0,
+                start,
+                end: Math.min(start + size, bytes.length),
+                size,
+                entryOffset,
+                valid: start + 1 < bytes.length && bytes[start] === 0xff && bytes[start + 1] === 0xd8
+            });
+        }
+    }
+
+    return { reader, index, version, images };
+}
+
+// ============================================================================================
+/**
+ * Find and parse the first MPF segment of a JPEG
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegLayout} layout - The layout of the JPEG
+ * @returns {MpfData | null} The MP Index, or null if the file has no MPF segment
+ */
+export function findMpf(bytes: Uint8Array, layout: JpegLayout): MpfData | null {
+    for (const segment of layout.segments) {
+        const mpf = parseMpf(bytes, segment);
+        if (mpf) return mpf;
+    }
+    return null;
+}
+
+// ============================================================================================
+/**
+ * Describe an MPF image in a few words for menus and lists
+ * @param {MpfImage} image - The image
+ * @returns {string} The description (e.g. "Image 2 · Large thumbnail (VGA)")
+ */
+export function describeMpfImage(image: MpfImage): string {
+    return `Image ${image.index} · ${image.typeName}${image.representative ? ' (representative)' : ''}`;
+}
@@ -0,0 +1,273 @@
+/**
+ * photoshop.ts
+ * @fileoverview Photoshop (APP13) image resources and IPTC-IIM metadata
+ * @description Walks the 8BIM image resource blocks of a "Photoshop 3.0" APP13 segment and decodes
+ * the IPTC-IIM datasets (caption, keywords, by-line, ...) stored in resource 0x0404
+ */
+
+import { JpegSegment } from './jpegStructure';
+
+/** The identifier that opens the payload of a Photoshop APP13 segment. */
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+
+/** Resource id of the IPTC-NAA record. */
+export const IPTC_RESOURCE_ID = 0x0404;
+
+// ============================================================================================
+/**
+ * An 8BIM image resource block
+ * @param {number} id - The resource id
+ * @param {string} name - The Pascal-string name stored in the block (usually empty)
+ * @param {number} start - Offset of the '8BIM' signature
+ * @param {number} dataStart - Offset of the first data byte
+ * @param {number} dataEnd - Offset one past the last data byte present in the segment
+ * @param {number} end - Offset one past the block, including its padding byte
+ * @param {boolean} truncated - True when the segment ends before the declared data does
+ */
+export interface PhotoshopResource {
+    id: number;
+    name: string;
+    start: number;
+    dataStart: number;
+    dataEnd: number;
+    end: number;
+    truncated: boolean;
+}
+
+// ============================================================================================
+/**
+ * An IPTC-IIM dataset
+ * @param {number} record - The record number (1 = envelope, 2 = application)
+ * @param {number} dataset - The dataset number within the record
+ * @param {number} offset - Offset of the 0x1C tag marker
+ * @param {number} valueStart - Offset of the first value byte
+ * @param {number} valueEnd - Offset one past the last value byte
+ * @param {string} value - The value decoded as text
+ */
+export interface IptcDataset {
+    record: number;
+    dataset: number;
+    offset: number;
+    valueStart: number;
+    valueEnd: number;
+    value: string;
+}
+
+const RESOURCE_NAMES: Record<number, string> = {
+    0x03e9: 'Macintosh print info',
+    0x03ed: 'Resolution info',
+    0x03ee: 'Alpha channel names',
+    0x03f3: 'Print flags',
+    0x03f5: 'Color halftoning info',
+    0x03f8: 'Color transfer functions',
+    0x0400: 'Layer state',
+    0x0402: 'Layer groups',
+    0x0404: 'IPTC-NAA record',
+    0x0406: 'JPEG quality',
+    0x0408: 'Grid and guides',
+    0x0409: 'Thumbnail (Photoshop 4)',
+    0x040a: 'Copyright flag',
+    0x040b: 'URL',
+    0x040c: 'Thumbnail',
+    0x040d: 'Global angle',
+    0x040f: 'ICC profile',
+    0x0410: 'Watermark',
+    0x0411: 'ICC untagged',
+    0x0412: 'Effects visible',
+    0x0414: 'Document ID seed',
+    0x0415: 'Unicode alpha names',
+    0x0419: 'Global altitude',
+    0x041a: 'Slices',
+    0x041d: 'Alpha identifiers',
+    0x041e: 'URL list',
+    0x0421: 'Version info',
+    0x0422: 'EXIF data',
+    0x0423: 'EXIF data 3',
+    0x0424: 'XMP metadata',
+    0x0425: 'Caption digest',
+    0x0426: 'Print scale',
+    0x0428: 'Pixel aspect ratio',
+    0x043a: 'Print information',
+    0x043b: 'Print style',
+    0x2710: 'Print flags info'
+};
+
+const IPTC_NAMES: Record<string, string> = {
+    '1:0': 'Envelope record version',
+    '1:90': 'Coded character set',
+    '2:0': 'Record version',
+    '2:5': 'Object name',
+    '2:10': 'Urgency',
+    '2:15': 'Category',
+    '2:20': 'Supplemental category',
+    '2:25': 'Keywords',
+    '2:40': 'Special instructions',
+    '2:55': 'Date created',
+    '2:60': 'Time created',
+    '2:62': 'Digital creation date',
+    '2:63': 'Digital creation time',
+    '2:65': 'Originating program',
+    '2:70': 'Program version',
+    '2:80': 'By-line',
+    '2:85': 'By-line title',
+    '2:90': 'City',
+    '2:92': 'Sub-location',
+    '2:95': 'Province/State',
+    '2:100': 'Country code',
+    '2:101': 'Country',
+    '2:103': 'Original transmission reference',
+    '2:105': 'Headline',
+    '2:110': 'Credit',
+    '2:115': 'Source',
+    '2:116': 'Copyright notice',
+    '2:118': 'Contact',
+    '2:120': 'Caption/Abstract',
+    '2:122': 'Writer/Editor'
+};
+
+// ============================================================================================
+/**
+ * Check whether a segment is a Photoshop APP13 segment
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The segment to check
+ * @returns {boolean} True if the payload starts with "Photoshop 3.0\0"
+ */
+export function isPhotoshopSegment(bytes: Uint8Array, segment: JpegSegment): boolean {
+    if (segment.marker !== 0xed) return false;
+    const p = segment.payload.start;
+    if (segment.payload.end - p < PHOTOSHOP_HEADER.length) return false;
+    for (let i = 0; i < PHOTOSHOP_HEADER.length; i++) {
+        if (bytes[p + i] !== PHOTOSHOP_HEADER.charCodeAt(i)) return false;
+    }
+    return true;
+}
+
+// ============================================================================================
+/**
+ * Walk the 8BIM resource blocks of a Photoshop APP13 segment. Walking stops at the first
+ * block without an '8BIM' signature; the blocks before it are returned.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The APP13 segment
+ * @returns {PhotoshopResource[] | null} The resource blocks, or null if the segment is not Photoshop
+ */
+export function parsePhotoshopResources(bytes: Uint8Array, segment: JpegSegment): PhotoshopResource[] | null {
+    if (!isPhotoshopSegment(bytes, segment)) return null;
+
+    const resources: PhotoshopResource[] = [];
+    const end = segment.payload.end;
+    let pos = segment.payload.start + PHOTOSHOP_HEADER.length;
+
+    while (pos + 12 <= end) {
+        if (bytes[pos] !== 0x38 || bytes[pos + 1] !== 0x42 || bytes[pos + 2] !== 0x49 || bytes[pos + 3] !== 0x4d) break;
+
+        const id = (bytes[pos + 4] << 8) | bytes[pos + 5];
+        // The Pascal-string name (length byte + characters) is padded to an even size.
+        const nameLength = bytes[pos + 6];
+        let name = '';
+        for (let i = 0; i < nameLength && pos + 7 + i < end; i++) {
+            name += String.fromCharCode(bytes[pos + 7 + i]);
+        }
+        const sizeOffset = pos + 6 + ((nameLength + 2) & ~1);
+        if (sizeOffset + 4 > end) break;
+
+        const size = ((bytes[sizeOffset] << 24) | (bytes[sizeOffset + 1] << 16) | (bytes[sizeOffset + 2] << 8) | bytes[sizeOffset + 3]) >>> 0;
+        const dataStart = sizeOffset + 4;
+        const dataEnd = Math.min(dataStart + size, end);
+        const blockEnd = Math.min(dataStart + size + (size & 1), end);
+
+        resources.push({ id, name, start: pos, dataStart, dataEnd, end: blockEnd, truncated: dataStart + size > end });
+        pos = blockEnd;
+        if (dataStart + size > end) break;
+    }
+
+    return resources;
+}
+
+// ============================================================================================
+/**
+ * Decode the IPTC-IIM datasets of an IPTC-NAA resource (0x0404). Decoding stops at the first
+ * byte that is not a 0x1C tag marker.
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {PhotoshopResource} resource - The IPTC-NAA resource
+ * @returns {IptcDataset[]} The datasets in file order
+ */
+export function parseIptc(bytes: Uint8Array, resource: PhotoshopResource): IptcDataset[] {
+    const datasets: IptcDataset[] = [];
+    const end = resource.dataEnd;
+    let utf8 = false;
+    let pos = resource.dataStart;
+
+    while (pos + 5 <= end && bytes[pos] === 0x1c) {
+        const record = bytes[pos + 1];
+        const dataset = bytes[pos + 2];
+        let length = (bytes[pos + 3] << 8) | bytes[pos + 4];
+        let valueStart = pos + 5;
+
+        // Extended datasets: the low 15 bits give how many bytes hold the real length.
+        if (length & 0x8000) {
+            const lengthSize = length & 0x7fff;
+            if (lengthSize > 4 || valueStart + lengthSize > end) break;
+            length = 0;
+            for (let i = 0; i < lengthSize; i++) {
+                length = length * 256 + bytes[valueStart + i];
+            }
+            valueStart += lengthSize;
+        }
+
+        const valueEnd = Math.min(valueStart + length, end);
+        const raw = bytes.subarray(valueStart, valueEnd);
+        if (record === 1 && dataset === 90) {
+            // ESC % G selects UTF-8 for the datasets that follow.
+            utf8 = raw.length >= 3 && raw[0] === 0x1b && raw[1] === 0x25 && raw[2] === 0x47;
+        }
+
+        datasets.push({
+            record,
+            dataset,
+            offset: pos,
+            valueStart,
+            valueEnd,
+            value: decodeIptcText(raw, utf8)
+        });
+        pos = valueStart + length;
+    }
+
+    return datasets;
+}
+
+// ============================================================================================
+/**
+ * Get a readable name for a resource id
+ * @param {number} id - The resource id
+ * @returns {string} The name, or a generic label for ids without a well-known name
+ */
+export function photoshopResourceName(id: number): string {
+    if (RESOURCE_NAMES[id]) return RESOURCE_NAMES[id];
+    if (id >= 0x07d0 && id <= 0x0bb6) return 'Path information';
+    if (id === 0x0bb7) return 'Clipping path name';
+    return 'Resource';
+}
+
+// ============================================================================================
+/**
+ * Get a readable name for an IPTC dataset
+ * @param {IptcDataset} entry - The dataset
+ * @returns {string} The name, or "record:dataset" for unknown datasets
+ */
+export function iptcDatasetName(entry: IptcDataset): string {
+    return IPTC_NAMES[`${entry.record}:${entry.dataset}`] ?? `${entry.record}:${entry.dataset}`;
+}
+
+// ============================================================================================
+/**
+ * Decode an IPTC value as text, showing control bytes as '.'
+ * @param {Uint8Array} raw - The value bytes
+ * @param {boolean} utf8 - Whether the record declared UTF-8
+ * @returns {string} The text
+ */
+function decodeIptcText(raw: Uint8Array, utf8: boolean): string {
+    const text = utf8
+        ? new TextDecoder('utf-8').decode(raw)
+        : String.fromCharCode(...raw);
+    return text.replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '.');
+}
@@ -0,0 +1,406 @@
+/**
+ * pngStructure.ts
+ * @fileoverview PNG byte classification and chunk structure analysis
+ * @description Walks the chunks of a PNG (length, type, data, CRC) and classifies each byte into
+ * the regions of its legend, so the hex grid and Jump menu work unchanged
+ */
+
+import { ByteLayout, ByteRange, createRegionCodes, FormatAnalyzer, LayoutEdit } from './formatRegistry';
+
+/** The eight bytes every PNG opens with. */
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** The largest chunk length the specification allows (2^31 - 1). */
+const PNG_MAX_CHUNK_LENGTH = 0x7fffffff;
+
+/** CRC-32 lookup table, built on first use. */
+let crcTable: Uint32Array | null = null;
+
+// ============================================================================================
+/**
+ * A single PNG chunk
+ * @param {string} type - The four-letter chunk type (e.g. 'IHDR', 'IDAT')
+ * @param {number} start - Offset of the 4-byte length field
+ * @param {number} end - One past the last byte of the chunk (after the CRC), clipped to the file
+ * @param {number} length - The declared data length
+ * @param {number} typeOffset - Offset of the 4-byte chunk type
+ * @param {ByteRange} data - The chunk data present in the file
+ * @param {number} crcOffset - Offset of the 4-byte CRC
+ * @param {boolean} truncated - True when the file ends before the chunk's CRC does
+ */
+export interface PngChunk {
+    type: string;
+    start: number;
+    end: number;
+    length: number;
+    typeOffset: number;
+    data: ByteRange;
+    crcOffset: number;
+    truncated: boolean;
+}
+
+// ============================================================================================
+/**
+ * The decoded IHDR chunk
+ * @param {number} width - The image width in pixels
+ * @param {number} height - The image height in pixels
+ * @param {number} bitDepth - Bits per sample (or per palette index)
+ * @param {number} colorType - The color type (0, 2, 3, 4 or 6)
+ * @param {number} interlace - The interlace method (0 = none, 1 = Adam7)
+ */
+export interface PngHeader {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    interlace: number;
+}
+
+// ============================================================================================
+/**
+ * The layout of a PNG: the chunks and the decoded header
+ * @param {PngChunk[]} chunks - The chunks in file order
+ * @param {PngHeader | null} header - The decoded IHDR chunk, if present and complete
+ */
+export interface PngLayout extends ByteLayout {
+    chunks: PngChunk[];
+    header: PngHeader | null;
+}
+
+/** The regions of a PNG, in legend order. */
+const PNG_LEGEND = [
+    { id: 'png-signature', label: 'PNG Signature' },
+    { id: 'png-length',    label: 'Chunk Length' },
+    { id: 'png-type',      label: 'Chunk Type' },
+    { id: 'png-data',      label: 'Chunk Data' },
+    { id: 'png-idat',      label: 'Image Data (IDAT)', bulkData: true },
+    { id: 'png-crc',       label: 'Chunk CRC' }
+] as const;
+
+/** The codes stored in a PNG layout's `regions` array. */
+const PNG_CODES = createRegionCodes(PNG_LEGEND);
+
+/** The PNG analyzer. */
+export const PNG_ANALYZER: FormatAnalyzer<PngLayout> = {
+    id: 'png',
+    name: 'PNG',
+    mimeType: 'image/png',
+    detect: isPng,
+    analyze: analyzePng,
+    describeDimensions: (bytes, layout) => describePngDimensions(layout),
+    describeByte: (bytes, layout, offset) => describePngByte(layout, offset),
+    afterEdit: (layout, before, bytes, edit, options) => {
+        if (options.recomputeChecksums) fixPngCrcs(layout, before, bytes, edit);
+    },
+    unit: { name: 'chunk', find: findChunkAt },
+    legend: PNG_LEGEND,
+    jumpTargets: [
+        'png-signature',
+        'png-length',
+        'png-type',
+        'png-data',
+        'png-idat',
+        'png-crc'
+    ]
+};
+
+// ============================================================================================
+/**
+ * Check whether bytes open with the PNG signature
+ * @param {Uint8Array} bytes - The bytes to check
+ * @returns {boolean} True if the first eight bytes are the PNG signature
+ */
+export function isPng(bytes: Uint8Array): boolean {
+    if (bytes.length < PNG_SIGNATURE.length) return false;
+    return PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+}
+
+// ============================================================================================
+/**
+ * Check whether a layout came from the PNG analyzer
+ * @param {ByteLayout | null} layout - The layout to check
+ * @returns {boolean} True if the layout is a PNG layout
+ */
+export function isPngLayout(layout: ByteLayout | null): layout is PngLayout {
+    return !!layout && 'chunks' in layout;
+}
+
+// ============================================================================================
+/**
+ * Analyze a PNG: classify the signature, then each chunk's length, type, data and CRC.
+ * IDAT data gets its own region so compressed pixel data stands out. Walking stops at a
+ * chunk whose length is impossible; bytes after that (or after IEND) are "other".
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @returns {PngLayout | null} The layout, or null if the file is not a PNG
+ */
+export function analyzePng(bytes: Uint8Array): PngLayout | null {
+    if (!isPng(bytes)) return null;
+
+    const len = bytes.length;
+    const regions = new Uint8Array(len);
+    const chunks: PngChunk[] = [];
+    regions.fill(PNG_CODES['png-signature'], 0, PNG_SIGNATURE.length);
+
+    let pos = PNG_SIGNATURE.length;
+    while (pos + 8 <= len) {
+        const length = readUint32(bytes, pos);
+        if (length > PNG_MAX_CHUNK_LENGTH) break;
+
+        const type = String.fromCharCode(bytes[pos + 4], bytes[pos + 5], bytes[pos + 6], bytes[pos + 7]);
+        const dataStart = pos + 8;
+        const crcOffset = dataStart + length;
+        const end = Math.min(crcOffset + 4, len);
+
+        regions.fill(PNG_CODES['png-length'], pos, pos + 4);
+        regions.fill(PNG_CODES['png-type'], pos + 4, dataStart);
+        regions.fill(type === 'IDAT' ? PNG_CODES['png-idat'] : PNG_CODES['png-data'], dataStart, Math.min(crcOffset, len));
+        if (crcOffset < len) regions.fill(PNG_CODES['png-crc'], crcOffset, end);
+
+        chunks.push({
+            type,
+            start: pos,
+            end,
+            length,
+            typeOffset: pos + 4,
+            data: { start: dataStart, end: Math.min(crcOffset, len) },
+            crcOffset,
+            truncated: crcOffset + 4 > len
+        });
+
+        pos = end;
+        if (type === 'IEND') break;
+    }
+
+    regions.fill(PNG_CODES.other, pos, len);
+
+    return {
+        length: len,
+        regions,
+        chunks,
+        header: parseIhdr(bytes, chunks)
+    };
+}
+
+// ============================================================================================
+/**
+ * Find the chunk that owns a byte
+ * @param {PngLayout} layout - The layout of the PNG
+ * @param {number} offset - The offset of the byte
+ * @returns {PngChunk | null} The owning chunk, or null for the signature and trailing bytes
+ */
+export function findChunkAt(layout: PngLayout, offset: number): PngChunk | null {
+    for (const chunk of layout.chunks) {
+        if (offset >= chunk.start && offset < chunk.end) return chunk;
+        if (chunk.start > offset) break;
+    }
+    return null;
+}
+
+// ============================================================================================
+/**
+ * Name the part of a chunk a byte falls in
+ * @param {PngChunk} chunk - The chunk
+ * @param {number} offset - The offset of the byte
+ * @returns {string} 'length', 'type', 'data' or 'CRC'
+ */
+export function describeChunkPart(chunk: PngChunk, offset: number): string {
+    if (offset < chunk.typeOffset) return 'length';
+    if (offset < chunk.data.start) return 'type';
+    if (offset < chunk.crcOffset) return 'data';
+    return 'CRC';
+}
+
+// ============================================================================================
+/**
+ * Describe the image size declared by the IHDR chunk
+ * @param {PngLayout} layout - The layout of the PNG
+ * @returns {string | null} The dimensions (e.g. "640 × 480"), or null without an IHDR
+ */
+export function describePngDimensions(layout: PngLayout): string | null {
+    const header = layout.header;
+    return header ? `${header.width} × ${header.height}` : null;
+}
+
+// ============================================================================================
+/**
+ * Describe the chunk a byte belongs to and the part of it the byte falls in
+ * @param {PngLayout} layout - The layout of the PNG
+ * @param {number} offset - The offset of the byte
+ * @returns {string | null} The description (e.g. "IHDR chunk data"), or null outside every chunk
+ */
+export function describePngByte(layout: PngLayout, offset: number): string | null {
+    const chunk = findChunkAt(layout, offset);
+    return chunk ? `${chunk.type} chunk ${describeChunkPart(chunk, offset)}` : null;
+}
+
+// ============================================================================================
+/**
+ * Compute the CRC a chunk should carry (CRC-32 over its type and data)
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {PngChunk} chunk - The chunk; must not be truncated
+ * @returns {number} The CRC
+ */
+export function computeChunkCrc(bytes: Uint8Array, chunk: PngChunk): number {
+    return crc32(bytes.subarray(chunk.typeOffset, chunk.crcOffset));
+}
+
+// ============================================================================================
+/**
+ * Read the CRC stored after a chunk's data
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {PngChunk} chunk - The chunk; must not be truncated
+ * @returns {number} The stored CRC
+ */
+export function readChunkCrc(bytes: Uint8Array, chunk: PngChunk): number {
+    return readUint32(bytes, chunk.crcOffset);
+}
+
+// ============================================================================================
+/**
+ * Find the chunks whose stored CRC does not match their type and data. Truncated chunks,
+ * which have no complete CRC, are not reported.
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {PngLayout} layout - The layout of the PNG
+ * @returns {PngChunk[]} The chunks with bad CRCs, in file order
+ */
+export function findBadCrcs(bytes: Uint8Array, layout: PngLayout): PngChunk[] {
+    return layout.chunks.filter((chunk) => !chunk.truncated && readChunkCrc(bytes, chunk) !== computeChunkCrc(bytes, chunk));
+}
+
+// ============================================================================================
+/**
+ * Recompute, in place, the CRCs of the chunks an edit touched. Chunk positions come from the
+ * layout of the bytes before the edit, so nothing is written where an edited length field would
+ * move a CRC to, and the file is not parsed again.
+ * An edit that changes the file length must lie inside one chunk's data: that chunk's length field
+ * is rewritten before its CRC, and any other such edit leaves every CRC alone. A chunk whose own
+ * CRC or length bytes were edited is also left alone, so hand-typed values are kept.
+ * @param {PngLayout} layout - The layout of the file before the edit
+ * @param {Uint8Array} before - The bytes of the file before the edit
+ * @param {Uint8Array} bytes - The bytes of the file after the edit
+ * @param {LayoutEdit} edit - The edited range
+ * @returns {number} The number of CRCs rewritten (0 if the edit broke the signature)
+ */
+export function fixPngCrcs(layout: PngLayout, before: Uint8Array, bytes: Uint8Array, edit: LayoutEdit): number {
+    if (!isPng(bytes)) return 0;
+
+    const delta = edit.length - (edit.end - edit.start);
+    if (delta !== 0) {
+        const chunk = findChunkAt(layout, edit.start);
+        if (!chunk || chunk.truncated || edit.start < chunk.data.start || edit.end > chunk.crcOffset) return 0;
+        writeUint32(bytes, chunk.start, chunk.length + delta);
+        const resized = { ...chunk, end: chunk.end + delta, crcOffset: chunk.crcOffset + delta };
+        return writeChunkCrc(bytes, resized) ? 1 : 0;
+    }
+
+    let fixed = 0;
+    for (const chunk of layout.chunks) {
+        if (chunk.truncated || chunk.end <= edit.start) continue;
+        if (chunk.start >= edit.end) break;
+        if (rangeDiffers(before, bytes, chunk.start, chunk.typeOffset)) continue;
+        if (rangeDiffers(before, bytes, chunk.crcOffset, chunk.end)) continue;
+        if (!rangeDiffers(before, bytes, chunk.typeOffset, chunk.crcOffset)) continue;
+        if (writeChunkCrc(bytes, chunk)) fixed++;
+    }
+    return fixed;
+}
+
+// ============================================================================================
+/**
+ * Write the CRC a chunk should carry, if it does not carry it already
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {PngChunk} chunk - The chunk; must not be truncated
+ * @returns {boolean} True if the CRC was rewritten
+ */
+function writeChunkCrc(bytes: Uint8Array, chunk: PngChunk): boolean {
+    const crc = computeChunkCrc(bytes, chunk);
+    if (readChunkCrc(bytes, chunk) === crc) return false;
+    writeUint32(bytes, chunk.crcOffset, crc);
+    return true;
+}
+
+// ============================================================================================
+/**
+ * Check whether two same-length buffers differ anywhere in a range
+ * @param {Uint8Array} a - The first buffer
+ * @param {Uint8Array} b - The second buffer
+ * @param {number} start - The first offset to compare
+ * @param {number} end - One past the last offset to compare
+ * @returns {boolean} True if any byte in the range differs
+ */
+function rangeDiffers(a: Uint8Array, b: Uint8Array, start: number, end: number): boolean {
+    for (let i = start; i < end; i++) {
+        if (a[i] !== b[i]) return true;
+    }
+    return false;
+}
+
+// ============================================================================================
+/**
+ * Decode the IHDR chunk, which must come first
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {PngChunk[]} chunks - The chunks of the file
+ * @returns {PngHeader | null} The header, or null if IHDR is missing or short
+ */
+function parseIhdr(bytes: Uint8Array, chunks: PngChunk[]): PngHeader | null {
+    const ihdr = chunks[0];
+    if (!ihdr || ihdr.type !== 'IHDR' || ihdr.data.end - ihdr.data.start < 13) return null;
+    const p = ihdr.data.start;
+    return {
+        width: readUint32(bytes, p),
+        height: readUint32(bytes, p + 4),
+        bitDepth: bytes[p + 8],
+        colorType: bytes[p + 9],
+        interlace: bytes[p + 12]
+    };
+}
+
+// ============================================================================================
+/**
+ * Read a big-endian 32-bit unsigned integer
+ * @param {Uint8Array} bytes - The bytes to read from
+ * @param {number} offset - The offset of the first byte
+ * @returns {number} The value
+ */
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+// ============================================================================================
+/**
+ * Write a big-endian 32-bit unsigned integer
+ * @param {Uint8Array} bytes - The bytes to write to
+ * @param {number} offset - The offset of the first byte
+ * @param {number} value - The value
+ */
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+    bytes[offset] = value >>> 24;
+    bytes[offset + 1] = (value >>> 16) & 0xff;
+    bytes[offset + 2] = (value >>> 8) & 0xff;
+    bytes[offset + 3] = value & 0xff;
+}
+
+// ============================================================================================
+/**
+ * Compute the CRC-32 (ISO 3309, as used by PNG) of a byte range
+ * @param {Uint8Array} bytes - The bytes to checksum
+ * @returns {number} The CRC as an unsigned 32-bit value
+ */
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
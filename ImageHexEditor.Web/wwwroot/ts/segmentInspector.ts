@@ -0,0 +1,1448 @@
+/**
+ * segmentInspector.ts
+ * @fileoverview Contextual inspector panel for the JPEG segment under the caret.
+ * Shows the segment's marker, byte range and parsed fields, and renders structured
+ * editors for segments that have them (e.g. quantization tables as 8x8 grids, Huffman
+ * tables as canonical code listings, EXIF metadata as an editable tag tree, XMP packets
+ * as pretty-printed XML, ICC profiles as header and tag listings, JFIF and Adobe headers as editable
+ * fields, MPF indexes as image listings, Photoshop resources and IPTC-IIM datasets as lists).
+ * Edits are reported back through callbacks so they land in the undo history.
+ */
+
+import {
+    byteToHex,
+    componentName,
+    describeScan,
+    findSegmentAt,
+    JpegFieldValue,
+    JpegLayout,
+    JpegSegment,
+    offsetToHex,
+    parseFrameHeader,
+    parseScanHeader
+} from './jpegStructure';
+import { describeHuffmanSymbol, HuffmanTable, huffmanCodeBits, parseDht, parseDqt } from './jpegTables';
+import { ExifData, exifTagName, explainExifValue, findExifThumbnail, parseExif, replaceExifThumbnail, stripExifThumbnail } from './exif';
+import { encodeIfdValue, formatIfdValue, ifdTypeName, isIfdValueEditable } from './tiffIfd';
+import { describeDensityUnits, parseJfif } from './jfif';
+import { parseMpf } from './mpf';
+import { describeAdobeColorModel, describeColorTransform, parseAdobe } from './adobe';
+import { IPTC_RESOURCE_ID, iptcDatasetName, parseIptc, parsePhotoshopResources, photoshopResourceName } from './photoshop';
+import { iccTagName, iccToFileOffset, isIccSegment, parseIccProfile } from './icc';
+import { applyFormattedEdit, buildXmpSegment, formatXml, padXmpPacket, readXmpPacket, stripXmpHistory, XMP_MAX_PACKET_SIZE } from './xmp';
+
+// ============================================================================================
+/**
+ * The segment inspector options
+ * @param {function(number, Uint8Array): void} onEditBytes - The callback to overwrite bytes starting at an offset
+ * @param {function(number, number, Uint8Array): void} onReplaceBytes - The callback to replace a byte range with data of a different length
+ * @param {function(number): void} onSelectOffset - The callback to move the editor caret to an offset
+ * @param {function(): Promise<Uint8Array | null>} encodeThumbnail - The callback to encode the primary image as a JPEG thumbnail
+ */
+export interface SegmentInspectorOptions {
+    onEditBytes?: (offset: number, values: Uint8Array) => void;
+    onReplaceBytes?: (start: number, end: number, values: Uint8Array) => void;
+    onSelectOffset?: (offset: number) => void;
+    encodeThumbnail?: () => Promise<Uint8Array | null>;
+}
+
+// ============================================================================================
+/**
+ * The segment inspector interface
+ * @param {function(Uint8Array | null, JpegLayout | null, number): void} setData - Set the data for the inspector
+ */
+export interface SegmentInspector {
+    setData(bytes: Uint8Array | null, layout: JpegLayout | null, activeOffset: number): void;
+}
+
+// ============================================================================================
+/**
+ * Create a new segment inspector
+ * @param {HTMLElement} root - The root element to mount the inspector into
+ * @param {SegmentInspectorOptions} opts - The options for the inspector
+ * @returns {SegmentInspector} The created segment inspector
+ */
+export function createSegmentInspector(root: HTMLElement, opts: SegmentInspectorOptions): SegmentInspector {
+    root.classList.add('ix-inspector');
+
+    let bytes: Uint8Array | null = null;
+    let activeOffset = 0;
+    let renderedBytes: Uint8Array | null = null;
+    let renderedSegmentStart = -1;
+    let lastHuffman: { start: number; tables: HuffmanTable[] } | null = null;
+    const collapsedGroups = new Set<string>();
+    const valueEncoders = new WeakMap<HTMLInputElement, (text: string) => Uint8Array | null>();
+
+    // ============================================================================================
+    /**
+     * Describe a segment in plain words for the inspector header.
+     * @param {JpegSegment} segment - The segment to describe
+     * @returns {string} The description
+     */
+    function describeSegment(segment: JpegSegment): string {
+        const marker = segment.marker;
+        if (marker >= 0xe0 && marker <= 0xef) return 'Application Segment';
+        if (marker >= 0xd0 && marker <= 0xd7) return 'Restart Marker';
+        if (segment.name.startsWith('SOF')) return 'Frame Header';
+
+        switch (marker) {
+            case 0xd8: return 'Start of Image';
+            case 0xd9: return 'End of Image';
+            case 0xdb: return 'Quantization Table';
+            case 0xc4: return 'Huffman Table';
+            case 0xdd: return 'Restart Interval';
+            case 0xda: return 'Scan Header';
+            case 0xfe: return 'Comment';
+            default: return 'Marker Segment';
+        }
+    }
+
+    // ============================================================================================
+    /**
+     * Turn a camelCase field key into a readable label (e.g. "componentCount" → "Component count").
+     * @param {string} key - The field key
+     * @returns {string} The label
+     */
+    function fieldLabel(key: string): string {
+        const spaced = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+        return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+    }
+
+    // ============================================================================================
+    /**
+     * Format a parsed field value for display.
+     * @param {JpegFieldValue} value - The value to format
+     * @returns {string} The formatted value
+     */
+    function formatField(value: JpegFieldValue): string {
+        if (Array.isArray(value)) return value.join(', ');
+        return String(value);
+    }
+
+    // ============================================================================================
+    /**
+     * Build the header row with the marker name, description and byte range.
+     * @param {JpegSegment} segment - The segment being inspected
+     * @returns {HTMLElement} The header element
+     */
+    function buildHeader(segment: JpegSegment): HTMLElement {
+        const header = document.createElement('div');
+        header.className = 'ix-inspector-header';
+
+        const title = document.createElement('span');
+        title.className = 'ix-inspector-title';
+        title.textContent = `${segment.name} · ${describeSegment(segment)}`;
+        header.appendChild(title);
+
+        const end = segment.data ? segment.data.end : segment.end;
+        const range = document.createElement('span');
+        range.className = 'ix-inspector-range';
+        range.textContent = segment.length == null
+            ? `0x${offsetToHex(segment.start)}`
+            : `0x${offsetToHex(segment.start)}–0x${offsetToHex(end - 1)} · length ${segment.length}`;
+        header.appendChild(range);
+
+        return header;
+    }
+
+    // ============================================================================================
+    /**
+     * Build a definition list from the segment's parsed fields.
+     * @param {JpegSegment} segment - The segment being inspected
+     * @returns {HTMLElement | null} The field list, or null if the segment has no fields
+     */
+    function buildFieldList(segment: JpegSegment): HTMLElement | null {
+        const keys = Object.keys(segment.fields);
+        if (keys.length === 0) return null;
+
+        const list = document.createElement('dl');
+        list.className = 'ix-inspector-fields';
+        for (const key of keys) {
+            const row = document.createElement('div');
+            row.className = 'ix-inspector-field';
+
+            const dt = document.createElement('dt');
+            dt.textContent = fieldLabel(key);
+            const dd = document.createElement('dd');
+            dd.textContent = formatField(segment.fields[key]);
+
+            row.appendChild(dt);
+            row.appendChild(dd);
+            list.appendChild(row);
+        }
+        return list;
+    }
+
+    // ============================================================================================
+    /**
+     * Create an editable numeric cell bound to one big-endian value in the file.
+     * @param {number} offset - Offset of the value's first byte
+     * @param {number} size - Number of bytes the value occupies (1 or 2)
+     * @param {number} value - The current value
+     * @returns {HTMLInputElement} The input element
+     */
+    function buildValueInput(offset: number, size: number, value: number): HTMLInputElement {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.inputMode = 'numeric';
+        input.className = 'ix-inspector-cell';
+        input.value = String(value);
+        input.dataset.offset = String(offset);
+        input.dataset.size = String(size);
+        input.title = `Offset 0x${offsetToHex(offset)}`;
+        return input;
+    }
+
+    // ============================================================================================
+    /**
+     * Create an editable cell for a byte packing two 4-bit values, shown and entered
+     * as "high{separator}low" (e.g. sampling factors as "2×1", table selectors as "0/1").
+     * @param {number} offset - Offset of the packed byte
+     * @param {number} value - The current byte value
+     * @param {string} separator - The separator shown between the two nibbles
+     * @returns {HTMLInputElement} The input element
+     */
+    function buildNibbleInput(offset: number, value: number, separator: string): HTMLInputElement {
+        const input = buildValueInput(offset, 1, 0);
+        input.inputMode = 'text';
+        input.value = `${value >> 4}${separator}${value & 0x0f}`;
+        input.dataset.format = 'nibbles';
+        input.dataset.separator = separator;
+        return input;
+    }
+
+    // ============================================================================================
+    /**
+     * Build a definition list whose values are editable cells.
+     * @param {Array<[string, HTMLInputElement]>} rows - The label and input for each row
+     * @returns {HTMLElement} The list element
+     */
+    function buildEditableFieldList(rows: Array<[string, HTMLInputElement]>): HTMLElement {
+        const list = document.createElement('dl');
+        list.className = 'ix-inspector-fields';
+        for (const [label, input] of rows) {
+            const row = document.createElement('div');
+            row.className = 'ix-inspector-field';
+
+            const dt = document.createElement('dt');
+            dt.textContent = label;
+            const dd = document.createElement('dd');
+            dd.appendChild(input);
+
+            row.appendChild(dt);
+            row.appendChild(dd);
+            list.appendChild(row);
+        }
+        return list;
+    }
+
+    // ============================================================================================
+    /**
+     * Describe the coding process selected by an SOF marker.
+     * @param {number} marker - The SOF marker code
+     * @returns {string} The coding process
+     */
+    function describeFrameProcess(marker: number): string {
+        switch (marker) {
+            case 0xc0: return 'Baseline DCT, Huffman';
+            case 0xc1: return 'Extended sequential DCT, Huffman';
+            case 0xc2: return 'Progressive DCT, Huffman';
+            case 0xc3: return 'Lossless, Huffman';
+            case 0xc5: return 'Differential sequential DCT, Huffman';
+            case 0xc6: return 'Differential progressive DCT, Huffman';
+            case 0xc7: return 'Differential lossless, Huffman';
+            case 0xc9: return 'Extended sequential DCT, arithmetic';
+            case 0xca: return 'Progressive DCT, arithmetic';
+            case 0xcb: return 'Lossless, arithmetic';
+            case 0xcd: return 'Differential sequential DCT, arithmetic';
+            case 0xce: return 'Differential progressive DCT, arithmetic';
+            case 0xcf: return 'Differential lossless, arithmetic';
+            default: return 'Unknown coding process';
+        }
+    }
+
+    // ============================================================================================
+    /**
+     * Build the frame header view: editable precision, dimensions and component count,
+     * followed by one row per component (id, sampling factors, quant-table selector).
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegSegment} segment - The SOF segment
+     * @returns {HTMLElement} The view element
+     */
+    function buildSofView(data: Uint8Array, segment: JpegSegment): HTMLElement {
+        const view = document.createElement('div');
+        view.className = 'ix-inspector-frame';
+
+        const frame = parseFrameHeader(data, segment);
+        if (!frame) {
+            view.textContent = 'Frame header is truncated.';
+            return view;
+        }
+
+        const caption = document.createElement('div');
+        caption.className = 'ix-inspector-caption';
+        caption.textContent = describeFrameProcess(frame.marker);
+        view.appendChild(caption);
+
+        view.appendChild(buildEditableFieldList([
+            ['Precision', buildValueInput(frame.precisionOffset, 1, frame.precision)],
+            ['Height', buildValueInput(frame.heightOffset, 2, frame.height)],
+            ['Width', buildValueInput(frame.widthOffset, 2, frame.width)],
+            ['Components', buildValueInput(frame.componentCountOffset, 1, frame.componentCount)]
+        ]));
+
+        const table = document.createElement('table');
+        table.className = 'ix-inspector-table';
+        const head = document.createElement('tr');
+        for (const label of ['#', 'Id', 'Sampling', 'Quant table']) {
+            const th = document.createElement('th');
+            th.textContent = label;
+            head.appendChild(th);
+        }
+        table.appendChild(head);
+
+        frame.components.forEach((component, index) => {
+            const tr = document.createElement('tr');
+            const cells: Array<string | HTMLInputElement> = [
+                String(index + 1),
+                buildValueInput(component.offset, 1, component.id),
+                buildNibbleInput(component.offset + 1, data[component.offset + 1], '×'),
+                buildValueInput(component.offset + 2, 1, component.quantTable)
+            ];
+            for (const cell of cells) {
+                const td = document.createElement('td');
+                if (typeof cell === 'string') {
+                    td.textContent = cell;
+                } else {
+                    td.appendChild(cell);
+                }
+                tr.appendChild(td);
+            }
+            table.appendChild(tr);
+        });
+        view.appendChild(table);
+
+        if (frame.components.length < frame.componentCount) {
+            const warning = document.createElement('div');
+            warning.className = 'ix-inspector-warning';
+            warning.textContent = `Declares ${frame.componentCount} components but only ${frame.components.length} fit in the segment.`;
+            view.appendChild(warning);
+        }
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the scan header view: the scan label, editable spectral-selection and
+     * successive-approximation parameters, one row per component, and a list of every
+     * scan in the file so progressive scans can be told apart and jumped between.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegLayout} currentLayout - The layout of the JPEG
+     * @param {JpegSegment} segment - The SOS segment
+     * @returns {HTMLElement} The view element
+     */
+    function buildSosView(data: Uint8Array, currentLayout: JpegLayout, segment: JpegSegment): HTMLElement {
+        const view = document.createElement('div');
+        view.className = 'ix-inspector-frame ix-inspector-scan';
+
+        const scan = parseScanHeader(data, segment);
+        if (!scan) {
+            view.textContent = 'Scan header is truncated.';
+            return view;
+        }
+
+        const frameSegment = [...currentLayout.segments].reverse()
+            .find((candidate) => candidate.start < segment.start && candidate.name.startsWith('SOF'));
+        const frame = frameSegment ? parseFrameHeader(data, frameSegment) : null;
+
+        const caption = document.createElement('div');
+        caption.className = 'ix-inspector-caption';
+        caption.textContent = describeScan(data, currentLayout, segment) ?? 'Scan';
+        view.appendChild(caption);
+
+        view.appendChild(buildEditableFieldList([
+            ['Components', buildValueInput(scan.componentCountOffset, 1, scan.componentCount)],
+            ['Spectral start (Ss)', buildValueInput(scan.spectralStartOffset, 1, scan.spectralStart)],
+            ['Spectral end (Se)', buildValueInput(scan.spectralEndOffset, 1, scan.spectralEnd)],
+            ['Approx. Ah/Al', buildNibbleInput(scan.approximationOffset, data[scan.approximationOffset], '/')]
+        ]));
+
+        const table = document.createElement('table');
+        table.className = 'ix-inspector-table';
+        const head = document.createElement('tr');
+        for (const label of ['Component', 'Selector', 'DC/AC table']) {
+            const th = document.createElement('th');
+            th.textContent = label;
+            head.appendChild(th);
+        }
+        table.appendChild(head);
+
+        for (const component of scan.components) {
+            const tr = document.createElement('tr');
+            const cells: Array<string | HTMLInputElement> = [
+                componentName(frame, component.selector),
+                buildValueInput(component.offset, 1, component.selector),
+                buildNibbleInput(component.offset + 1, data[component.offset + 1], '/')
+            ];
+            for (const cell of cells) {
+                const td = document.createElement('td');
+                if (typeof cell === 'string') {
+                    td.textContent = cell;
+                } else {
+                    td.appendChild(cell);
+                }
+                tr.appendChild(td);
+            }
+            table.appendChild(tr);
+        }
+        view.appendChild(table);
+
+        const scans = currentLayout.segments.filter((candidate) => candidate.marker === 0xda);
+        if (scans.length > 1) {
+            const list = document.createElement('ol');
+            list.className = 'ix-inspector-list';
+            for (const other of scans) {
+                const item = document.createElement('li');
+                item.dataset.jump = String(other.start);
+                item.textContent = `${describeScan(data, currentLayout, other) ?? 'Scan'} · 0x${offsetToHex(other.start)}`;
+                if (other.start === segment.start) {
+                    item.classList.add('ix-inspector-list-item--current');
+                }
+                list.appendChild(item);
+            }
+            view.appendChild(list);
+        }
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build a collapsible group that remembers whether the user collapsed it across re-renders.
+     * @param {string} key - The key identifying the group across renders
+     * @param {string} title - The summary text
+     * @returns {HTMLDetailsElement} The group element
+     */
+    function buildGroup(key: string, title: string): HTMLDetailsElement {
+        const group = document.createElement('details');
+        group.className = 'ix-inspector-group';
+        group.open = !collapsedGroups.has(key);
+
+        const summary = document.createElement('summary');
+        summary.textContent = title;
+        group.appendChild(summary);
+
+        group.addEventListener('toggle', () => {
+            if (group.open) {
+                collapsedGroups.delete(key);
+            } else {
+                collapsedGroups.add(key);
+            }
+        });
+        return group;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the EXIF tag tree: one collapsible group per IFD with each tag's name, type,
+     * count and value. Rows select the tag's value bytes; values that can be rewritten
+     * without moving data are editable in place.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegSegment} segment - The APP1 segment
+     * @returns {HTMLElement | null} The view element, or null if the segment is not EXIF
+     */
+    function buildExifView(data: Uint8Array, segment: JpegSegment): HTMLElement | null {
+        const exif = parseExif(data, segment);
+        if (!exif) return null;
+
+        const view = document.createElement('div');
+        view.className = 'ix-exif-tree';
+
+        const caption = document.createElement('div');
+        caption.className = 'ix-inspector-caption';
+        caption.textContent = `EXIF · ${exif.reader.littleEndian ? 'little-endian (II)' : 'big-endian (MM)'}`;
+        view.appendChild(caption);
+
+        if (exif.ifds.length === 0) {
+            const empty = document.createElement('div');
+            empty.textContent = 'No readable IFDs.';
+            view.appendChild(empty);
+            return view;
+        }
+
+        const thumbnail = buildExifThumbnailActions(data, segment, exif);
+        if (thumbnail) view.appendChild(thumbnail);
+
+        for (const ifd of exif.ifds) {
+            const group = buildGroup(`exif:${ifd.name}`, `${ifd.name} · ${ifd.entries.length} tags · 0x${offsetToHex(ifd.offset)}`);
+
+            const table = document.createElement('table');
+            table.className = 'ix-inspector-table ix-exif-table';
+            const head = document.createElement('tr');
+            for (const label of ['Tag', 'Type', 'Count', 'Value']) {
+                const th = document.createElement('th');
+                th.textContent = label;
+                head.appendChild(th);
+            }
+            table.appendChild(head);
+
+            for (const entry of ifd.entries) {
+                const tr = document.createElement('tr');
+                tr.dataset.offset = String(entry.valueOffset);
+                tr.dataset.size = String(Math.max(1, entry.valueSize));
+                tr.dataset.entry = String(entry.entryOffset);
+
+                const nameCell = document.createElement('td');
+                nameCell.textContent = exifTagName(ifd.name, entry.tag);
+                nameCell.title = `Tag 0x${entry.tag.toString(16).padStart(4, '0').toUpperCase()} · entry at 0x${offsetToHex(entry.entryOffset)}`;
+                const typeCell = document.createElement('td');
+                typeCell.textContent = ifdTypeName(entry.type);
+                const countCell = document.createElement('td');
+                countCell.textContent = String(entry.count);
+
+                const valueCell = document.createElement('td');
+                valueCell.className = 'ix-exif-value';
+                const formatted = formatIfdValue(entry);
+                if (isIfdValueEditable(entry)) {
+                    const input = buildValueInput(entry.valueOffset, entry.valueSize, 0);
+                    input.inputMode = 'text';
+                    input.value = formatted;
+                    input.dataset.original = formatted;
+                    valueEncoders.set(input, (text) => encodeIfdValue(exif.reader, entry, text));
+                    valueCell.appendChild(input);
+                } else {
+                    valueCell.textContent = formatted;
+                }
+
+                const meaning = explainExifValue(ifd.name, entry);
+                if (meaning) {
+                    const hint = document.createElement('span');
+                    hint.className = 'ix-inspector-hint';
+                    hint.textContent = meaning;
+                    valueCell.appendChild(hint);
+                }
+
+                tr.appendChild(nameCell);
+                tr.appendChild(typeCell);
+                tr.appendChild(countCell);
+                tr.appendChild(valueCell);
+                table.appendChild(tr);
+            }
+
+            group.appendChild(table);
+            view.appendChild(group);
+        }
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the IFD1 thumbnail row: a link to the thumbnail bytes and actions to strip it or
+     * regenerate it from the primary image, so file browsers stop showing the unedited image.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegSegment} segment - The APP1 segment
+     * @param {ExifData} exif - The parsed EXIF data
+     * @returns {HTMLElement | null} The element, or null if IFD1 has no thumbnail
+     */
+    function buildExifThumbnailActions(data: Uint8Array, segment: JpegSegment, exif: ExifData): HTMLElement | null {
+        const thumbnail = findExifThumbnail(exif);
+        if (!thumbnail) return null;
+
+        const wrap = document.createElement('div');
+        wrap.className = 'ix-inspector-thumbnail';
+
+        const list = document.createElement('ol');
+        list.className = 'ix-inspector-list';
+        const item = document.createElement('li');
+        item.dataset.jump = String(thumbnail.start);
+        item.textContent = `IFD1 thumbnail · JPEG · ${thumbnail.end - thumbnail.start} bytes · 0x${offsetToHex(thumbnail.start)}`;
+        if (thumbnail.truncated) {
+            const warning = document.createElement('span');
+            warning.className = 'ix-inspector-warning ix-inspector-hint';
+            warning.textContent = `truncated (declares ${thumbnail.declaredLength})`;
+            item.appendChild(warning);
+        }
+        list.appendChild(item);
+        wrap.appendChild(list);
+
+        const actions = document.createElement('div');
+        actions.className = 'ix-inspector-actions';
+
+        const stripBtn = document.createElement('button');
+        stripBtn.type = 'button';
+        stripBtn.className = 'ix-toolbar-btn';
+        stripBtn.textContent = 'Strip thumbnail';
+
+        const regenerateBtn = document.createElement('button');
+        regenerateBtn.type = 'button';
+        regenerateBtn.className = 'ix-toolbar-btn';
+        regenerateBtn.textContent = 'Regenerate from image';
+        regenerateBtn.disabled = !thumbnail.atSegmentEnd || !opts.encodeThumbnail;
+        if (!thumbnail.atSegmentEnd) {
+            regenerateBtn.title = 'Other EXIF data follows the thumbnail, so it cannot be resized in place.';
+        }
+
+        const status = document.createElement('span');
+        status.className = 'ix-inspector-hint';
+
+        actions.appendChild(stripBtn);
+        actions.appendChild(regenerateBtn);
+        actions.appendChild(status);
+        wrap.appendChild(actions);
+
+        stripBtn.addEventListener('click', () => {
+            const next = stripExifThumbnail(data, segment);
+            if (next) {
+                opts.onReplaceBytes?.(segment.start, segment.end, next);
+            }
+        });
+
+        regenerateBtn.addEventListener('click', async () => {
+            regenerateBtn.disabled = true;
+            status.textContent = 'Encoding image…';
+            const jpeg = await opts.encodeThumbnail?.();
+            // The file may have changed while the image was being encoded.
+            if (bytes !== data) return;
+            const next = jpeg ? replaceExifThumbnail(data, segment, jpeg) : null;
+            if (!next) {
+                regenerateBtn.disabled = false;
+                status.textContent = jpeg ? 'The new thumbnail does not fit in the segment.' : 'The image could not be decoded.';
+                return;
+            }
+            opts.onReplaceBytes?.(segment.start, segment.end, next);
+        });
+
+        return wrap;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the JFIF / JFXX view: the header fields as editable cells and a link to the
+     * embedded thumbnail's bytes.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegSegment} segment - The APP0 segment
+     * @returns {HTMLElement | null} The view element, or null if the segment is not JFIF/JFXX
+     */
+    function buildJfifView(data: Uint8Array, segment: JpegSegment): HTMLElement | null {
+        const jfif = parseJfif(data, segment);
+        if (!jfif) return null;
+
+        const view = document.createElement('div');
+        view.className = 'ix-inspector-frame ix-inspector-jfif';
+
+        const readUint16 = (offset: number) => (data[offset] << 8) | data[offset + 1];
+        const caption = document.createElement('div');
+        caption.className = 'ix-inspector-caption';
+        if (jfif.kind === 'JFIF' && jfif.versionOffset !== undefined && jfif.unitsOffset !== undefined) {
+            const version = `${data[jfif.versionOffset]}.${String(data[jfif.versionOffset + 1]).padStart(2, '0')}`;
+            caption.textContent = `JFIF ${version} · density in ${describeDensityUnits(data[jfif.unitsOffset])}`;
+        } else {
+            const code = jfif.extensionOffset !== undefined ? data[jfif.extensionOffset] : 0;
+            caption.textContent = `JFXX extension 0x${byteToHex(code)}`;
+        }
+        view.appendChild(caption);
+
+        const rows: Array<[string, HTMLInputElement]> = [];
+        if (jfif.versionOffset !== undefined) {
+            rows.push(['Version (major)', buildValueInput(jfif.versionOffset, 1, data[jfif.versionOffset])]);
+            rows.push(['Version (minor)', buildValueInput(jfif.versionOffset + 1, 1, data[jfif.versionOffset + 1])]);
+        }
+        if (jfif.unitsOffset !== undefined) {
+            rows.push(['Density units', buildValueInput(jfif.unitsOffset, 1, data[jfif.unitsOffset])]);
+        }
+        if (jfif.xDensityOffset !== undefined && jfif.yDensityOffset !== undefined) {
+            rows.push(['X density', buildValueInput(jfif.xDensityOffset, 2, readUint16(jfif.xDensityOffset))]);
+            rows.push(['Y density', buildValueInput(jfif.yDensityOffset, 2, readUint16(jfif.yDensityOffset))]);
+        }
+        if (jfif.extensionOffset !== undefined) {
+            rows.push(['Extension code', buildValueInput(jfif.extensionOffset, 1, data[jfif.extensionOffset])]);
+        }
+        if (jfif.thumbWidthOffset !== undefined && jfif.thumbHeightOffset !== undefined) {
+            rows.push(['Thumbnail width', buildValueInput(jfif.thumbWidthOffset, 1, data[jfif.thumbWidthOffset])]);
+            rows.push(['Thumbnail height', buildValueInput(jfif.thumbHeightOffset, 1, data[jfif.thumbHeightOffset])]);
+        }
+        view.appendChild(buildEditableFieldList(rows));
+
+        const thumbnail = jfif.thumbnail;
+        if (thumbnail) {
+            const list = document.createElement('ol');
+            list.className = 'ix-inspector-list';
+            const item = document.createElement('li');
+            item.dataset.jump = String(thumbnail.start);
+            const size = thumbnail.format === 'jpeg' ? 'JPEG' : `${thumbnail.width}×${thumbnail.height} ${thumbnail.format === 'rgb' ? 'RGB' : 'palettized'}`;
+            item.textContent = `Thumbnail · ${size} · ${thumbnail.end - thumbnail.start} bytes · 0x${offsetToHex(thumbnail.start)}`;
+            if (thumbnail.truncated) {
+                const warning = document.createElement('span');
+                warning.className = 'ix-inspector-warning ix-inspector-hint';
+                warning.textContent = 'truncated';
+                item.appendChild(warning);
+            }
+            list.appendChild(item);
+            view.appendChild(list);
+        }
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the Adobe APP14 view: editable version, flags and color transform, with the color
+     * model decoders will use and a warning that the transform byte recolors the whole image.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegLayout} currentLayout - The layout of the JPEG
+     * @param {JpegSegment} segment - The APP14 segment
+     * @returns {HTMLElement | null} The view element, or null if the segment is not Adobe
+     */
+    function buildAdobeView(data: Uint8Array, currentLayout: JpegLayout, segment: JpegSegment): HTMLElement | null {
+        const adobe = parseAdobe(data, segment);
+        if (!adobe) return null;
+
+        const view = document.createElement('div');
+        view.className = 'ix-inspector-frame';
+
+        const model = describeAdobeColorModel(data, currentLayout, segment);
+        const caption = document.createElement('div');
+        caption.className = 'ix-inspector-caption';
+        caption.textContent = `Adobe · DCTEncodeVersion ${adobe.version} · transform ${describeColorTransform(adobe.transform)}${model ? ` · decodes as ${model}` : ''}`;
+        view.appendChild(caption);
+
+        const transformInput = buildValueInput(adobe.transformOffset, 1, adobe.transform);
+        transformInput.title += ' · changes how every pixel is decoded';
+        view.appendChild(buildEditableFieldList([
+            ['DCTEncodeVersion', buildValueInput(adobe.versionOffset, 2, adobe.version)],
+            ['Flags 0', buildValueInput(adobe.flags0Offset, 2, adobe.flags0)],
+            ['Flags 1', buildValueInput(adobe.flags1Offset, 2, adobe.flags1)],
+            ['Color transform', transformInput]
+        ]));
+
+        const warning = document.createElement('div');
+        warning.className = 'ix-inspector-warning';
+        warning.textContent = 'Editing the color transform changes how decoders convert every pixel (0 = RGB/CMYK, 1 = YCbCr, 2 = YCCK).';
+        view.appendChild(warning);
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the XMP editor: the packet pretty-printed in a text area. Applying an edit
+     * splices the change into the original packet text and rebuilds the segment; the packet
+     * padding absorbs the change in size, and a packet that outgrows it gets a new length field.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegSegment} segment - The APP1 segment
+     * @returns {HTMLElement | null} The view element, or null if the segment is not XMP
+     */
+    function buildXmpView(data: Uint8Array, segment: JpegSegment): HTMLElement | null {
+        const packet = readXmpPacket(data, segment);
+        if (!packet) return null;
+
+        const view = document.createElement('div');
+        view.className = 'ix-xmp';
+
+        const caption = document.createElement('div');
+        caption.className = 'ix-inspector-caption';
+        caption.textContent = `XMP packet · ${packet.end - packet.start} bytes at 0x${offsetToHex(packet.start)}`;
+        view.appendChild(caption);
+
+        const formatted = formatXml(packet.text);
+        const packetSize = packet.end - packet.start;
+        const editor = document.createElement('textarea');
+        editor.className = 'ix-xmp-editor';
+        editor.spellcheck = false;
+        editor.rows = 16;
+        editor.value = formatted;
+        editor.setAttribute('aria-label', 'XMP packet');
+        view.appendChild(editor);
+
+        const actions = document.createElement('div');
+        actions.className = 'ix-xmp-actions';
+
+        const applyBtn = document.createElement('button');
+        applyBtn.type = 'button';
+        applyBtn.className = 'ix-toolbar-btn ix-toolbar-btn--primary';
+        applyBtn.textContent = 'Apply';
+
+        const revertBtn = document.createElement('button');
+        revertBtn.type = 'button';
+        revertBtn.className = 'ix-toolbar-btn';
+        revertBtn.textContent = 'Revert';
+
+        const stripBtn = document.createElement('button');
+        stripBtn.type = 'button';
+        stripBtn.className = 'ix-toolbar-btn';
+        stripBtn.textContent = 'Strip history';
+        stripBtn.title = 'Remove xmpMM:History (the editing-software log)';
+
+        const status = document.createElement('span');
+        status.className = 'ix-inspector-hint';
+
+        actions.appendChild(applyBtn);
+        actions.appendChild(revertBtn);
+        actions.appendChild(stripBtn);
+        actions.appendChild(status);
+        view.appendChild(actions);
+
+        const editedPacket = () => applyFormattedEdit(packet.text, formatted, editor.value);
+
+        const syncState = () => {
+            const dirty = editor.value !== formatted;
+            const size = new TextEncoder().encode(padXmpPacket(editedPacket(), packetSize)).length;
+            const tooLarge = size > XMP_MAX_PACKET_SIZE;
+            applyBtn.disabled = !dirty || tooLarge;
+            revertBtn.disabled = !dirty;
+            status.classList.toggle('ix-inspector-warning', tooLarge);
+            if (tooLarge) {
+                status.textContent = `${size} bytes; one segment holds at most ${XMP_MAX_PACKET_SIZE}.`;
+            } else if (dirty) {
+                const delta = size - packetSize;
+                status.textContent = `Unsaved · ${size} bytes (${delta >= 0 ? '+' : ''}${delta})`;
+            } else {
+                status.textContent = '';
+            }
+        };
+
+        editor.addEventListener('input', syncState);
+
+        applyBtn.addEventListener('click', () => {
+            const next = buildXmpSegment(editedPacket(), packetSize);
+            if (next) {
+                opts.onReplaceBytes?.(segment.start, segment.end, next);
+            }
+        });
+
+        revertBtn.addEventListener('click', () => {
+            editor.value = formatted;
+            syncState();
+        });
+
+        stripBtn.addEventListener('click', () => {
+            const { text, removed } = stripXmpHistory(editor.value);
+            editor.value = text;
+            syncState();
+            if (removed === 0) {
+                status.textContent = 'No xmpMM:History found.';
+            }
+        });
+
+        syncState();
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the ICC profile view. The profile is reassembled from every ICC chunk in the
+     * file, so the header and tag table read the same from any chunk; rows jump the caret
+     * to the bytes they describe, in whichever chunk those bytes live.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegLayout} currentLayout - The layout of the JPEG
+     * @param {JpegSegment} segment - The APP2 segment
+     * @returns {HTMLElement | null} The view element, or null if the segment is not an ICC chunk
+     */
+    function buildIccView(data: Uint8Array, currentLayout: JpegLayout, segment: JpegSegment): HTMLElement | null {
+        if (!isIccSegment(data, segment)) return null;
+        const profile = parseIccProfile(data, currentLayout);
+        if (!profile) return null;
+
+        const view = document.createElement('div');
+        view.className = 'ix-icc';
+
+        const current = profile.chunks.find((chunk) => chunk.segment.start === segment.start);
+        const caption = document.createElement('div');
+        caption.className = 'ix-inspector-caption';
+        caption.textContent = `ICC profile · chunk ${current ? current.sequence : '?'} of ${profile.declaredCount} · ${profile.data.length} bytes`;
+        if (!profile.complete) {
+            const warning = document.createElement('span');
+            warning.className = 'ix-inspector-warning ix-inspector-hint';
+            warning.textContent = `${profile.chunks.length} of ${profile.declaredCount} chunks present`;
+            caption.appendChild(warning);
+        }
+        view.appendChild(caption);
+
+        if (profile.chunks.length > 1) {
+            const list = document.createElement('ol');
+            list.className = 'ix-inspector-list';
+            for (const chunk of profile.chunks) {
+                const item = document.createElement('li');
+                item.dataset.jump = String(chunk.segment.start);
+                item.textContent = `Chunk ${chunk.sequence} · ${chunk.dataEnd - chunk.dataStart} bytes · 0x${offsetToHex(chunk.segment.start)}`;
+                if (chunk === current) {
+                    item.classList.add('ix-inspector-list-item--current');
+                }
+                list.appendChild(item);
+            }
+            view.appendChild(list);
+        }
+
+        if (profile.header.length === 0) {
+            const empty = document.createElement('div');
+            empty.textContent = 'Profile is shorter than its 128-byte header.';
+            view.appendChild(empty);
+            return view;
+        }
+
+        const headerGroup = buildGroup('icc:header', 'Header');
+        const headerTable = document.createElement('table');
+        headerTable.className = 'ix-inspector-table ix-exif-table';
+        for (const field of profile.header) {
+            const tr = document.createElement('tr');
+            const fileOffset = iccToFileOffset(profile, field.offset);
+            if (fileOffset !== null) {
+                tr.dataset.offset = String(fileOffset);
+                tr.dataset.size = String(field.size);
+            }
+            const label = document.createElement('td');
+            label.textContent = field.label;
+            const value = document.createElement('td');
+            value.textContent = field.value;
+            tr.appendChild(label);
+            tr.appendChild(value);
+            headerTable.appendChild(tr);
+        }
+        headerGroup.appendChild(headerTable);
+        view.appendChild(headerGroup);
+
+        const tagGroup = buildGroup('icc:tags', `Tags · ${profile.tags.length}`);
+        const tagTable = document.createElement('table');
+        tagTable.className = 'ix-inspector-table ix-exif-table';
+        const head = document.createElement('tr');
+        for (const label of ['Tag', 'Type', 'Offset', 'Size']) {
+            const th = document.createElement('th');
+            th.textContent = label;
+            head.appendChild(th);
+        }
+        tagTable.appendChild(head);
+
+        for (const tag of profile.tags) {
+            const tr = document.createElement('tr');
+            const fileOffset = iccToFileOffset(profile, tag.offset);
+            const entryOffset = iccToFileOffset(profile, tag.entryOffset);
+            if (fileOffset !== null) {
+                tr.dataset.offset = String(fileOffset);
+                tr.dataset.size = String(Math.max(1, tag.size));
+            }
+            if (entryOffset !== null) {
+                tr.dataset.entry = String(entryOffset);
+            }
+
+            const lastOffset = iccToFileOffset(profile, tag.offset + Math.max(1, tag.size) - 1);
+            const chunkOf = (offset: number) => profile.chunks.findIndex((chunk) => offset >= chunk.dataStart && offset < chunk.dataEnd);
+            const spansChunks = fileOffset !== null && lastOffset !== null && chunkOf(fileOffset) !== chunkOf(lastOffset);
+
+            const notes = [
+                iccTagName(tag.signature),
+                spansChunks ? 'spans chunks' : null,
+                fileOffset === null ? 'past end of profile' : null
+            ].filter((note): note is string => !!note);
+            const nameCell = document.createElement('td');
+            nameCell.textContent = tag.signature;
+            if (notes.length > 0) {
+                const hint = document.createElement('span');
+                hint.className = 'ix-inspector-hint';
+                hint.textContent = notes.join(' · ');
+                nameCell.appendChild(hint);
+            }
+            const typeCell = document.createElement('td');
+            typeCell.textContent = tag.type.trim() || '—';
+            const offsetCell = document.createElement('td');
+            offsetCell.textContent = String(tag.offset);
+            const sizeCell = document.createElement('td');
+            sizeCell.textContent = String(tag.size);
+
+            tr.appendChild(nameCell);
+            tr.appendChild(typeCell);
+            tr.appendChild(offsetCell);
+            tr.appendChild(sizeCell);
+            tagTable.appendChild(tr);
+        }
+        tagGroup.appendChild(tagTable);
+        view.appendChild(tagGroup);
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the MPF view: the images listed in the MP Index, each row jumping to the image's SOI.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegSegment} segment - The APP2 segment
+     * @returns {HTMLElement | null} The view element, or null if the segment is not MPF
+     */
+    function buildMpfView(data: Uint8Array, segment: JpegSegment): HTMLElement | null {
+        const mpf = parseMpf(data, segment);
+        if (!mpf) return null;
+
+        const view = document.createElement('div');
+        view.className = 'ix-icc';
+
+        const caption = document.createElement('div');
+        caption.className = 'ix-inspector-caption';
+        caption.textContent = `MPF ${mpf.version || '?'} · ${mpf.images.length} image${mpf.images.length === 1 ? '' : 's'} · ${mpf.reader.littleEndian ? 'little-endian (II)' : 'big-endian (MM)'}`;
+        view.appendChild(caption);
+
+        const table = document.createElement('table');
+        table.className = 'ix-inspector-table ix-exif-table';
+        const head = document.createElement('tr');
+        for (const label of ['#', 'Type', 'Offset', 'Size']) {
+            const th = document.createElement('th');
+            th.textContent = label;
+            head.appendChild(th);
+        }
+        table.appendChild(head);
+
+        for (const image of mpf.images) {
+            const tr = document.createElement('tr');
+            tr.dataset.offset = String(image.start);
+            tr.dataset.size = '2';
+            tr.dataset.entry = String(image.entryOffset);
+
+            const indexCell = document.createElement('td');
+            indexCell.textContent = String(image.index);
+            const typeCell = document.createElement('td');
+            typeCell.textContent = image.typeName;
+            if (image.representative || !image.valid) {
+                const hint = document.createElement('span');
+                hint.className = image.valid ? 'ix-inspector-hint' : 'ix-inspector-hint ix-inspector-warning';
+                hint.textContent = image.valid ? 'representative' : 'no SOI at offset';
+                typeCell.appendChild(hint);
+            }
+            const offsetCell = document.createElement('td');
+            offsetCell.textContent = `0x${offsetToHex(image.start)}`;
+            const sizeCell = document.createElement('td');
+            sizeCell.textContent = String(image.size);
+
+            tr.appendChild(indexCell);
+            tr.appendChild(typeCell);
+            tr.appendChild(offsetCell);
+            tr.appendChild(sizeCell);
+            table.appendChild(tr);
+        }
+        view.appendChild(table);
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the Photoshop view: the 8BIM resource blocks, plus one group listing the IPTC-IIM
+     * datasets of each IPTC-NAA resource. Rows select the resource data or dataset value.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegSegment} segment - The APP13 segment
+     * @returns {HTMLElement | null} The view element, or null if the segment is not Photoshop
+     */
+    function buildPhotoshopView(data: Uint8Array, segment: JpegSegment): HTMLElement | null {
+        const resources = parsePhotoshopResources(data, segment);
+        if (!resources) return null;
+
+        const view = document.createElement('div');
+        view.className = 'ix-icc';
+
+        const caption = document.createElement('div');
+        caption.className = 'ix-inspector-caption';
+        caption.textContent = `Photoshop 3.0 · ${resources.length} resource${resources.length === 1 ? '' : 's'}`;
+        view.appendChild(caption);
+
+        if (resources.length === 0) {
+            const empty = document.createElement('div');
+            empty.textContent = 'No 8BIM resource blocks.';
+            view.appendChild(empty);
+            return view;
+        }
+
+        const resourceGroup = buildGroup('8bim:resources', 'Resources');
+        const resourceTable = document.createElement('table');
+        resourceTable.className = 'ix-inspector-table ix-exif-table';
+        const head = document.createElement('tr');
+        for (const label of ['ID', 'Name', 'Offset', 'Size']) {
+            const th = document.createElement('th');
+            th.textContent = label;
+            head.appendChild(th);
+        }
+        resourceTable.appendChild(head);
+
+        for (const resource of resources) {
+            const tr = document.createElement('tr');
+            tr.dataset.offset = String(resource.dataStart);
+            tr.dataset.size = String(Math.max(1, resource.dataEnd - resource.dataStart));
+            tr.dataset.entry = String(resource.start);
+
+            const idCell = document.createElement('td');
+            idCell.textContent = `0x${resource.id.toString(16).toUpperCase().padStart(4, '0')}`;
+            const nameCell = document.createElement('td');
+            nameCell.textContent = photoshopResourceName(resource.id);
+            const notes = [resource.name ? `"${resource.name}"` : null, resource.truncated ? 'truncated' : null]
+                .filter((note): note is string => !!note);
+            if (notes.length > 0) {
+                const hint = document.createElement('span');
+                hint.className = resource.truncated ? 'ix-inspector-hint ix-inspector-warning' : 'ix-inspector-hint';
+                hint.textContent = notes.join(' · ');
+                nameCell.appendChild(hint);
+            }
+            const offsetCell = document.createElement('td');
+            offsetCell.textContent = `0x${offsetToHex(resource.start)}`;
+            const sizeCell = document.createElement('td');
+            sizeCell.textContent = String(resource.dataEnd - resource.dataStart);
+
+            tr.appendChild(idCell);
+            tr.appendChild(nameCell);
+            tr.appendChild(offsetCell);
+            tr.appendChild(sizeCell);
+            resourceTable.appendChild(tr);
+        }
+        resourceGroup.appendChild(resourceTable);
+        view.appendChild(resourceGroup);
+
+        for (const resource of resources) {
+            if (resource.id !== IPTC_RESOURCE_ID) continue;
+            const datasets = parseIptc(data, resource);
+
+            const group = buildGroup(`8bim:iptc:${resource.start}`, `IPTC-IIM · ${datasets.length} dataset${datasets.length === 1 ? '' : 's'} · 0x${offsetToHex(resource.dataStart)}`);
+            const table = document.createElement('table');
+            table.className = 'ix-inspector-table ix-exif-table';
+            for (const entry of datasets) {
+                const tr = document.createElement('tr');
+                tr.dataset.offset = String(entry.valueStart);
+                tr.dataset.size = String(Math.max(1, entry.valueEnd - entry.valueStart));
+                tr.dataset.entry = String(entry.offset);
+
+                const label = document.createElement('td');
+                label.textContent = iptcDatasetName(entry);
+                const hint = document.createElement('span');
+                hint.className = 'ix-inspector-hint';
+                hint.textContent = `${entry.record}:${String(entry.dataset).padStart(3, '0')}`;
+                label.appendChild(hint);
+                const value = document.createElement('td');
+                value.className = 'ix-exif-value';
+                value.textContent = entry.value;
+
+                tr.appendChild(label);
+                tr.appendChild(value);
+                table.appendChild(tr);
+            }
+            group.appendChild(table);
+            view.appendChild(group);
+        }
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the quantization table editor: one 8x8 grid per table in natural order.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegSegment} segment - The DQT segment
+     * @returns {HTMLElement} The view element
+     */
+    function buildDqtView(data: Uint8Array, segment: JpegSegment): HTMLElement {
+        const view = document.createElement('div');
+        view.className = 'ix-inspector-tables';
+
+        const tables = parseDqt(data, segment);
+        if (tables.length === 0) {
+            view.textContent = 'No complete quantization tables in this segment.';
+            return view;
+        }
+
+        for (const table of tables) {
+            const block = document.createElement('div');
+            block.className = 'ix-quant-table';
+
+            const caption = document.createElement('div');
+            caption.className = 'ix-inspector-caption';
+            caption.textContent = `Table ${table.id} · ${table.precision}-bit · 0x${offsetToHex(table.offset)}`;
+            block.appendChild(caption);
+
+            const grid = document.createElement('div');
+            grid.className = 'ix-quant-grid';
+            const size = table.precision === 8 ? 1 : 2;
+            for (let i = 0; i < 64; i++) {
+                grid.appendChild(buildValueInput(table.valueOffsets[i], size, table.values[i]));
+            }
+            block.appendChild(grid);
+
+            view.appendChild(block);
+        }
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the Huffman table inspector: editable code-length counts plus the canonical
+     * code table. Codes that differ from the last render of the same segment are flagged
+     * so the effect of a byte edit is visible before the preview re-renders.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegSegment} segment - The DHT segment
+     * @returns {HTMLElement} The view element
+     */
+    function buildDhtView(data: Uint8Array, segment: JpegSegment): HTMLElement {
+        const view = document.createElement('div');
+        view.className = 'ix-inspector-tables';
+
+        const tables = parseDht(data, segment);
+        const previous = lastHuffman && lastHuffman.start === segment.start ? lastHuffman.tables : null;
+        lastHuffman = { start: segment.start, tables };
+
+        if (tables.length === 0) {
+            view.textContent = 'No complete Huffman tables in this segment.';
+            return view;
+        }
+
+        tables.forEach((table, tableIndex) => {
+            const block = document.createElement('div');
+            block.className = 'ix-huffman-table';
+
+            const caption = document.createElement('div');
+            caption.className = 'ix-inspector-caption';
+            caption.textContent = `${table.tableClass} table ${table.id} · ${table.codes.length} codes · 0x${offsetToHex(table.offset)}`;
+            if (table.overSubscribed) {
+                const warning = document.createElement('span');
+                warning.className = 'ix-inspector-warning';
+                warning.textContent = ' · over-subscribed';
+                caption.appendChild(warning);
+            }
+            block.appendChild(caption);
+
+            const counts = document.createElement('div');
+            counts.className = 'ix-huffman-counts';
+            for (let i = 0; i < 16; i++) {
+                const cell = buildValueInput(table.countsOffset + i, 1, table.counts[i]);
+                cell.title = `Codes of length ${i + 1} · offset 0x${offsetToHex(table.countsOffset + i)}`;
+                counts.appendChild(cell);
+            }
+            block.appendChild(counts);
+
+            const scroller = document.createElement('div');
+            scroller.className = 'ix-huffman-scroll';
+            const codeTable = document.createElement('table');
+            codeTable.className = 'ix-huffman-codes';
+
+            const head = document.createElement('tr');
+            for (const label of ['Len', 'Code', 'Symbol', 'Meaning']) {
+                const th = document.createElement('th');
+                th.textContent = label;
+                head.appendChild(th);
+            }
+            codeTable.appendChild(head);
+
+            const previousCodes = previous?.[tableIndex]?.codes ?? null;
+            table.codes.forEach((entry, i) => {
+                const tr = document.createElement('tr');
+                tr.dataset.offset = String(entry.offset);
+                tr.dataset.size = '1';
+
+                const prev = previousCodes ? previousCodes[i] : undefined;
+                if (previousCodes && (!prev || prev.length !== entry.length || prev.code !== entry.code || prev.symbol !== entry.symbol)) {
+                    tr.classList.add('ix-huffman-row--changed');
+                }
+
+                const cells = [
+                    String(entry.length),
+                    huffmanCodeBits(entry),
+                    `0x${byteToHex(entry.symbol)}`,
+                    describeHuffmanSymbol(table.tableClass, entry.symbol)
+                ];
+                for (const text of cells) {
+                    const td = document.createElement('td');
+                    td.textContent = text;
+                    tr.appendChild(td);
+                }
+                codeTable.appendChild(tr);
+            });
+
+            scroller.appendChild(codeTable);
+            block.appendChild(scroller);
+            view.appendChild(block);
+        });
+
+        return view;
+    }
+
+    // ============================================================================================
+    /**
+     * Build the segment-specific view, if the segment type has one.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegLayout} currentLayout - The layout of the JPEG
+     * @param {JpegSegment} segment - The segment being inspected
+     * @returns {HTMLElement | null} The view element, or null if there is none
+     */
+    function buildSegmentView(data: Uint8Array, currentLayout: JpegLayout, segment: JpegSegment): HTMLElement | null {
+        switch (segment.marker) {
+            case 0xdb: return buildDqtView(data, segment);
+            case 0xc4: return buildDhtView(data, segment);
+            case 0xda: return buildSosView(data, currentLayout, segment);
+            case 0xe0: return buildJfifView(data, segment);
+            case 0xe1: return buildExifView(data, segment) ?? buildXmpView(data, segment);
+            case 0xe2: return buildIccView(data, currentLayout, segment) ?? buildMpfView(data, segment);
+            case 0xed: return buildPhotoshopView(data, segment);
+            case 0xee: return buildAdobeView(data, currentLayout, segment);
+            default:
+                if (segment.name.startsWith('SOF')) return buildSofView(data, segment);
+                return null;
+        }
+    }
+
+    // ============================================================================================
+    /**
+     * Rebuild the panel for a segment, keeping keyboard focus on the same value cell
+     * so editing can continue after the edit round-trips through the editor state.
+     * @param {Uint8Array} data - The bytes of the JPEG
+     * @param {JpegLayout} currentLayout - The layout of the JPEG
+     * @param {JpegSegment} segment - The segment to render
+     */
+    function render(data: Uint8Array, currentLayout: JpegLayout, segment: JpegSegment): void {
+        const focused = document.activeElement as HTMLElement | null;
+        const focusedOffset = focused && root.contains(focused) ? focused.dataset.offset : undefined;
+
+        root.innerHTML = '';
+        root.appendChild(buildHeader(segment));
+
+        // Frame and scan headers render their fields as editable cells in the segment view.
+        const hasFieldEditor = segment.name.startsWith('SOF') || segment.marker === 0xda;
+        const fields = hasFieldEditor ? null : buildFieldList(segment);
+        if (fields) root.appendChild(fields);
+
+        const view = buildSegmentView(data, currentLayout, segment);
+        if (view) root.appendChild(view);
+
+        if (focusedOffset !== undefined) {
+            const next = root.querySelector<HTMLInputElement>(`input[data-offset="${focusedOffset}"]`);
+            if (next) {
+                next.focus();
+                next.select();
+            }
+        }
+    }
+
+    // ============================================================================================
+    /**
+     * Highlight the value cells that cover the active offset.
+     */
+    function syncActiveCell(): void {
+        const cells = root.querySelectorAll<HTMLElement>('[data-offset]');
+        cells.forEach((cell) => {
+            const offset = Number.parseInt(cell.dataset.offset ?? '', 10);
+            const size = Number.parseInt(cell.dataset.size ?? '1', 10);
+            const entry = Number.parseInt(cell.dataset.entry ?? '', 10);
+            // IFD rows also cover their 12-byte directory entry.
+            const isActive = (activeOffset >= offset && activeOffset < offset + size) ||
+                (!Number.isNaN(entry) && activeOffset >= entry && activeOffset < entry + 12);
+            cell.classList.toggle('ix-inspector-cell--active', isActive);
+        });
+    }
+
+    // ============================================================================================
+    /**
+     * Commit an edited value cell back to the file. Cells with a registered encoder
+     * (e.g. EXIF values) encode themselves; all others are big-endian integers.
+     * Invalid input restores the stored value instead of writing.
+     * @param {HTMLInputElement} input - The edited input
+     */
+    function commitInput(input: HTMLInputElement): void {
+        if (!bytes) return;
+        const offset = Number.parseInt(input.dataset.offset ?? '', 10);
+        const size = Number.parseInt(input.dataset.size ?? '1', 10);
+        if (Number.isNaN(offset) || offset < 0 || offset + size > bytes.length) return;
+
+        const data = bytes;
+        const encoder = valueEncoders.get(input);
+        if (encoder) {
+            const encoded = encoder(input.value);
+            if (!encoded) {
+                input.value = input.dataset.original ?? '';
+                return;
+            }
+            const unchanged = encoded.every((value, i) => data[offset + i] === value);
+            if (!unchanged) {
+                opts.onEditBytes?.(offset, encoded);
+            }
+            return;
+        }
+
+        let current = 0;
+        for (let i = 0; i < size; i++) {
+            current = (current << 8) | bytes[offset + i];
+        }
+
+        const text = input.value.trim();
+        if (input.dataset.format === 'nibbles') {
+            const match = /^(\d+)\s*[x×/,]\s*(\d+)$/i.exec(text);
+            const high = match ? Number.parseInt(match[1], 10) : NaN;
+            const low = match ? Number.parseInt(match[2], 10) : NaN;
+            if (!match || high > 15 || low > 15) {
+                input.value = `${current >> 4}${input.dataset.separator ?? '/'}${current & 0x0f}`;
+                return;
+            }
+            const packed = (high << 4) | low;
+            if (packed !== current) {
+                opts.onEditBytes?.(offset, Uint8Array.of(packed));
+            }
+            return;
+        }
+
+        const parsed = /^0x[0-9a-f]+$/i.test(text) ? Number.parseInt(text.slice(2), 16) : Number.parseInt(text, 10);
+        const max = size === 1 ? 0xff : 0xffff;
+        if (!/^(0x[0-9a-f]+|\d+)$/i.test(text) || Number.isNaN(parsed) || parsed > max) {
+            input.value = String(current);
+            return;
+        }
+        if (parsed === current) return;
+
+        const out = new Uint8Array(size);
+        for (let i = size - 1, v = parsed; i >= 0; i--, v >>= 8) {
+            out[i] = v & 0xff;
+        }
+        opts.onEditBytes?.(offset, out);
+    }
+
+    root.addEventListener('change', (ev) => {
+        const target = ev.target as HTMLElement | null;
+        if (target instanceof HTMLInputElement && target.dataset.offset) {
+            commitInput(target);
+        }
+    });
+
+    root.addEventListener('click', (ev) => {
+        const target = ev.target as HTMLElement | null;
+        const row = target?.closest<HTMLElement>('tr[data-offset], [data-jump]');
+        if (!row || !root.contains(row)) return;
+        const offset = Number.parseInt(row.dataset.offset ?? row.dataset.jump ?? '', 10);
+        if (!Number.isNaN(offset)) {
+            opts.onSelectOffset?.(offset);
+        }
+    });
+
+    root.addEventListener('focusin', (ev) => {
+        const target = ev.target as HTMLElement | null;
+        if (!target || !target.dataset.offset) return;
+        const offset = Number.parseInt(target.dataset.offset, 10);
+        if (!Number.isNaN(offset) && offset !== activeOffset) {
+            opts.onSelectOffset?.(offset);
+        }
+    });
+
+    return {
+        setData(nextBytes, nextLayout, nextActiveOffset) {
+            bytes = nextBytes;
+            activeOffset = nextActiveOffset;
+
+            const segment = nextBytes ? findSegmentAt(nextLayout, nextActiveOffset) : null;
+            if (!nextBytes || !nextLayout || !segment) {
+                root.hidden = true;
+                root.innerHTML = '';
+                renderedBytes = null;
+                renderedSegmentStart = -1;
+                return;
+            }
+
+            root.hidden = false;
+            if (nextBytes !== renderedBytes || segment.start !== renderedSegmentStart) {
+                render(nextBytes, nextLayout, segment);
+                renderedBytes = nextBytes;
+                renderedSegmentStart = segment.start;
+            }
+            syncActiveCell();
+        }
+    };
+}
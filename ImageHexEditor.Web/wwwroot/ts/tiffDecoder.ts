@@ -0,0 +1,215 @@
+/**
+ * tiffDecoder.ts
+ * @fileoverview Minimal TIFF pixel decoder for the preview
+ * @description Browsers cannot show TIFF in an <img>, so the preview decodes uncompressed and
+ * PackBits strips or tiles itself (chunky bilevel, grayscale, palette, RGB(A) and CMYK) into
+ * RGBA pixels for a canvas. Missing or short blocks leave their pixels black rather than failing.
+ */
+
+import { TiffImage } from './tiffStructure';
+
+/** Compression codes the decoder understands. */
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PACKBITS = 32773;
+
+/** Largest image decoded for the preview (keeps the RGBA buffer within 64 MB). */
+const MAX_DECODED_PIXELS = 16 * 1024 * 1024;
+
+// ============================================================================================
+/**
+ * Decoded pixels ready for a canvas
+ * @param {number} width - The width in pixels
+ * @param {number} height - The height in pixels
+ * @param {Uint8ClampedArray} rgba - The pixels, four bytes per pixel
+ */
+export interface DecodedTiffImage {
+    width: number;
+    height: number;
+    rgba: Uint8ClampedArray;
+}
+
+// ============================================================================================
+/**
+ * Check whether the decoder supports an image
+ * @param {TiffImage} image - The image to check
+ * @returns {boolean} True for uncompressed or PackBits chunky images in a supported color model
+ */
+export function canDecodeTiffImage(image: TiffImage): boolean {
+    if (image.compression !== COMPRESSION_NONE && image.compression !== COMPRESSION_PACKBITS) return false;
+    if (image.planarConfig !== 1 && image.samplesPerPixel > 1) return false;
+    if (image.width <= 0 || image.height <= 0 || image.width * image.height > MAX_DECODED_PIXELS) return false;
+    if (image.tiled && (image.tileWidth <= 0 || image.tileHeight <= 0)) return false;
+
+    const bits = image.bitsPerSample[0];
+    if (!image.bitsPerSample.every((value) => value === bits) || ![1, 2, 4, 8, 16].includes(bits)) return false;
+    if (image.tiled && (image.tileWidth * bits * image.samplesPerPixel) % 8 !== 0) return false;
+
+    switch (image.photometric) {
+        case 0:
+        case 1: return true;
+        case 2: return image.samplesPerPixel >= 3;
+        case 3: return !!image.colorMap && !image.colorMap.truncated && image.samplesPerPixel === 1;
+        case 5: return image.samplesPerPixel >= 4 && bits === 8;
+        default: return false;
+    }
+}
+
+// ============================================================================================
+/**
+ * Decode an image to RGBA pixels
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {TiffImage} image - The image to decode
+ * @param {boolean} littleEndian - The byte order of the file (for 16-bit samples)
+ * @returns {DecodedTiffImage | null} The pixels, or null if the image is not supported
+ */
+export function decodeTiffImage(bytes: Uint8Array, image: TiffImage, littleEndian: boolean): DecodedTiffImage | null {
+    if (!canDecodeTiffImage(image)) return null;
+
+    const { width, height, samplesPerPixel } = image;
+    const bits = image.bitsPerSample[0];
+    const bitsPerPixel = bits * samplesPerPixel;
+    const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+    const raw = new Uint8Array(rowBytes * height);
+
+    if (image.tiled) {
+        const tileRowBytes = (image.tileWidth * bitsPerPixel) / 8;
+        const across = Math.ceil(width / image.tileWidth);
+        image.blocks.forEach((block, i) => {
+            const tileX = (i % across) * tileRowBytes;
+            const tileY = Math.floor(i / across) * image.tileHeight;
+            if (tileX >= rowBytes || tileY >= height) return;
+            const data = decompress(bytes, block.start, block.end, image.compression, tileRowBytes * image.tileHeight);
+            const copy = Math.min(tileRowBytes, rowBytes - tileX);
+            for (let row = 0; row < image.tileHeight && tileY + row < height; row++) {
+                raw.set(data.subarray(row * tileRowBytes, row * tileRowBytes + copy), (tileY + row) * rowBytes + tileX);
+            }
+        });
+    } else {
+        const rowsPerStrip = Math.max(1, image.rowsPerStrip);
+        image.blocks.forEach((block, i) => {
+            const firstRow = i * rowsPerStrip;
+            if (firstRow >= height) return;
+            const expected = Math.min(rowsPerStrip, height - firstRow) * rowBytes;
+            raw.set(decompress(bytes, block.start, block.end, image.compression, expected), firstRow * rowBytes);
+        });
+    }
+
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    const palette = image.photometric === 3 && image.colorMap && typeof image.colorMap.value !== 'string' ? image.colorMap.value : null;
+    const paletteSize = 1 << bits;
+    const hasAlpha = image.photometric === 2 && samplesPerPixel >= 4 && (image.extraSamples[0] === 1 || image.extraSamples[0] === 2);
+    const samples = new Array<number>(samplesPerPixel);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            for (let s = 0; s < samplesPerPixel; s++) {
+                samples[s] = readSample(raw, y * rowBytes, (x * samplesPerPixel + s) * bits, bits, littleEndian);
+            }
+
+            const out = (y * width + x) * 4;
+            let r: number;
+            let g: number;
+            let b: number;
+            switch (image.photometric) {
+                case 0:
+                    r = g = b = 255 - scaleSample(samples[0], bits);
+                    break;
+                case 1:
+                    r = g = b = scaleSample(samples[0], bits);
+                    break;
+                case 3:
+                    // ColorMap holds all reds, then all greens, then all blues, as 16-bit values.
+                    r = (palette![samples[0]] ?? 0) >> 8;
+                    g = (palette![samples[0] + paletteSize] ?? 0) >> 8;
+                    b = (palette![samples[0] + paletteSize * 2] ?? 0) >> 8;
+                    break;
+                case 5: {
+                    const k = 255 - samples[3];
+                    r = ((255 - samples[0]) * k) / 255;
+                    g = ((255 - samples[1]) * k) / 255;
+                    b = ((255 - samples[2]) * k) / 255;
+                    break;
+                }
+                default:
+                    r = scaleSample(samples[0], bits);
+                    g = scaleSample(samples[1], bits);
+                    b = scaleSample(samples[2], bits);
+            }
+            rgba[out] = r;
+            rgba[out + 1] = g;
+            rgba[out + 2] = b;
+            rgba[out + 3] = hasAlpha ? scaleSample(samples[3], bits) : 0xff;
+        }
+    }
+
+    return { width, height, rgba };
+}
+
+// ============================================================================================
+/**
+ * Decompress one strip or tile into a buffer of the expected size (zero-filled when short)
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {number} start - Offset of the first byte of the block
+ * @param {number} end - One past the last byte of the block
+ * @param {number} compression - The compression code (none or PackBits)
+ * @param {number} expected - The decompressed size of the block
+ * @returns {Uint8Array} The decompressed bytes
+ */
+function decompress(bytes: Uint8Array, start: number, end: number, compression: number, expected: number): Uint8Array {
+    const out = new Uint8Array(expected);
+    if (compression === COMPRESSION_NONE) {
+        out.set(bytes.subarray(start, Math.min(end, start + expected)));
+        return out;
+    }
+
+    // PackBits: a header n of 0..127 copies n + 1 literal bytes, -1..-127 repeats the next byte
+    // 1 - n times, and -128 is a no-op.
+    let pos = start;
+    let written = 0;
+    while (pos < end && written < expected) {
+        const n = (bytes[pos++] << 24) >> 24;
+        if (n >= 0) {
+            const count = Math.min(n + 1, end - pos, expected - written);
+            out.set(bytes.subarray(pos, pos + count), written);
+            pos += n + 1;
+            written += count;
+        } else if (n !== -128) {
+            if (pos >= end) break;
+            const count = Math.min(1 - n, expected - written);
+            out.fill(bytes[pos++], written, written + count);
+            written += count;
+        }
+    }
+    return out;
+}
+
+// ============================================================================================
+/**
+ * Read one sample from the decompressed rows (MSB-first for sub-byte samples)
+ * @param {Uint8Array} raw - The decompressed rows
+ * @param {number} rowStart - Offset of the row in raw
+ * @param {number} bitOffset - Bit offset of the sample within the row
+ * @param {number} bits - Bits per sample
+ * @param {boolean} littleEndian - The byte order of 16-bit samples
+ * @returns {number} The sample value
+ */
+function readSample(raw: Uint8Array, rowStart: number, bitOffset: number, bits: number, littleEndian: boolean): number {
+    const at = rowStart + (bitOffset >> 3);
+    if (bits === 8) return raw[at];
+    if (bits === 16) return littleEndian ? raw[at] | (raw[at + 1] << 8) : (raw[at] << 8) | raw[at + 1];
+    const shift = 8 - bits - (bitOffset & 7);
+    return (raw[at] >> shift) & ((1 << bits) - 1);
+}
+
+// ============================================================================================
+/**
+ * Scale a sample to 0–255
+ * @param {number} value - The sample value
+ * @param {number} bits - Bits per sample
+ * @returns {number} The scaled value
+ */
+function scaleSample(value: number, bits: number): number {
+    if (bits === 8) return value;
+    if (bits === 16) return value >> 8;
+    return Math.round((value * 255) / ((1 << bits) - 1));
+}
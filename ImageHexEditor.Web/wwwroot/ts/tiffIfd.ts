@@ -0,0 +1,482 @@
+/**
+ * tiffIfd.ts
+ * @fileoverview TIFF image file directory (IFD) engine
+ * @description Reads TIFF headers and IFD entries in either byte order, formats entry
+ * values for display and encodes edited values back into their stored form. Shared by
+ * the EXIF parser (APP1) and anything else that embeds a TIFF structure.
+ */
+
+// ============================================================================================
+/**
+ * A TIFF structure located inside a file
+ * @param {Uint8Array} bytes - The bytes of the whole file
+ * @param {number} base - Absolute offset of the TIFF header; IFD offsets are relative to it
+ * @param {number} end - Absolute end of the TIFF structure (values past it are not read)
+ * @param {boolean} littleEndian - True for "II" (Intel) byte order, false for "MM" (Motorola)
+ * @param {number} firstIfdOffset - Relative offset of IFD0
+ */
+export interface TiffReader {
+    bytes: Uint8Array;
+    base: number;
+    end: number;
+    littleEndian: boolean;
+    firstIfdOffset: number;
+}
+
+/** A decoded entry value: text for ASCII entries, numbers otherwise (rationals as numerator/denominator pairs). */
+export type IfdValue = string | number[];
+
+// ============================================================================================
+/**
+ * A single 12-byte IFD entry
+ * @param {number} tag - The tag number
+ * @param {number} type - The field type (1–13)
+ * @param {number} count - The number of values
+ * @param {number} entryOffset - Absolute offset of the 12-byte entry
+ * @param {number} valueOffset - Absolute offset of the value bytes (inline or pointed to)
+ * @param {number} valueSize - Size of the value in bytes
+ * @param {boolean} truncated - True when the value runs past the end of the TIFF structure
+ * @param {IfdValue} value - The decoded value (empty when truncated)
+ */
+export interface IfdEntry {
+    tag: number;
+    type: number;
+    count: number;
+    entryOffset: number;
+    valueOffset: number;
+    valueSize: number;
+    truncated: boolean;
+    value: IfdValue;
+}
+
+// ============================================================================================
+/**
+ * A decoded IFD
+ * @param {string} name - The directory name (e.g. 'IFD0', 'Exif', 'GPS')
+ * @param {number} offset - Absolute offset of the entry count
+ * @param {IfdEntry[]} entries - The entries in file order
+ * @param {number} nextOffset - Relative offset of the next IFD in the chain (0 if none)
+ * @param {number} nextPointerOffset - Absolute offset of the 4-byte next-IFD pointer
+ */
+export interface Ifd {
+    name: string;
+    offset: number;
+    entries: IfdEntry[];
+    nextOffset: number;
+    nextPointerOffset: number;
+}
+
+const TYPE_SIZES: Record<number, number> = {
+    1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4
+};
+
+const TYPE_NAMES: Record<number, string> = {
+    1: 'BYTE', 2: 'ASCII', 3: 'SHORT', 4: 'LONG', 5: 'RATIONAL', 6: 'SBYTE', 7: 'UNDEFINED',
+    8: 'SSHORT', 9: 'SLONG', 10: 'SRATIONAL', 11: 'FLOAT', 12: 'DOUBLE', 13: 'IFD'
+};
+
+/** Baseline TIFF tag names, shared by IFD0/IFD1 of EXIF and by TIFF files. */
+export const TIFF_TAG_NAMES: Record<number, string> = {
+    0x00fe: 'NewSubfileType',
+    0x0100: 'ImageWidth',
+    0x0101: 'ImageLength',
+    0x0102: 'BitsPerSample',
+    0x0103: 'Compression',
+    0x0106: 'PhotometricInterpretation',
+    0x010e: 'ImageDescription',
+    0x010f: 'Make',
+    0x0110: 'Model',
+    0x0111: 'StripOffsets',
+    0x0112: 'Orientation',
+    0x0115: 'SamplesPerPixel',
+    0x0116: 'RowsPerStrip',
+    0x0117: 'StripByteCounts',
+    0x011a: 'XResolution',
+    0x011b: 'YResolution',
+    0x011c: 'PlanarConfiguration',
+    0x0128: 'ResolutionUnit',
+    0x012d: 'TransferFunction',
+    0x0131: 'Software',
+    0x0132: 'DateTime',
+    0x013b: 'Artist',
+    0x013d: 'Predictor',
+    0x013e: 'WhitePoint',
+    0x013f: 'PrimaryChromaticities',
+    0x0140: 'ColorMap',
+    0x0142: 'TileWidth',
+    0x0143: 'TileLength',
+    0x0144: 'TileOffsets',
+    0x0145: 'TileByteCounts',
+    0x014a: 'SubIFDs',
+    0x0152: 'ExtraSamples',
+    0x0153: 'SampleFormat',
+    0x0201: 'JPEGInterchangeFormat',
+    0x0202: 'JPEGInterchangeFormatLength',
+    0x0211: 'YCbCrCoefficients',
+    0x0212: 'YCbCrSubSampling',
+    0x0213: 'YCbCrPositioning',
+    0x0214: 'ReferenceBlackWhite',
+    0x02bc: 'XMLPacket',
+    0x8298: 'Copyright',
+    0x83bb: 'IPTC',
+    0x8649: 'PhotoshopSettings',
+    0x8769: 'ExifIFDPointer',
+    0x8773: 'InterColorProfile',
+    0x8825: 'GPSInfoIFDPointer'
+};
+
+// ============================================================================================
+/**
+ * Read a TIFF header ("II*\0" or "MM\0*") and the offset of IFD0
+ * @param {Uint8Array} bytes - The bytes of the whole file
+ * @param {number} base - Absolute offset of the TIFF header
+ * @param {number} end - Absolute end of the TIFF structure
+ * @returns {TiffReader | null} The reader, or null if the header is invalid
+ */
+export function readTiffHeader(bytes: Uint8Array, base: number, end: number): TiffReader | null {
+    const limit = Math.min(end, bytes.length);
+    if (base < 0 || base + 8 > limit) return null;
+
+    let littleEndian: boolean;
+    if (bytes[base] === 0x49 && bytes[base + 1] === 0x49) {
+        littleEndian = true;
+    } else if (bytes[base] === 0x4d && bytes[base + 1] === 0x4d) {
+        littleEndian = false;
+    } else {
+        return null;
+    }
+
+    const reader: TiffReader = { bytes, base, end: limit, littleEndian, firstIfdOffset: 0 };
+    if (readUint16(reader, base + 2) !== 42) return null;
+
+    reader.firstIfdOffset = readUint32(reader, base + 4);
+    return reader;
+}
+
+// ============================================================================================
+/**
+ * Read an IFD at a relative offset. Entries whose values run past the end of the
+ * TIFF structure are kept but flagged as truncated.
+ * @param {TiffReader} reader - The TIFF reader
+ * @param {number} relativeOffset - Offset of the IFD relative to the TIFF header
+ * @param {string} name - The directory name to record
+ * @returns {Ifd | null} The IFD, or null if its entry table does not fit
+ */
+export function readIfd(reader: TiffReader, relativeOffset: number, name: string): Ifd | null {
+    const offset = reader.base + relativeOffset;
+    if (relativeOffset < 8 || offset + 2 > reader.end) return null;
+
+    const count = readUint16(reader, offset);
+    const tableEnd = offset + 2 + count * 12;
+    if (tableEnd > reader.end) return null;
+
+    const entries: IfdEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        entries.push(readEntry(reader, offset + 2 + i * 12));
+    }
+
+    const hasNext = tableEnd + 4 <= reader.end;
+    return {
+        name,
+        offset,
+        entries,
+        nextOffset: hasNext ? readUint32(reader, tableEnd) : 0,
+        nextPointerOffset: tableEnd
+    };
+}
+
+// ============================================================================================
+/**
+ * Walk a chain of IFDs starting at a relative offset, following next-IFD pointers.
+ * Stops at the first invalid IFD or when a pointer loops back to a visited IFD.
+ * @param {TiffReader} reader - The TIFF reader
+ * @param {number} relativeOffset - Offset of the first IFD relative to the TIFF header
+ * @param {function(number): string} nameFor - Names the IFD at each chain position
+ * @returns {Ifd[]} The IFDs in chain order
+ */
+export function readIfdChain(reader: TiffReader, relativeOffset: number, nameFor: (index: number) => string): Ifd[] {
+    const chain: Ifd[] = [];
+    const visited = new Set<number>();
+    let next = relativeOffset;
+
+    while (next !== 0 && !visited.has(next)) {
+        visited.add(next);
+        const ifd = readIfd(reader, next, nameFor(chain.length));
+        if (!ifd) break;
+        chain.push(ifd);
+        next = ifd.nextOffset;
+    }
+
+    return chain;
+}
+
+// ============================================================================================
+/**
+ * Find an entry by tag in an IFD
+ * @param {Ifd | null | undefined} ifd - The IFD to search
+ * @param {number} tag - The tag number
+ * @returns {IfdEntry | null} The entry, or null if absent
+ */
+export function findIfdEntry(ifd: Ifd | null | undefined, tag: number): IfdEntry | null {
+    if (!ifd) return null;
+    return ifd.entries.find((entry) => entry.tag === tag) ?? null;
+}
+
+// ============================================================================================
+/**
+ * Read the first numeric value of an entry (e.g. a pointer or a dimension)
+ * @param {IfdEntry | null} entry - The entry
+ * @returns {number | null} The value, or null if the entry is absent or not numeric
+ */
+export function ifdNumber(entry: IfdEntry | null): number | null {
+    if (!entry || typeof entry.value === 'string' || entry.value.length === 0) return null;
+    return entry.value[0];
+}
+
+// ============================================================================================
+/**
+ * Get the name of an IFD field type
+ * @param {number} type - The field type
+ * @returns {string} The type name (e.g. 'SHORT'), or the number for unknown types
+ */
+export function ifdTypeName(type: number): string {
+    return TYPE_NAMES[type] ?? `#${type}`;
+}
+
+// ============================================================================================
+/**
+ * Format an entry value for display. Long numeric arrays are abbreviated and
+ * UNDEFINED values are shown as text when printable, otherwise as hex.
+ * @param {IfdEntry} entry - The entry to format
+ * @returns {string} The formatted value
+ */
+export function formatIfdValue(entry: IfdEntry): string {
+    if (entry.truncated) return '(runs past end of data)';
+    const value = entry.value;
+    if (typeof value === 'string') return value;
+
+    if (entry.type === 7) {
+        const printable = value.every((b) => b === 0 || (b >= 0x20 && b <= 0x7e));
+        if (printable && value.some((b) => b !== 0)) {
+            return String.fromCharCode(...value.filter((b) => b !== 0));
+        }
+        const hex = value.slice(0, 32).map((b) => b.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+        return value.length > 32 ? `${hex} … (${value.length} bytes)` : hex;
+    }
+
+    const parts: string[] = [];
+    if (entry.type === 5 || entry.type === 10) {
+        for (let i = 0; i + 1 < value.length && parts.length < 16; i += 2) {
+            parts.push(`${value[i]}/${value[i + 1]}`);
+        }
+    } else {
+        for (let i = 0; i < value.length && parts.length < 16; i++) {
+            parts.push(String(value[i]));
+        }
+    }
+
+    const shown = entry.type === 5 || entry.type === 10 ? parts.length * 2 : parts.length;
+    return shown < value.length ? `${parts.join(', ')} … (${entry.count} values)` : parts.join(', ');
+}
+
+// ============================================================================================
+/**
+ * Check whether an entry can be edited as text: its whole value fits in the
+ * abbreviated display produced by formatIfdValue.
+ * @param {IfdEntry} entry - The entry
+ * @returns {boolean} True if the entry can be edited in place
+ */
+export function isIfdValueEditable(entry: IfdEntry): boolean {
+    if (entry.truncated || entry.count === 0) return false;
+    if (entry.type === 2) return true;
+    if (entry.type === 7) return entry.count <= 32;
+    if (entry.type === 5 || entry.type === 10) return entry.count <= 16;
+    return entry.type in TYPE_SIZES && entry.count <= 16;
+}
+
+// ============================================================================================
+/**
+ * Encode an edited value into the entry's stored bytes. The result always has the
+ * entry's original size: text is NUL-padded and numeric lists must supply exactly
+ * `count` values, so the edit can be written in place without moving anything.
+ * @param {TiffReader} reader - The TIFF reader (supplies the byte order)
+ * @param {IfdEntry} entry - The entry being edited
+ * @param {string} text - The edited value as text (same format as formatIfdValue)
+ * @returns {Uint8Array | null} The encoded bytes, or null if the text does not fit
+ */
+export function encodeIfdValue(reader: TiffReader, entry: IfdEntry, text: string): Uint8Array | null {
+    const out = new Uint8Array(entry.valueSize);
+
+    if (entry.type === 2) {
+        // Leave room for the terminating NUL that ASCII values require.
+        if (text.length > entry.count - 1) return null;
+        for (let i = 0; i < text.length; i++) {
+            const code = text.charCodeAt(i);
+            if (code > 0xff) return null;
+            out[i] = code;
+        }
+        return out;
+    }
+
+    if (entry.type === 7) {
+        const hex = text.replace(/\s+/g, '');
+        if (/^[0-9a-f]+$/i.test(hex) && hex.length === entry.count * 2) {
+            for (let i = 0; i < entry.count; i++) {
+                out[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+            }
+            return out;
+        }
+        if (text.length > entry.count) return null;
+        for (let i = 0; i < text.length; i++) {
+            out[i] = text.charCodeAt(i) & 0xff;
+        }
+        return out;
+    }
+
+    const isRational = entry.type === 5 || entry.type === 10;
+    const tokens = text.split(',').map((token) => token.trim()).filter((token) => token.length > 0);
+    if (tokens.length !== entry.count) return null;
+
+    const view = new DataView(out.buffer);
+    const size = TYPE_SIZES[entry.type];
+    const le = reader.littleEndian;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const at = i * size;
+        if (isRational) {
+            const match = /^(-?\d+)\s*\/\s*(-?\d+)$/.exec(tokens[i]);
+            const whole = /^-?\d+$/.test(tokens[i]);
+            if (!match && !whole) return null;
+            const numerator = match ? Number(match[1]) : Number(tokens[i]);
+            const denominator = match ? Number(match[2]) : 1;
+            if (entry.type === 5) {
+                if (numerator < 0 || denominator < 0 || numerator > 0xffffffff || denominator > 0xffffffff) return null;
+                view.setUint32(at, numerator, le);
+                view.setUint32(at + 4, denominator, le);
+            } else {
+                view.setInt32(at, numerator, le);
+                view.setInt32(at + 4, denominator, le);
+            }
+            continue;
+        }
+
+        const value = Number(tokens[i]);
+        if (!Number.isFinite(value)) return null;
+        if (entry.type !== 11 && entry.type !== 12 && !Number.isInteger(value)) return null;
+
+        switch (entry.type) {
+            case 1: if (value < 0 || value > 0xff) return null; view.setUint8(at, value); break;
+            case 6: if (value < -0x80 || value > 0x7f) return null; view.setInt8(at, value); break;
+            case 3: if (value < 0 || value > 0xffff) return null; view.setUint16(at, value, le); break;
+            case 8: if (value < -0x8000 || value > 0x7fff) return null; view.setInt16(at, value, le); break;
+            case 4:
+            case 13: if (value < 0 || value > 0xffffffff) return null; view.setUint32(at, value, le); break;
+            case 9: if (value < -0x80000000 || value > 0x7fffffff) return null; view.setInt32(at, value, le); break;
+            case 11: view.setFloat32(at, value, le); break;
+            case 12: view.setFloat64(at, value, le); break;
+            default: return null;
+        }
+    }
+
+    return out;
+}
+
+// ============================================================================================
+/**
+ * Read an unsigned 16-bit value in the reader's byte order
+ * @param {TiffReader} reader - The TIFF reader
+ * @param {number} offset - Absolute offset of the value
+ * @returns {number} The value
+ */
+export function readUint16(reader: TiffReader, offset: number): number {
+    const b = reader.bytes;
+    return reader.littleEndian
+        ? b[offset] | (b[offset + 1] << 8)
+        : (b[offset] << 8) | b[offset + 1];
+}
+
+// ============================================================================================
+/**
+ * Read an unsigned 32-bit value in the reader's byte order
+ * @param {TiffReader} reader - The TIFF reader
+ * @param {number} offset - Absolute offset of the value
+ * @returns {number} The value
+ */
+export function readUint32(reader: TiffReader, offset: number): number {
+    const b = reader.bytes;
+    const value = reader.littleEndian
+        ? b[offset] | (b[offset + 1] << 8) | (b[offset + 2] << 16) | (b[offset + 3] << 24)
+        : (b[offset] << 24) | (b[offset + 1] << 16) | (b[offset + 2] << 8) | b[offset + 3];
+    return value >>> 0;
+}
+
+// ============================================================================================
+/**
+ * Read one 12-byte IFD entry and decode its value
+ * @param {TiffReader} reader - The TIFF reader
+ * @param {number} entryOffset - Absolute offset of the entry
+ * @returns {IfdEntry} The entry
+ */
+function readEntry(reader: TiffReader, entryOffset: number): IfdEntry {
+    const tag = readUint16(reader, entryOffset);
+    const type = readUint16(reader, entryOffset + 2);
+    const count = readUint32(reader, entryOffset + 4);
+    const size = TYPE_SIZES[type] ?? 1;
+    const valueSize = count * size;
+
+    // Values of up to four bytes are stored inline in the entry's value field.
+    const valueOffset = valueSize <= 4
+        ? entryOffset + 8
+        : reader.base + readUint32(reader, entryOffset + 8);
+
+    const truncated = !(type in TYPE_SIZES) || valueOffset < reader.base || valueOffset + valueSize > reader.end;
+    const value = truncated ? [] : decodeValue(reader, type, count, valueOffset);
+
+    return { tag, type, count, entryOffset, valueOffset, valueSize, truncated, value };
+}
+
+// ============================================================================================
+/**
+ * Decode the value bytes of an entry
+ * @param {TiffReader} reader - The TIFF reader
+ * @param {number} type - The field type
+ * @param {number} count - The number of values
+ * @param {number} offset - Absolute offset of the value bytes
+ * @returns {IfdValue} The decoded value
+ */
+function decodeValue(reader: TiffReader, type: number, count: number, offset: number): IfdValue {
+    const b = reader.bytes;
+
+    if (type === 2) {
+        let text = '';
+        for (let i = 0; i < count; i++) {
+            const code = b[offset + i];
+            if (code === 0) break;
+            text += String.fromCharCode(code);
+        }
+        return text;
+    }
+
+    const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+    const le = reader.littleEndian;
+    const values: number[] = [];
+
+    for (let i = 0; i < count; i++) {
+        switch (type) {
+            case 1:
+            case 7: values.push(b[offset + i]); break;
+            case 6: values.push(view.getInt8(offset + i)); break;
+            case 3: values.push(view.getUint16(offset + i * 2, le)); break;
+            case 8: values.push(view.getInt16(offset + i * 2, le)); break;
+            case 4:
+            case 13: values.push(view.getUint32(offset + i * 4, le)); break;
+            case 9: values.push(view.getInt32(offset + i * 4, le)); break;
+            case 5: values.push(view.getUint32(offset + i * 8, le), view.getUint32(offset + i * 8 + 4, le)); break;
+            case 10: values.push(view.getInt32(offset + i * 8, le), view.getInt32(offset + i * 8 + 4, le)); break;
+            case 11: values.push(view.getFloat32(offset + i * 4, le)); break;
+            case 12: values.push(view.getFloat64(offset + i * 8, le)); break;
+        }
+    }
+
+    return values;
+}
@@ -0,0 +1,292 @@
+/**
+ * tiffStructure.ts
+ * @fileoverview TIFF byte classification and image directory analysis
+ * @description Walks the IFD chain of a TIFF file (plus SubIFDs and the EXIF/GPS directories)
+ * with the IFD engine shared with the EXIF parser, locates each image's strips or tiles and
+ * classifies every byte as header, directory, tag value or image data
+ */
+
+import { exifTagName } from './exif';
+import { findIfdEntry, Ifd, IfdEntry, ifdNumber, readIfd, readIfdChain, readTiffHeader, TiffReader } from './tiffIfd';
+import { ByteLayout, ByteRange, createRegionCodes, DecodedImage, FormatAnalyzer } from './formatRegistry';
+import { canDecodeTiffImage, decodeTiffImage } from './tiffDecoder';
+
+/** Size of the TIFF header: byte order, 42 and the offset of IFD0. */
+const TIFF_HEADER_SIZE = 8;
+
+/** Most SubIFDs followed per directory, so a corrupt count cannot stall the walk. */
+const MAX_SUB_IFDS = 64;
+
+// ============================================================================================
+/**
+ * An image described by an IFD with strip or tile offsets
+ * @param {Ifd} ifd - The directory describing the image
+ * @param {number} width - ImageWidth
+ * @param {number} height - ImageLength
+ * @param {number[]} bitsPerSample - BitsPerSample, one value per sample
+ * @param {number} samplesPerPixel - SamplesPerPixel
+ * @param {number} compression - Compression (1 = none, 5 = LZW, 7 = JPEG, 32773 = PackBits, ...)
+ * @param {number} photometric - PhotometricInterpretation (0 = WhiteIsZero, 1 = BlackIsZero, 2 = RGB, 3 = palette, 5 = CMYK, ...)
+ * @param {number} planarConfig - PlanarConfiguration (1 = chunky, 2 = planar)
+ * @param {number[]} extraSamples - ExtraSamples (1 = associated alpha, 2 = unassociated alpha)
+ * @param {boolean} tiled - True when the data is stored in tiles rather than strips
+ * @param {number} rowsPerStrip - RowsPerStrip (the image height when absent)
+ * @param {number} tileWidth - TileWidth (0 for strips)
+ * @param {number} tileHeight - TileLength (0 for strips)
+ * @param {ByteRange[]} blocks - The strips or tiles present in the file, one per offset-table entry (empty when missing)
+ * @param {IfdEntry | null} colorMap - The ColorMap entry of a palette image
+ */
+export interface TiffImage {
+    ifd: Ifd;
+    width: number;
+    height: number;
+    bitsPerSample: number[];
+    samplesPerPixel: number;
+    compression: number;
+    photometric: number;
+    planarConfig: number;
+    extraSamples: number[];
+    tiled: boolean;
+    rowsPerStrip: number;
+    tileWidth: number;
+    tileHeight: number;
+    blocks: ByteRange[];
+    colorMap: IfdEntry | null;
+}
+
+// ============================================================================================
+/**
+ * The layout of a TIFF: the directories and the images they describe
+ * @param {TiffReader} reader - The TIFF reader (byte order)
+ * @param {Ifd[]} ifds - Every directory found: the main chain, SubIFDs, then Exif, GPS and Interop
+ * @param {TiffImage[]} images - The directories that describe image data, main chain first
+ */
+export interface TiffLayout extends ByteLayout {
+    reader: TiffReader;
+    ifds: Ifd[];
+    images: TiffImage[];
+}
+
+/** The regions of a TIFF, in legend order. */
+const TIFF_LEGEND = [
+    { id: 'tiff-header', label: 'TIFF Header' },
+    { id: 'tiff-ifd',    label: 'Image File Directory' },
+    { id: 'tiff-value',  label: 'Tag Value' },
+    { id: 'tiff-strip',  label: 'Strip Data', bulkData: true },
+    { id: 'tiff-tile',   label: 'Tile Data', bulkData: true }
+] as const;
+
+/** The codes stored in a TIFF layout's `regions` array. */
+const TIFF_CODES = createRegionCodes(TIFF_LEGEND);
+
+/** The TIFF analyzer. */
+export const TIFF_ANALYZER: FormatAnalyzer<TiffLayout> = {
+    id: 'tiff',
+    name: 'TIFF',
+    mimeType: 'image/tiff',
+    detect: isTiff,
+    analyze: analyzeTiff,
+    describeDimensions: (bytes, layout) => describeTiffDimensions(layout),
+    describeByte: (bytes, layout, offset) => describeTiffByte(layout, offset),
+    decodePreview: decodeTiffPreview,
+    legend: TIFF_LEGEND,
+    jumpTargets: [
+        'tiff-header',
+        'tiff-ifd',
+        'tiff-value',
+        'tiff-strip',
+        'tiff-tile'
+    ]
+};
+
+// ============================================================================================
+/**
+ * Check whether bytes open with a TIFF header
+ * @param {Uint8Array} bytes - The bytes to check
+ * @returns {boolean} True if the file starts with "II*\0" or "MM\0*"
+ */
+export function isTiff(bytes: Uint8Array): boolean {
+    return readTiffHeader(bytes, 0, bytes.length) !== null;
+}
+
+// ============================================================================================
+/**
+ * Check whether a layout came from the TIFF analyzer
+ * @param {ByteLayout | null} layout - The layout to check
+ * @returns {boolean} True if the layout is a TIFF layout
+ */
+export function isTiffLayout(layout: ByteLayout | null): layout is TiffLayout {
+    return !!layout && 'ifds' in layout;
+}
+
+// ============================================================================================
+/**
+ * Analyze a TIFF: classify the header, every IFD (entry table and next pointer), the tag values
+ * stored outside the entries, and the strip or tile data of each image. Strips and tiles get
+ * separate regions so tiled files are easy to tell apart. Unreferenced bytes are "other".
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @returns {TiffLayout | null} The layout, or null if the file is not a TIFF
+ */
+export function analyzeTiff(bytes: Uint8Array): TiffLayout | null {
+    const reader = readTiffHeader(bytes, 0, bytes.length);
+    if (!reader) return null;
+
+    const len = bytes.length;
+    const regions = new Uint8Array(len);
+    regions.fill(TIFF_CODES.other);
+
+    // The main chain holds one IFD per page; SubIFDs hang off it (reduced-resolution copies).
+    const chain = readIfdChain(reader, reader.firstIfdOffset, (index) => `IFD${index}`);
+    const ifds: Ifd[] = [...chain];
+    const visited = new Set(chain.map((ifd) => ifd.offset));
+    const addIfd = (pointer: number | null, name: string): Ifd | null => {
+        if (!pointer || visited.has(reader.base + pointer)) return null;
+        const ifd = readIfd(reader, pointer, name);
+        if (!ifd) return null;
+        visited.add(ifd.offset);
+        ifds.push(ifd);
+        return ifd;
+    };
+
+    for (const ifd of chain) {
+        const subIfds = findIfdEntry(ifd, 0x014a);
+        const pointers = subIfds && typeof subIfds.value !== 'string' ? subIfds.value.slice(0, MAX_SUB_IFDS) : [];
+        pointers.forEach((pointer, i) => addIfd(pointer, `${ifd.name} SubIFD${i}`));
+    }
+    const ifd0 = chain[0] ?? null;
+    const exifIfd = addIfd(ifdNumber(findIfdEntry(ifd0, 0x8769)), 'Exif');
+    addIfd(ifdNumber(findIfdEntry(ifd0, 0x8825)), 'GPS');
+    addIfd(ifdNumber(findIfdEntry(exifIfd, 0xa005)), 'Interop');
+
+    const images: TiffImage[] = [];
+    for (const ifd of ifds) {
+        const image = readImage(ifd, len);
+        if (!image) continue;
+        images.push(image);
+        for (const block of image.blocks) {
+            regions.fill(image.tiled ? TIFF_CODES['tiff-tile'] : TIFF_CODES['tiff-strip'], block.start, block.end);
+        }
+    }
+
+    // Tag values, then the directories themselves, so structure wins over overlapping data.
+    for (const ifd of ifds) {
+        for (const entry of ifd.entries) {
+            if (entry.valueSize > 4 && !entry.truncated) regions.fill(TIFF_CODES['tiff-value'], entry.valueOffset, entry.valueOffset + entry.valueSize);
+        }
+    }
+    for (const ifd of ifds) {
+        regions.fill(TIFF_CODES['tiff-ifd'], ifd.offset, Math.min(ifd.nextPointerOffset + 4, len));
+    }
+    regions.fill(TIFF_CODES['tiff-header'], 0, TIFF_HEADER_SIZE);
+
+    return {
+        length: len,
+        regions,
+        reader,
+        ifds,
+        images
+    };
+}
+
+// ============================================================================================
+/**
+ * Describe what a byte of a TIFF belongs to
+ * @param {TiffLayout} layout - The layout of the TIFF
+ * @param {number} offset - The offset of the byte
+ * @returns {string | null} The description (e.g. "IFD0 entry ImageWidth", "IFD0 strip 3"), or null for unreferenced bytes
+ */
+export function describeTiffByte(layout: TiffLayout, offset: number): string | null {
+    if (offset < TIFF_HEADER_SIZE) return 'TIFF header';
+
+    for (const ifd of layout.ifds) {
+        if (offset < ifd.offset || offset >= ifd.nextPointerOffset + 4) continue;
+        if (offset < ifd.offset + 2) return `${ifd.name} entry count`;
+        if (offset >= ifd.nextPointerOffset) return `${ifd.name} next-IFD pointer`;
+        const entry = ifd.entries[Math.floor((offset - ifd.offset - 2) / 12)];
+        return entry ? `${ifd.name} entry ${exifTagName(ifd.name, entry.tag)}` : null;
+    }
+    for (const image of layout.images) {
+        const index = image.blocks.findIndex((block) => offset >= block.start && offset < block.end);
+        if (index >= 0) return `${image.ifd.name} ${image.tiled ? 'tile' : 'strip'} ${index}`;
+    }
+    for (const ifd of layout.ifds) {
+        const entry = ifd.entries.find((candidate) => candidate.valueSize > 4 && offset >= candidate.valueOffset && offset < candidate.valueOffset + candidate.valueSize);
+        if (entry) return `${ifd.name} value of ${exifTagName(ifd.name, entry.tag)}`;
+    }
+    return null;
+}
+
+// ============================================================================================
+/**
+ * Describe the size of the first image and the number of pages
+ * @description Only the main IFD chain counts as pages; SubIFD, EXIF and GPS directories do not
+ * @param {TiffLayout} layout - The layout of the TIFF
+ * @returns {string | null} The dimensions (e.g. "640 × 480 · 3 pages"), or null if the file has no image
+ */
+export function describeTiffDimensions(layout: TiffLayout): string | null {
+    const image = layout.images[0];
+    if (!image) return null;
+    const pages = layout.images.filter((candidate) => /^IFD\d+$/.test(candidate.ifd.name)).length;
+    return `${image.width} × ${image.height}${pages > 1 ? ` · ${pages} pages` : ''}`;
+}
+
+// ============================================================================================
+/**
+ * Decode the first image of a TIFF for the preview
+ * @description <img> cannot show TIFF in most browsers, so the editor decodes what it can itself
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {TiffLayout} layout - The layout of the TIFF
+ * @returns {DecodedImage | null} The pixels, or null if the image uses a layout or compression the decoder lacks
+ */
+export function decodeTiffPreview(bytes: Uint8Array, layout: TiffLayout): DecodedImage | null {
+    const image = layout.images[0];
+    if (!image || !canDecodeTiffImage(image)) return null;
+    return decodeTiffImage(bytes, image, layout.reader.littleEndian);
+}
+
+// ============================================================================================
+/**
+ * Read the image description of an IFD and locate its strips or tiles
+ * @param {Ifd} ifd - The directory
+ * @param {number} len - The file length (blocks are clipped to it)
+ * @returns {TiffImage | null} The image, or null if the directory has no strip or tile offsets
+ */
+function readImage(ifd: Ifd, len: number): TiffImage | null {
+    const tileOffsets = findIfdEntry(ifd, 0x0144);
+    const tiled = !!tileOffsets;
+    const offsets = tileOffsets ?? findIfdEntry(ifd, 0x0111);
+    const counts = findIfdEntry(ifd, tiled ? 0x0145 : 0x0117);
+    if (!offsets || typeof offsets.value === 'string') return null;
+
+    const numbers = (entry: IfdEntry | null): number[] => (entry && typeof entry.value !== 'string' ? entry.value : []);
+    const number = (tag: number, fallback: number): number => ifdNumber(findIfdEntry(ifd, tag)) ?? fallback;
+    const height = number(0x0101, 0);
+    const samplesPerPixel = number(0x0115, 1);
+    const bitsPerSample = numbers(findIfdEntry(ifd, 0x0102));
+
+    const blocks: ByteRange[] = [];
+    const sizes = numbers(counts);
+    // Blocks stay aligned with the offset table; missing or out-of-file ones are empty.
+    offsets.value.forEach((start, i) => {
+        const clipped = Math.min(start, len);
+        blocks.push({ start: clipped, end: Math.min(clipped + (sizes[i] ?? 0), len) });
+    });
+
+    return {
+        ifd,
+        width: number(0x0100, 0),
+        height,
+        bitsPerSample: bitsPerSample.length > 0 ? bitsPerSample : new Array(samplesPerPixel).fill(1),
+        samplesPerPixel,
+        compression: number(0x0103, 1),
+        photometric: number(0x0106, 1),
+        planarConfig: number(0x011c, 1),
+        extraSamples: numbers(findIfdEntry(ifd, 0x0152)),
+        tiled,
+        rowsPerStrip: Math.min(number(0x0116, height), height),
+        tileWidth: tiled ? number(0x0142, 0) : 0,
+        tileHeight: tiled ? number(0x0143, 0) : 0,
+        blocks,
+        colorMap: findIfdEntry(ifd, 0x0140)
+    };
+}
@@ -0,0 +1,384 @@
+/**
+ * webpStructure.ts
+ * @fileoverview WebP (RIFF) byte classification and chunk structure analysis
+ * @description Walks the chunks of a RIFF/WebP container (VP8, VP8L, VP8X, ALPH, ANIM, ANMF
+ * and its frame chunks, ICCP, EXIF, XMP) and classifies each byte into the regions of its
+ * legend. Also keeps the RIFF and chunk size fields in step with length-changing edits.
+ */
+
+import { ByteLayout, ByteRange, createRegionCodes, FormatAnalyzer, LayoutEdit } from './formatRegistry';
+
+/** Size of the RIFF header: "RIFF", the 32-bit size and "WEBP". */
+const RIFF_HEADER_SIZE = 12;
+
+/** Size of a chunk header: the FourCC and the 32-bit payload size. */
+const CHUNK_HEADER_SIZE = 8;
+
+/** Size of the fixed ANMF fields (position, size, duration, flags) before its frame chunks. */
+const ANMF_HEADER_SIZE = 16;
+
+// ============================================================================================
+/**
+ * A single WebP chunk
+ * @param {string} fourcc - The chunk FourCC (e.g. 'VP8X', 'VP8 ', 'ANMF')
+ * @param {number} start - Offset of the FourCC
+ * @param {number} end - One past the last byte of the chunk (after any padding byte), clipped to the file
+ * @param {number} size - The declared payload size
+ * @param {ByteRange} data - The payload present in the file
+ * @param {number} frame - For ANMF chunks and the chunks inside them: the 1-based frame (0 otherwise)
+ * @param {boolean} truncated - True when the file ends inside the chunk
+ */
+export interface WebpChunk {
+    fourcc: string;
+    start: number;
+    end: number;
+    size: number;
+    data: ByteRange;
+    frame: number;
+    truncated: boolean;
+}
+
+// ============================================================================================
+/**
+ * The layout of a WebP: the RIFF chunks and the canvas size
+ * @param {number} riffSize - The size declared by the RIFF header (file length minus 8 when consistent)
+ * @param {WebpChunk[]} riffChunks - The chunks in file order; an ANMF chunk is followed by its frame chunks
+ * @param {number} width - The canvas (VP8X) or bitstream width, 0 if unknown
+ * @param {number} height - The canvas (VP8X) or bitstream height, 0 if unknown
+ * @param {number} frameCount - The number of ANMF frames (0 for still images)
+ */
+export interface WebpLayout extends ByteLayout {
+    riffSize: number;
+    riffChunks: WebpChunk[];
+    width: number;
+    height: number;
+    frameCount: number;
+}
+
+/** The regions of a WebP, in legend order. */
+const WEBP_LEGEND = [
+    { id: 'webp-riff',         label: 'RIFF Header' },
+    { id: 'webp-chunk-header', label: 'Chunk Header' },
+    { id: 'webp-vp8x',         label: 'Extended Header (VP8X)' },
+    { id: 'webp-vp8',          label: 'Lossy Bitstream (VP8)', bulkData: true },
+    { id: 'webp-vp8l',         label: 'Lossless Bitstream (VP8L)', bulkData: true },
+    { id: 'webp-alph',         label: 'Alpha (ALPH)' },
+    { id: 'webp-anim',         label: 'Animation (ANIM)' },
+    { id: 'webp-anmf',         label: 'Animation Frame (ANMF)' },
+    { id: 'webp-iccp',         label: 'ICC Profile (ICCP)' },
+    { id: 'webp-exif',         label: 'EXIF' },
+    { id: 'webp-xmp',          label: 'XMP' },
+    { id: 'webp-data',         label: 'Other Chunk' },
+    { id: 'webp-padding',      label: 'Chunk Padding' }
+] as const;
+
+/** The codes stored in a WebP layout's `regions` array. */
+const WEBP_CODES = createRegionCodes(WEBP_LEGEND);
+
+const PAYLOAD_CODES: Record<string, number> = {
+    'VP8X': WEBP_CODES['webp-vp8x'],
+    'VP8 ': WEBP_CODES['webp-vp8'],
+    'VP8L': WEBP_CODES['webp-vp8l'],
+    'ALPH': WEBP_CODES['webp-alph'],
+    'ANIM': WEBP_CODES['webp-anim'],
+    'ANMF': WEBP_CODES['webp-anmf'],
+    'ICCP': WEBP_CODES['webp-iccp'],
+    'EXIF': WEBP_CODES['webp-exif'],
+    'XMP ': WEBP_CODES['webp-xmp']
+};
+
+/** The WebP analyzer; chunk padding bytes are colored but not offered as a Jump target. */
+export const WEBP_ANALYZER: FormatAnalyzer<WebpLayout> = {
+    id: 'webp',
+    name: 'WebP',
+    mimeType: 'image/webp',
+    detect: isWebp,
+    analyze: analyzeWebp,
+    describeDimensions: (bytes, layout) => describeWebpDimensions(layout),
+    describeByte: (bytes, layout, offset) => describeWebpByte(layout, offset),
+    afterEdit: (layout, before, bytes, edit) => fixWebpSizes(layout, bytes, edit),
+    unit: { name: 'chunk', find: findWebpChunkAt },
+    legend: WEBP_LEGEND,
+    jumpTargets: [
+        'webp-riff',
+        'webp-chunk-header',
+        'webp-vp8x',
+        'webp-vp8',
+        'webp-vp8l',
+        'webp-alph',
+        'webp-anim',
+        'webp-anmf',
+        'webp-iccp',
+        'webp-exif',
+        'webp-xmp',
+        'webp-data'
+    ]
+};
+
+// ============================================================================================
+/**
+ * Check whether bytes open with a RIFF header of form type WEBP
+ * @param {Uint8Array} bytes - The bytes to check
+ * @returns {boolean} True if the file starts with "RIFF" ... "WEBP"
+ */
+export function isWebp(bytes: Uint8Array): boolean {
+    if (bytes.length < RIFF_HEADER_SIZE) return false;
+    return readFourcc(bytes, 0) === 'RIFF' && readFourcc(bytes, 8) === 'WEBP';
+}
+
+// ============================================================================================
+/**
+ * Check whether a layout came from the WebP analyzer
+ * @param {ByteLayout | null} layout - The layout to check
+ * @returns {boolean} True if the layout is a WebP layout
+ */
+export function isWebpLayout(layout: ByteLayout | null): layout is WebpLayout {
+    return !!layout && 'riffChunks' in layout;
+}
+
+// ============================================================================================
+/**
+ * Analyze a WebP: classify the RIFF header, then each chunk's header and payload by chunk type.
+ * The frame chunks inside an ANMF payload are walked too. Walking stops at the end of the RIFF
+ * payload (or the file, if the declared size overruns it); bytes after that are "other".
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @returns {WebpLayout | null} The layout, or null if the file is not a WebP
+ */
+export function analyzeWebp(bytes: Uint8Array): WebpLayout | null {
+    if (!isWebp(bytes)) return null;
+
+    const len = bytes.length;
+    const regions = new Uint8Array(len);
+    const riffChunks: WebpChunk[] = [];
+    const riffSize = readUint32(bytes, 4);
+    regions.fill(WEBP_CODES.other);
+    regions.fill(WEBP_CODES['webp-riff'], 0, RIFF_HEADER_SIZE);
+
+    let frameCount = 0;
+    walkChunks(bytes, regions, RIFF_HEADER_SIZE, Math.min(8 + riffSize, len), 0, (chunk) => {
+        riffChunks.push(chunk);
+        if (chunk.fourcc !== 'ANMF') return;
+
+        // The frame chunks follow the fixed ANMF fields inside the payload.
+        frameCount++;
+        chunk.frame = frameCount;
+        const framesStart = chunk.data.start + ANMF_HEADER_SIZE;
+        walkChunks(bytes, regions, framesStart, chunk.data.end, frameCount, (inner) => riffChunks.push(inner));
+    });
+
+    const size = readDimensions(bytes, riffChunks);
+    return {
+        length: len,
+        regions,
+        riffSize,
+        riffChunks,
+        width: size.width,
+        height: size.height,
+        frameCount
+    };
+}
+
+// ============================================================================================
+/**
+ * Find the innermost chunk that owns a byte (a frame's VP8 chunk rather than its ANMF chunk)
+ * @param {WebpLayout} layout - The layout of the WebP
+ * @param {number} offset - The offset of the byte
+ * @returns {WebpChunk | null} The owning chunk, or null for the RIFF header and trailing bytes
+ */
+export function findWebpChunkAt(layout: WebpLayout, offset: number): WebpChunk | null {
+    let match: WebpChunk | null = null;
+    for (const chunk of layout.riffChunks) {
+        if (chunk.start > offset) break;
+        // Frame chunks follow the ANMF chunk that contains them, so the last match is the innermost.
+        if (offset < chunk.end) match = chunk;
+    }
+    return match;
+}
+
+// ============================================================================================
+/**
+ * Name the part of a chunk a byte falls in
+ * @param {WebpChunk} chunk - The chunk
+ * @param {number} offset - The offset of the byte
+ * @returns {string} 'FourCC', 'size', 'frame header' (ANMF fields), 'payload' or 'padding'
+ */
+export function describeWebpChunkPart(chunk: WebpChunk, offset: number): string {
+    if (offset < chunk.start + 4) return 'FourCC';
+    if (offset < chunk.data.start) return 'size';
+    if (chunk.fourcc === 'ANMF' && offset < chunk.data.start + ANMF_HEADER_SIZE) return 'frame header';
+    return offset < chunk.data.end ? 'payload' : 'padding';
+}
+
+// ============================================================================================
+/**
+ * Describe the canvas (or bitstream) size and the number of frames
+ * @param {WebpLayout} layout - The layout of the WebP
+ * @returns {string | null} The dimensions (e.g. "320 × 240 · 12 frames"), or null if no chunk declares them
+ */
+export function describeWebpDimensions(layout: WebpLayout): string | null {
+    const { width, height, frameCount } = layout;
+    if (!width || !height) return null;
+    return `${width} × ${height}${frameCount > 1 ? ` · ${frameCount} frames` : ''}`;
+}
+
+// ============================================================================================
+/**
+ * Describe the chunk a byte belongs to, the part of it the byte falls in and its frame
+ * @param {WebpLayout} layout - The layout of the WebP
+ * @param {number} offset - The offset of the byte
+ * @returns {string | null} The description (e.g. "VP8L chunk payload (frame 2)"), or null outside every chunk
+ */
+export function describeWebpByte(layout: WebpLayout, offset: number): string | null {
+    const chunk = findWebpChunkAt(layout, offset);
+    if (!chunk) return null;
+    return `${chunk.fourcc.trim()} chunk ${describeWebpChunkPart(chunk, offset)}${chunk.frame > 0 ? ` (frame ${chunk.frame})` : ''}`;
+}
+
+// ============================================================================================
+/**
+ * Keep the size fields of a WebP in step with an edit that changed the file length: the RIFF
+ * size, and when the edit lies inside one chunk's payload, that chunk's size and the size of the
+ * ANMF chunk holding it. A payload whose size changes parity gains or loses its padding byte.
+ * Edits to the RIFF header, to chunk headers, across chunks or past the declared RIFF payload
+ * only update what they can (or nothing).
+ * @param {WebpLayout} layout - The layout of the file before the edit
+ * @param {Uint8Array} bytes - The bytes of the file after the edit; size fields are rewritten in place
+ * @param {LayoutEdit} edit - The edited range
+ * @returns {Uint8Array} The fixed bytes: the same array, or a new one if a padding byte came or went
+ */
+export function fixWebpSizes(layout: WebpLayout, bytes: Uint8Array, edit: LayoutEdit): Uint8Array {
+    const delta = edit.length - (edit.end - edit.start);
+    if (delta === 0 || !isWebp(bytes)) return bytes;
+    if (edit.start < RIFF_HEADER_SIZE || edit.end > 8 + layout.riffSize) return bytes;
+
+    // The chunks whose payload holds the whole edit, outermost (ANMF) first. An insertion right
+    // after a payload lands in front of whatever follows it, so it does not resize the chunk.
+    const owners = layout.riffChunks.filter((chunk) => !chunk.truncated && edit.start >= chunk.data.start && edit.start < chunk.data.end && edit.end <= chunk.data.end);
+    const inner = owners[owners.length - 1];
+
+    let out = bytes;
+    let padDelta = 0;
+    if (inner && ((inner.size + delta) & 1) !== (inner.size & 1)) {
+        const padOffset = inner.data.end + delta;
+        padDelta = inner.size & 1 ? -1 : 1;
+        out = new Uint8Array(bytes.length + padDelta);
+        out.set(bytes.subarray(0, padOffset), 0);
+        out.set(bytes.subarray(padOffset + (padDelta < 0 ? 1 : 0)), padOffset + (padDelta > 0 ? 1 : 0));
+    }
+
+    for (const chunk of owners) {
+        writeUint32(out, chunk.start + 4, chunk.size + delta + (chunk === inner ? 0 : padDelta));
+    }
+    writeUint32(out, 4, layout.riffSize + delta + padDelta);
+    return out;
+}
+
+// ============================================================================================
+/**
+ * Walk a run of chunks, classifying each header, payload and padding byte
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {Uint8Array} regions - The region table to fill
+ * @param {number} start - Offset of the first chunk
+ * @param {number} limit - Offset the run ends at (clipped to the file)
+ * @param {number} frame - The frame the chunks belong to (0 outside ANMF)
+ * @param {(chunk: WebpChunk) => void} onChunk - Called with each chunk after it is classified
+ */
+function walkChunks(bytes: Uint8Array, regions: Uint8Array, start: number, limit: number, frame: number, onChunk: (chunk: WebpChunk) => void): void {
+    let pos = start;
+    while (pos + CHUNK_HEADER_SIZE <= limit) {
+        const fourcc = readFourcc(bytes, pos);
+        const size = readUint32(bytes, pos + 4);
+        const dataStart = pos + CHUNK_HEADER_SIZE;
+        const dataEnd = dataStart + size;
+        const end = dataEnd + (size & 1);
+
+        regions.fill(WEBP_CODES['webp-chunk-header'], pos, dataStart);
+        regions.fill(PAYLOAD_CODES[fourcc] ?? WEBP_CODES['webp-data'], dataStart, Math.min(dataEnd, limit));
+        if (dataEnd < limit) regions.fill(WEBP_CODES['webp-padding'], dataEnd, Math.min(end, limit));
+
+        onChunk({
+            fourcc,
+            start: pos,
+            end: Math.min(end, limit),
+            size,
+            data: { start: dataStart, end: Math.min(dataEnd, limit) },
+            frame,
+            truncated: end > limit
+        });
+        pos = end;
+    }
+}
+
+// ============================================================================================
+/**
+ * Read the image size from the VP8X canvas, or else from the first VP8 or VP8L bitstream
+ * @param {Uint8Array} bytes - The bytes of the file
+ * @param {WebpChunk[]} chunks - The chunks of the file
+ * @returns {{ width: number; height: number }} The size, 0 × 0 if no chunk declares it
+ */
+function readDimensions(bytes: Uint8Array, chunks: WebpChunk[]): { width: number; height: number } {
+    for (const chunk of chunks) {
+        const p = chunk.data.start;
+        const available = chunk.data.end - p;
+        if (chunk.fourcc === 'VP8X' && available >= 10) {
+            return { width: readUint24(bytes, p + 4) + 1, height: readUint24(bytes, p + 7) + 1 };
+        }
+        // A VP8 key frame: 3-byte frame tag, the 9D 01 2A start code, then 14-bit sizes.
+        if (chunk.fourcc === 'VP8 ' && available >= 10 && bytes[p + 3] === 0x9d && bytes[p + 4] === 0x01 && bytes[p + 5] === 0x2a) {
+            return { width: (bytes[p + 6] | (bytes[p + 7] << 8)) & 0x3fff, height: (bytes[p + 8] | (bytes[p + 9] << 8)) & 0x3fff };
+        }
+        // VP8L: the 0x2F signature, then width - 1 and height - 1 in 14 bits each.
+        if (chunk.fourcc === 'VP8L' && available >= 5 && bytes[p] === 0x2f) {
+            const bits = readUint32(bytes, p + 1);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+        }
+    }
+    return { width: 0, height: 0 };
+}
+
+// ============================================================================================
+/**
+ * Read a four-character code
+ * @param {Uint8Array} bytes - The bytes to read from
+ * @param {number} offset - The offset of the first character
+ * @returns {string} The code
+ */
+function readFourcc(bytes: Uint8Array, offset: number): string {
+    return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+// ============================================================================================
+/**
+ * Read a little-endian 24-bit unsigned integer
+ * @param {Uint8Array} bytes - The bytes to read from
+ * @param {number} offset - The offset of the first byte
+ * @returns {number} The value
+ */
+function readUint24(bytes: Uint8Array, offset: number): number {
+    return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+// ============================================================================================
+/**
+ * Read a little-endian 32-bit unsigned integer
+ * @param {Uint8Array} bytes - The bytes to read from
+ * @param {number} offset - The offset of the first byte
+ * @returns {number} The value
+ */
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+// ============================================================================================
+/**
+ * Write a little-endian 32-bit unsigned integer
+ * @param {Uint8Array} bytes - The bytes to write to
+ * @param {number} offset - The offset of the first byte
+ * @param {number} value - The value
+ */
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+    bytes[offset] = value & 0xff;
+    bytes[offset + 1] = (value >>> 8) & 0xff;
+    bytes[offset + 2] = (value >>> 16) & 0xff;
+    bytes[offset + 3] = (value >>> 24) & 0xff;
+}
@@ -0,0 +1,225 @@
+/**
+ * xmp.ts
+ * @fileoverview XMP (APP1) metadata packets
+ * @description Locates the XML packet inside an "http://ns.adobe.com/xap/1.0/\0" APP1 segment,
+ * pretty-prints it for reading, and rebuilds the segment (with a fresh length field) after an edit.
+ * Edits made to the pretty-printed text are spliced back into the original packet, and its
+ * trailing padding absorbs the change in size, so small edits keep the segment length.
+ */
+
+import { JpegSegment } from './jpegStructure';
+
+/** The identifier that opens the payload of an XMP APP1 segment. */
+export const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+/** Largest packet that fits one APP1 segment: 0xFFFF minus the length field and the identifier. */
+export const XMP_MAX_PACKET_SIZE = 0xffff - 2 - XMP_HEADER.length;
+
+// ============================================================================================
+/**
+ * The XML packet of an XMP segment
+ * @param {number} start - Offset of the first byte of the packet
+ * @param {number} end - Offset one past the last byte of the packet
+ * @param {string} text - The packet decoded as UTF-8
+ */
+export interface XmpPacket {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// ============================================================================================
+/**
+ * Check whether a segment is an XMP APP1 segment
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The segment to check
+ * @returns {boolean} True if the payload starts with the XMP identifier
+ */
+export function isXmpSegment(bytes: Uint8Array, segment: JpegSegment): boolean {
+    if (segment.marker !== 0xe1) return false;
+    const p = segment.payload.start;
+    if (segment.payload.end - p < XMP_HEADER.length) return false;
+    for (let i = 0; i < XMP_HEADER.length; i++) {
+        if (bytes[p + i] !== XMP_HEADER.charCodeAt(i)) return false;
+    }
+    return true;
+}
+
+// ============================================================================================
+/**
+ * Read the XML packet of an XMP segment
+ * @param {Uint8Array} bytes - The bytes of the JPEG
+ * @param {JpegSegment} segment - The APP1 segment
+ * @returns {XmpPacket | null} The packet, or null if the segment is not XMP
+ */
+export function readXmpPacket(bytes: Uint8Array, segment: JpegSegment): XmpPacket | null {
+    if (!isXmpSegment(bytes, segment)) return null;
+    const start = segment.payload.start + XMP_HEADER.length;
+    const end = segment.payload.end;
+    const text = new TextDecoder('utf-8').decode(bytes.subarray(start, end));
+    return { start, end, text };
+}
+
+// ============================================================================================
+/**
+ * Build a complete XMP APP1 segment (marker, length, identifier, packet) for a packet
+ * @param {string} text - The XML packet
+ * @param {number} [padTo] - The packet size to keep, by resizing the padding before the xpacket trailer
+ * @returns {Uint8Array | null} The segment bytes, or null if the packet does not fit one segment
+ */
+export function buildXmpSegment(text: string, padTo?: number): Uint8Array | null {
+    const packet = new TextEncoder().encode(padTo === undefined ? text : padXmpPacket(text, padTo));
+    if (packet.length > XMP_MAX_PACKET_SIZE) return null;
+
+    const length = 2 + XMP_HEADER.length + packet.length;
+    const out = new Uint8Array(2 + length);
+    out[0] = 0xff;
+    out[1] = 0xe1;
+    out[2] = (length >> 8) & 0xff;
+    out[3] = length & 0xff;
+    for (let i = 0; i < XMP_HEADER.length; i++) {
+        out[4 + i] = XMP_HEADER.charCodeAt(i);
+    }
+    out.set(packet, 4 + XMP_HEADER.length);
+    return out;
+}
+
+// ============================================================================================
+/**
+ * Resize the whitespace padding in front of the <?xpacket end?> trailer so the packet takes a
+ * given number of bytes. Padding only shrinks to nothing, so a packet that outgrew its padding
+ * stays larger; a packet without a trailer is returned as-is.
+ * @param {string} text - The XML packet
+ * @param {number} size - The packet size to reach, in UTF-8 bytes
+ * @returns {string} The packet with its padding resized
+ */
+export function padXmpPacket(text: string, size: number): string {
+    const trailer = text.lastIndexOf('<?xpacket');
+    if (trailer < 0 || !/^<\?xpacket\s+end=/.test(text.slice(trailer))) return text;
+    let start = trailer;
+    while (start > 0 && /\s/.test(text[start - 1])) start--;
+
+    const padding = text.slice(start, trailer);
+    const target = Math.max(0, padding.length + size - new TextEncoder().encode(text).length);
+    // Keep the end of the old padding, which usually holds the newline before the trailer.
+    const resized = target <= padding.length ? padding.slice(padding.length - target) : ' '.repeat(target - padding.length) + padding;
+    return text.slice(0, start) + resized + text.slice(trailer);
+}
+
+// ============================================================================================
+/**
+ * Apply an edit made to the pretty-printed packet to the original packet text, so whitespace
+ * (indentation, padding) outside the edited span stays as it was. The edited span is the
+ * stretch between the longest common prefix and suffix of the two versions.
+ * @param {string} original - The packet as stored in the file
+ * @param {string} formatted - formatXml of the original packet
+ * @param {string} edited - The pretty-printed packet after the edit
+ * @returns {string} The original packet with the edit spliced in, or the edited text as-is if
+ * the formatted text does not line up with the original
+ */
+export function applyFormattedEdit(original: string, formatted: string, edited: string): string {
+    if (edited === formatted) return original;
+    const map = mapFormattedOffsets(original, formatted);
+    if (!map) return edited;
+
+    const limit = Math.min(formatted.length, edited.length);
+    let prefix = 0;
+    while (prefix < limit && formatted[prefix] === edited[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < limit - prefix && formatted[formatted.length - 1 - suffix] === edited[edited.length - 1 - suffix]) suffix++;
+
+    const start = map[prefix];
+    const end = Math.max(start, map[formatted.length - suffix]);
+    return original.slice(0, start) + edited.slice(prefix, edited.length - suffix) + original.slice(end);
+}
+
+// ============================================================================================
+/**
+ * Map every offset of the pretty-printed packet to an offset of the original. formatXml only adds
+ * or drops whitespace between tokens, so the two line up by skipping whitespace on either side.
+ * @param {string} original - The packet as stored in the file
+ * @param {string} formatted - formatXml of the original packet
+ * @returns {number[] | null} The original offset for each formatted offset (and one past the end), or null if the texts do not line up
+ */
+function mapFormattedOffsets(original: string, formatted: string): number[] | null {
+    const map: number[] = [];
+    let j = 0;
+    for (let i = 0; i < formatted.length;) {
+        if (formatted[i] === original[j]) {
+            map.push(j++);
+            i++;
+        } else if (/\s/.test(formatted[i])) {
+            map.push(j);
+            i++;
+        } else if (j < original.length && /\s/.test(original[j])) {
+            j++;
+        } else {
+            return null;
+        }
+    }
+    map.push(j);
+    return map;
+}
+
+// ============================================================================================
+/**
+ * Pretty-print XML with two-space indentation. Whitespace-only text between tags (including
+ * the packet's trailing padding) is dropped; other text is kept as-is, and elements that
+ * only hold text stay on one line.
+ * @param {string} xml - The XML to format
+ * @returns {string} The formatted XML
+ */
+export function formatXml(xml: string): string {
+    const tokens = xml.match(/<!\[CDATA\[[\s\S]*?\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<[^>]*>|[^<]+/g) ?? [];
+    const lines: string[] = [];
+    let depth = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (!token.startsWith('<')) {
+            if (token.trim()) lines.push('  '.repeat(depth) + token);
+            continue;
+        }
+
+        if (token.startsWith('</')) {
+            depth = Math.max(0, depth - 1);
+            lines.push('  '.repeat(depth) + token);
+            continue;
+        }
+
+        const isOpening = !token.startsWith('<?') && !token.startsWith('<!') && !token.endsWith('/>');
+        const text = tokens[i + 1];
+        const close = tokens[i + 2];
+        if (isOpening && text !== undefined && !text.startsWith('<') && close?.startsWith('</')) {
+            // <tag>text</tag> reads best on one line.
+            lines.push('  '.repeat(depth) + token + text + close);
+            i += 2;
+            continue;
+        }
+
+        lines.push('  '.repeat(depth) + token);
+        if (isOpening) depth++;
+    }
+
+    return lines.join('\n');
+}
+
+// ============================================================================================
+/**
+ * Remove the editing history (xmpMM:History) that editing software appends to a packet
+ * @param {string} xml - The XML packet
+ * @returns {{ text: string; removed: number }} The packet without history, and how many blocks were removed
+ */
+export function stripXmpHistory(xml: string): { text: string; removed: number } {
+    let removed = 0;
+    const text = xml
+        .replace(/[ \t]*<xmpMM:History\b[^>]*?(\/>|>[\s\S]*?<\/xmpMM:History>)[ \t]*\r?\n?/g, () => {
+            removed++;
+            return '';
+        })
+        .replace(/\s+xmpMM:History="[^"]*"/g, () => {
+            removed++;
+            return '';
+        });
+    return { text, removed };
+}